@@ -0,0 +1,1147 @@
+import { describe, it, expect, afterEach, vi } from 'vitest';
+import { z } from 'zod';
+import { BaseSubAgent } from './BaseSubAgent.js';
+import { createTool } from './BaseTool.js';
+import { createToolHandler } from '../mcp/tools.js';
+import { SubAgentError, ErrorCode } from '../utils/errors.js';
+import { ApiKeyAuthenticator } from '../utils/auth.js';
+import { InMemorySpanExporter } from '../utils/tracing.js';
+import { installFakeClock } from '../testing/clock.js';
+import type {
+  HealthCheckDefinition,
+  ProcessRequest,
+  SubAgentCapability,
+  SubAgentConfig,
+  ToolDefinition,
+  ToolMiddleware,
+} from '../types/index.js';
+
+class TestAgent extends BaseSubAgent {
+  constructor(tools: ToolDefinition[], config: Partial<SubAgentConfig> = {}) {
+    super(
+      { name: 'test-agent', version: '1.0.0', description: 'Test agent', capabilities: [] },
+      { logLevel: 'silent', retryDelay: 1, ...config }
+    );
+    tools.forEach((tool) => this.registerTool(tool));
+  }
+}
+
+const agents: BaseSubAgent[] = [];
+
+async function startAgent(tools: ToolDefinition[], config?: Partial<SubAgentConfig>): Promise<TestAgent> {
+  const agent = new TestAgent(tools, config);
+  agents.push(agent);
+  await agent.start();
+  return agent;
+}
+
+afterEach(async () => {
+  await Promise.all(agents.splice(0).map((agent) => agent.stop()));
+});
+
+describe('tool retries', () => {
+  function hangingTool(options: { mutating?: boolean; retryTimeouts?: boolean }) {
+    let calls = 0;
+    const tool = createToolHandler({
+      name: 'hang',
+      description: 'Never finishes',
+      inputSchema: z.object({}),
+      mutating: options.mutating,
+      policy: { timeout: 10, retryAttempts: 2, retryTimeouts: options.retryTimeouts },
+      handler: () => {
+        calls++;
+        return new Promise(() => {});
+      },
+    });
+    return { tool, calls: () => calls };
+  }
+
+  it('retries timed-out read-only tools', async () => {
+    const { tool, calls } = hangingTool({});
+    const agent = await startAgent([tool]);
+
+    const response = await agent.executeTool('hang', {});
+
+    expect(response.metadata?.code).toBe(ErrorCode.TIMEOUT);
+    expect(calls()).toBe(3);
+  });
+
+  it('does not retry timed-out mutating tools', async () => {
+    const { tool, calls } = hangingTool({ mutating: true });
+    const agent = await startAgent([tool]);
+
+    const response = await agent.executeTool('hang', {});
+
+    expect(response.metadata?.code).toBe(ErrorCode.TIMEOUT);
+    expect(response.metadata?.attempts).toBe(1);
+    expect(calls()).toBe(1);
+  });
+
+  it('retries timed-out mutating tools that opt in', async () => {
+    const { tool, calls } = hangingTool({ mutating: true, retryTimeouts: true });
+    const agent = await startAgent([tool]);
+
+    await agent.executeTool('hang', {});
+
+    expect(calls()).toBe(3);
+  });
+});
+
+describe('concurrency', () => {
+  function gatedTool(options: { maxConcurrent?: number } = {}) {
+    let open!: () => void;
+    const gate = new Promise<void>((resolve) => {
+      open = resolve;
+    });
+    let active = 0;
+    let maxActive = 0;
+    const tool = createToolHandler({
+      name: 'gated',
+      description: 'Waits for the gate',
+      inputSchema: z.object({}),
+      maxConcurrent: options.maxConcurrent,
+      handler: async () => {
+        maxActive = Math.max(maxActive, ++active);
+        await gate;
+        active--;
+        return 'done';
+      },
+    });
+    return { tool, open, maxActive: () => maxActive };
+  }
+
+  it('caps calls across the agent', async () => {
+    const { tool, open, maxActive } = gatedTool();
+    const agent = await startAgent([tool], { maxConcurrent: 2 });
+
+    const calls = Array.from({ length: 4 }, () => agent.executeTool('gated', {}));
+    await new Promise((resolve) => setTimeout(resolve, 10));
+    expect((await agent.checkHealth()).load).toMatchObject({ active: 2, queued: 2 });
+
+    open();
+    const responses = await Promise.all(calls);
+    expect(responses.every((response) => response.success)).toBe(true);
+    expect(maxActive()).toBe(2);
+  });
+
+  it('caps calls of a tool', async () => {
+    const { tool, open, maxActive } = gatedTool({ maxConcurrent: 1 });
+    const agent = await startAgent([tool], { maxConcurrent: 5 });
+
+    const calls = Array.from({ length: 3 }, () => agent.executeTool('gated', {}));
+    await new Promise((resolve) => setTimeout(resolve, 10));
+    open();
+    await Promise.all(calls);
+
+    expect(maxActive()).toBe(1);
+  });
+
+  it('rejects calls when the queue is full', async () => {
+    const { tool, open } = gatedTool();
+    const agent = await startAgent([tool], { maxConcurrent: 1, maxQueueSize: 0 });
+
+    const first = agent.executeTool('gated', {});
+    const second = await agent.executeTool('gated', {});
+    open();
+
+    expect((await first).success).toBe(true);
+    expect(second.metadata?.code).toBe(ErrorCode.RESOURCE_EXHAUSTED);
+  });
+});
+
+describe('cancellation', () => {
+  function waitForAbort(signal: AbortSignal, ms = 1000): Promise<string> {
+    return new Promise((resolve, reject) => {
+      const timer = setTimeout(() => resolve('finished'), ms);
+      signal.addEventListener('abort', () => {
+        clearTimeout(timer);
+        reject(signal.reason);
+      }, { once: true });
+    });
+  }
+
+  const slowTool = createToolHandler({
+    name: 'slow',
+    description: 'Waits unless cancelled',
+    inputSchema: z.object({ ms: z.number().default(1000) }),
+    handler: (input, context) => waitForAbort(context.signal, input.ms),
+  });
+
+  const tick = () => new Promise((resolve) => setTimeout(resolve, 10));
+
+  it('cancels a call by request id', async () => {
+    const agent = await startAgent([slowTool]);
+
+    const call = agent.executeTool('slow', {}, 'request-1');
+    await tick();
+
+    expect(agent.cancel('request-1', 'no longer needed')).toBe(true);
+    const response = await call;
+    expect(response.metadata?.code).toBe(ErrorCode.CANCELLED);
+    expect(response.error).toContain('no longer needed');
+    expect(agent.cancel('request-1')).toBe(false);
+  });
+
+  it('cancels a call through its signal', async () => {
+    const agent = await startAgent([slowTool]);
+    const controller = new AbortController();
+
+    const call = agent.executeTool('slow', {}, undefined, { signal: controller.signal });
+    await tick();
+    controller.abort();
+
+    expect((await call).metadata?.code).toBe(ErrorCode.CANCELLED);
+  });
+
+  it('keeps calls that reuse a request id independent', async () => {
+    const agent = await startAgent([slowTool]);
+    const controller = new AbortController();
+
+    const first = agent.executeTool('slow', { ms: 1000 }, 'shared', { signal: controller.signal });
+    await tick();
+    const second = agent.executeTool('slow', { ms: 50 }, 'shared');
+    await tick();
+    controller.abort();
+
+    expect((await first).metadata?.code).toBe(ErrorCode.CANCELLED);
+    expect(await second).toMatchObject({ success: true, results: 'finished' });
+  });
+
+  it('drains calls that reuse a request id', async () => {
+    const agent = await startAgent([slowTool]);
+
+    const first = agent.executeTool('slow', { ms: 20 }, 'shared');
+    let secondDone = false;
+    const second = agent.executeTool('slow', { ms: 100 }, 'shared').finally(() => {
+      secondDone = true;
+    });
+    await tick();
+    await agent.stop({ timeout: 1000 });
+
+    expect(secondDone).toBe(true);
+    expect((await first).success).toBe(true);
+    expect((await second).success).toBe(true);
+  });
+
+  it('cancels nested calls with their parent', async () => {
+    let nested: Promise<unknown> | undefined;
+    const outer = createToolHandler({
+      name: 'outer',
+      description: 'Calls slow',
+      inputSchema: z.object({}),
+      handler: async (_input, context) => {
+        nested = agent.executeTool('slow', {}, context.requestId);
+        return nested;
+      },
+    });
+    const agent = await startAgent([slowTool, outer]);
+
+    const call = agent.executeTool('outer', {}, undefined, { signal: AbortSignal.timeout(20) });
+
+    expect((await call).metadata?.code).toBe(ErrorCode.CANCELLED);
+    expect(await nested).toMatchObject({ metadata: { code: ErrorCode.CANCELLED } });
+  });
+
+  it('only lets nested calls inherit the principal', async () => {
+    const principals: Array<string | undefined> = [];
+    const whoami = createToolHandler({
+      name: 'whoami',
+      description: 'Records the principal',
+      inputSchema: z.object({}),
+      handler: async (_input, context) => {
+        principals.push(context.principal?.id);
+        return context.principal?.id ?? null;
+      },
+    });
+    const outer = createToolHandler({
+      name: 'outer',
+      description: 'Calls whoami',
+      inputSchema: z.object({}),
+      handler: async (_input, context) => {
+        await waitForAbort(context.signal, 30);
+        return agent.executeTool('whoami', {}, context.requestId);
+      },
+    });
+    const agent = await startAgent([whoami, outer]);
+
+    const call = agent.executeTool('outer', {}, 'shared', { principal: { id: 'alice', roles: [] } });
+    await tick();
+    await agent.executeTool('whoami', {}, 'shared');
+    await call;
+
+    expect(principals).toEqual([undefined, 'alice']);
+  });
+});
+
+describe('middleware', () => {
+  function recordingTool() {
+    const inputs: string[] = [];
+    const tool = createToolHandler({
+      name: 'echo',
+      description: 'Returns its input',
+      inputSchema: z.object({ text: z.string() }),
+      cache: {},
+      handler: async ({ text }) => {
+        inputs.push(text);
+        return text;
+      },
+    });
+    return { tool, inputs };
+  }
+
+  it('runs middleware in registration order around the handler', async () => {
+    const order: string[] = [];
+    const { tool } = recordingTool();
+    const agent = await startAgent([tool]);
+    const trace = (name: string): ToolMiddleware => async (_call, next) => {
+      order.push(`${name} before`);
+      const result = await next();
+      order.push(`${name} after`);
+      return result;
+    };
+    agent.use(trace('first')).use(trace('second'));
+
+    await agent.executeTool('echo', { text: 'a' });
+
+    expect(order).toEqual(['first before', 'second before', 'second after', 'first after']);
+  });
+
+  it('lets middleware change the input and the result', async () => {
+    const { tool, inputs } = recordingTool();
+    const agent = await startAgent([tool]);
+    agent.use(async (call, next) => {
+      call.input = { text: (call.input as { text: string }).text.toUpperCase() };
+      const result = await next();
+      return { ...result, data: `${String(result.data)}!` };
+    });
+
+    const response = await agent.executeTool('echo', { text: 'a' });
+
+    expect(inputs).toEqual(['A']);
+    expect(response.results).toBe('A!');
+  });
+
+  it('short-circuits when middleware returns without calling next()', async () => {
+    const { tool, inputs } = recordingTool();
+    const agent = await startAgent([tool]);
+    const later = vi.fn<Parameters<ToolMiddleware>, ReturnType<ToolMiddleware>>((_call, next) => next());
+    agent
+      .use(async () => ({ success: false, error: 'blocked', metadata: { code: ErrorCode.ACCESS_DENIED } }))
+      .use(later);
+
+    const response = await agent.executeTool('echo', { text: 'a' });
+
+    expect(response).toMatchObject({ success: false, error: 'blocked' });
+    expect(later).not.toHaveBeenCalled();
+    expect(inputs).toEqual([]);
+  });
+
+  it('fails the call with the code of an error thrown by middleware', async () => {
+    const { tool, inputs } = recordingTool();
+    const agent = await startAgent([tool]);
+    agent.use(async () => {
+      throw new SubAgentError('quota exceeded', ErrorCode.RATE_LIMITED);
+    });
+
+    const response = await agent.executeTool('echo', { text: 'a' });
+
+    expect(response).toMatchObject({
+      success: false,
+      error: 'quota exceeded',
+      metadata: { code: ErrorCode.RATE_LIMITED },
+    });
+    expect(inputs).toEqual([]);
+  });
+
+  it('rejects middleware that calls next() twice', async () => {
+    const { tool } = recordingTool();
+    const agent = await startAgent([tool]);
+    agent.use(async (_call, next) => {
+      await next();
+      return next();
+    });
+
+    const response = await agent.executeTool('echo', { text: 'a' });
+
+    expect(response.metadata?.code).toBe(ErrorCode.PROCESSING_FAILED);
+    expect(response.error).toContain('called next() more than once');
+  });
+
+  it('looks up the cache after all middleware', async () => {
+    const { tool, inputs } = recordingTool();
+    const agent = await startAgent([tool]);
+    let calls = 0;
+    agent.use(async (call, next) => {
+      calls++;
+      call.input = { text: (call.input as { text: string }).text.toLowerCase() };
+      return next();
+    });
+
+    await agent.executeTool('echo', { text: 'A' });
+    const response = await agent.executeTool('echo', { text: 'a' });
+
+    // Middleware runs for the cache hit, which is keyed by the changed input
+    expect(calls).toBe(2);
+    expect(response.metadata?.cache).toBe('hit');
+    expect(inputs).toEqual(['a']);
+  });
+});
+
+describe('caching', () => {
+  function countingTool(ms = 0) {
+    let calls = 0;
+    const tool = createToolHandler({
+      name: 'lookup',
+      description: 'Counts its calls',
+      inputSchema: z.object({ query: z.string() }),
+      cache: {},
+      handler: async (input, context) => {
+        const call = ++calls;
+        await new Promise<void>((resolve, reject) => {
+          const timer = setTimeout(resolve, ms);
+          context.signal.addEventListener('abort', () => {
+            clearTimeout(timer);
+            reject(context.signal.reason);
+          }, { once: true });
+        });
+        return { query: input.query, principal: context.principal?.id ?? null, call };
+      },
+    });
+    return { tool, calls: () => calls };
+  }
+
+  it('serves repeated calls from the cache', async () => {
+    const { tool, calls } = countingTool();
+    const agent = await startAgent([tool]);
+
+    await agent.executeTool('lookup', { query: 'a' });
+    const response = await agent.executeTool('lookup', { query: 'a' });
+
+    expect(response.metadata?.cache).toBe('hit');
+    expect(calls()).toBe(1);
+  });
+
+  it('keeps the results of principals apart', async () => {
+    const { tool, calls } = countingTool();
+    const agent = await startAgent([tool]);
+
+    await agent.executeTool('lookup', { query: 'a' }, undefined, { principal: { id: 'alice', roles: [] } });
+    const response = await agent.executeTool('lookup', { query: 'a' }, undefined, {
+      principal: { id: 'bob', roles: [] },
+    });
+
+    expect(response.metadata?.cache).toBe('miss');
+    expect(response.results).toMatchObject({ principal: 'bob' });
+    expect(calls()).toBe(2);
+  });
+
+  it('completes coalesced calls when the first caller cancels', async () => {
+    const { tool, calls } = countingTool(50);
+    const agent = await startAgent([tool], { retryAttempts: 0 });
+    const controller = new AbortController();
+
+    const first = agent.executeTool('lookup', { query: 'a' }, undefined, { signal: controller.signal });
+    const second = agent.executeTool('lookup', { query: 'a' });
+    await new Promise((resolve) => setTimeout(resolve, 10));
+    controller.abort();
+
+    expect((await first).metadata?.code).toBe(ErrorCode.CANCELLED);
+    expect(await second).toMatchObject({ success: true, results: { call: 2 } });
+    expect(calls()).toBe(2);
+  });
+});
+
+describe('lifecycle', () => {
+  class CleanupAgent extends TestAgent {
+    cleanedUp = false;
+
+    override async shutdown(): Promise<void> {
+      this.cleanedUp = true;
+    }
+  }
+
+  const stuckTool = createToolHandler({
+    name: 'stuck',
+    description: 'Runs until cancelled',
+    inputSchema: z.object({}),
+    handler: (_input, context) => new Promise((_, reject) => {
+      context.signal.addEventListener('abort', () => reject(context.signal.reason), { once: true });
+    }),
+  });
+
+  it('cancels calls left after the drain timeout without super.shutdown()', async () => {
+    const agent = new CleanupAgent([stuckTool], { retryAttempts: 0 });
+    await agent.start();
+    let flushed = false;
+    agent.getTracer().addExporter({
+      export: () => {},
+      shutdown: async () => {
+        flushed = true;
+      },
+    });
+
+    const call = agent.executeTool('stuck', {});
+    await new Promise((resolve) => setTimeout(resolve, 10));
+    await agent.stop({ timeout: 10 });
+
+    expect((await call).metadata?.code).toBe(ErrorCode.CANCELLED);
+    expect(agent.cleanedUp).toBe(true);
+    expect(flushed).toBe(true);
+  });
+
+  it('rejects calls that were resolving their principal when stop() began', async () => {
+    const agent = new CleanupAgent([stuckTool]);
+    await agent.start();
+
+    const call = agent.executeTool('stuck', {});
+    await agent.stop({ timeout: 10 });
+
+    expect((await call).metadata?.code).toBe(ErrorCode.SHUTTING_DOWN);
+  });
+});
+
+describe('health', () => {
+  class HealthAgent extends TestAgent {
+    constructor(checks: HealthCheckDefinition[], tools: ToolDefinition[] = []) {
+      super(tools);
+      checks.forEach((check) => this.registerHealthCheck(check));
+    }
+  }
+
+  async function startHealthAgent(checks: HealthCheckDefinition[], tools?: ToolDefinition[]) {
+    const agent = new HealthAgent(checks, tools);
+    agents.push(agent);
+    await agent.start();
+    return agent;
+  }
+
+  const failing = async () => {
+    throw new Error('connection refused');
+  };
+
+  it('is healthy when every check passes', async () => {
+    const agent = await startHealthAgent([{ name: 'db', check: async () => {} }]);
+
+    expect(await agent.checkHealth()).toMatchObject({
+      healthy: true,
+      status: 'healthy',
+      live: true,
+      ready: true,
+      checks: [{ name: 'db', kind: 'readiness', critical: true, healthy: true }],
+    });
+  });
+
+  it('is degraded but ready when a non-critical check fails', async () => {
+    const agent = await startHealthAgent([
+      { name: 'db', check: async () => {} },
+      { name: 'cache', check: failing, critical: false },
+    ]);
+
+    expect(await agent.checkHealth()).toMatchObject({
+      healthy: true,
+      status: 'degraded',
+      live: true,
+      ready: true,
+      errors: ['cache: connection refused'],
+    });
+  });
+
+  it('is unhealthy and not ready when a critical readiness check fails', async () => {
+    const agent = await startHealthAgent([
+      { name: 'db', check: failing },
+      { name: 'cache', check: failing, critical: false },
+    ]);
+
+    expect(await agent.checkHealth()).toMatchObject({
+      healthy: false,
+      status: 'unhealthy',
+      live: true,
+      ready: false,
+      errors: ['db: connection refused', 'cache: connection refused'],
+    });
+  });
+
+  it('is not live when a critical liveness check fails', async () => {
+    const agent = await startHealthAgent([{ name: 'loop', kind: 'liveness', check: failing }]);
+
+    expect(await agent.checkHealth()).toMatchObject({ status: 'unhealthy', live: false, ready: false });
+  });
+
+  it('fails checks that time out and aborts them', async () => {
+    let signal: AbortSignal | undefined;
+    const agent = await startHealthAgent([{
+      name: 'db',
+      timeout: 10,
+      check: (checkSignal) => {
+        signal = checkSignal;
+        return new Promise(() => {});
+      },
+    }]);
+
+    const health = await agent.checkHealth();
+
+    expect(health).toMatchObject({ status: 'unhealthy', ready: false });
+    expect(health.checks?.[0]).toMatchObject({ name: 'db', healthy: false, lastSuccess: undefined });
+    expect(health.checks?.[0]?.error).toContain('timed out');
+    expect(signal?.aborted).toBe(true);
+  });
+
+  it('reports the last passing run of a failing check', async () => {
+    let healthy = true;
+    const agent = await startHealthAgent([{
+      name: 'db',
+      check: async () => {
+        if (!healthy) throw new Error('down');
+      },
+    }]);
+
+    const passed = (await agent.checkHealth()).checks?.[0]?.lastSuccess;
+    healthy = false;
+    const failed = (await agent.checkHealth()).checks?.[0];
+
+    expect(passed).toBeDefined();
+    expect(failed).toMatchObject({ healthy: false, lastSuccess: passed });
+  });
+
+  it('is live but not ready while draining', async () => {
+    let finish: () => void = () => {};
+    const blocking = createToolHandler({
+      name: 'block',
+      description: 'Runs until released',
+      inputSchema: z.object({}),
+      handler: () => new Promise<string>((resolve) => {
+        finish = () => resolve('done');
+      }),
+    });
+    const agent = await startHealthAgent([], [blocking]);
+    const call = agent.executeTool('block', {});
+    await new Promise((resolve) => setTimeout(resolve, 10));
+
+    const stopped = agent.stop();
+    const draining = await agent.checkHealth();
+    finish();
+    await Promise.all([call, stopped]);
+
+    expect(draining).toMatchObject({
+      healthy: false,
+      status: 'unhealthy',
+      live: true,
+      ready: false,
+      state: 'draining',
+      errors: ['Agent is draining'],
+    });
+    expect(await agent.checkHealth()).toMatchObject({ live: false, ready: false, state: 'stopped' });
+  });
+});
+
+describe('request routing', () => {
+  class RoutingAgent extends BaseSubAgent {
+    constructor(capabilities: SubAgentCapability[], tools: ToolDefinition[]) {
+      super(
+        { name: 'routing-agent', version: '1.0.0', description: 'Routing agent', capabilities },
+        { logLevel: 'silent', retryDelay: 1, retryAttempts: 0 }
+      );
+      tools.forEach((tool) => this.registerTool(tool));
+    }
+  }
+
+  function echo(name: string, routing: Pick<ToolDefinition, 'capability' | 'requestTypes' | 'mapRequest'>) {
+    return createToolHandler({
+      name,
+      description: `Returns its input as ${name}`,
+      inputSchema: z.object({ content: z.string() }).passthrough(),
+      handler: async (input) => ({ tool: name, input }),
+      ...routing,
+    });
+  }
+
+  async function startRoutingAgent(capabilities: SubAgentCapability[], tools: ToolDefinition[]) {
+    const agent = new RoutingAgent(capabilities, tools);
+    agents.push(agent);
+    await agent.start();
+    return agent;
+  }
+
+  const request = (type: string, options?: Record<string, unknown>): ProcessRequest => ({
+    type,
+    content: 'code',
+    options,
+  });
+
+  it('routes requests to the tool declaring their type, then to the tool of that capability', async () => {
+    const agent = await startRoutingAgent(['analyze'], [
+      echo('analyzer', { capability: 'analyze' }),
+      echo('linter', { capability: 'analyze', requestTypes: ['lint'] }),
+    ]);
+
+    expect((await agent.process(request('analyze', { depth: 2 }))).results).toEqual({
+      tool: 'analyzer',
+      input: { content: 'code', depth: 2 },
+    });
+    expect((await agent.process(request('lint'))).results).toMatchObject({ tool: 'linter' });
+  });
+
+  it('prefers declared request types over capabilities', async () => {
+    const agent = await startRoutingAgent(['analyze'], [
+      echo('analyzer', { capability: 'analyze' }),
+      echo('deep', { requestTypes: ['analyze'] }),
+    ]);
+
+    expect((await agent.process(request('analyze'))).results).toMatchObject({ tool: 'deep' });
+  });
+
+  it('routes to the first registered tool when several share a capability', async () => {
+    const agent = await startRoutingAgent(['analyze'], [
+      echo('first', { capability: 'analyze' }),
+      echo('second', { capability: 'analyze' }),
+    ]);
+
+    expect((await agent.process(request('analyze'))).results).toMatchObject({ tool: 'first' });
+  });
+
+  it('builds the tool input with mapRequest', async () => {
+    const agent = await startRoutingAgent([], [
+      echo('mapped', { requestTypes: ['map'], mapRequest: (req) => ({ content: req.content.toUpperCase() }) }),
+    ]);
+
+    expect((await agent.process(request('map', { ignored: true }))).results).toEqual({
+      tool: 'mapped',
+      input: { content: 'CODE' },
+    });
+  });
+
+  it('fails requests of unknown types as unsupported', async () => {
+    const agent = await startRoutingAgent([], [echo('analyzer', { capability: 'analyze' })]);
+
+    const response = await agent.process(request('translate'));
+
+    expect(response).toMatchObject({
+      success: false,
+      error: `No tool handles request type 'translate'`,
+      metadata: { code: ErrorCode.UNSUPPORTED_REQUEST },
+    });
+  });
+
+  it('passes on the error code of a failing tool', async () => {
+    const agent = await startRoutingAgent([], [createToolHandler({
+      name: 'strict',
+      description: 'Needs a number',
+      inputSchema: z.object({ count: z.number() }),
+      requestTypes: ['count'],
+      handler: async ({ count }) => count,
+    })]);
+
+    const response = await agent.process(request('count'));
+
+    expect(response).toMatchObject({ success: false, metadata: { code: ErrorCode.INVALID_INPUT } });
+  });
+
+  it('refuses to start when a capability has no tool', async () => {
+    const agent = new RoutingAgent(['analyze', 'generate'], [echo('analyzer', { capability: 'analyze' })]);
+
+    await expect(agent.start()).rejects.toMatchObject({
+      code: ErrorCode.INVALID_CONFIG,
+      details: { problems: [`capability 'generate' has no tool`] },
+    });
+    expect(agent.getState()).toBe('stopped');
+  });
+
+  it('refuses to start when two tools declare the same request type', async () => {
+    const agent = new RoutingAgent([], [
+      echo('a', { requestTypes: ['review', 'lint'] }),
+      echo('b', { requestTypes: ['lint'] }),
+    ]);
+
+    await expect(agent.start()).rejects.toMatchObject({
+      code: ErrorCode.INVALID_CONFIG,
+      details: { problems: [`request type 'lint' is declared by 'a' and 'b'`] },
+    });
+  });
+
+  it('skips routing checks for agents that handle requests themselves', async () => {
+    class CustomAgent extends RoutingAgent {
+      protected override async handleRequest(req: ProcessRequest): Promise<unknown> {
+        return `handled ${req.type}`;
+      }
+    }
+    const agent = new CustomAgent(['generate'], []);
+    agents.push(agent);
+    await agent.start();
+
+    expect((await agent.process(request('generate'))).results).toBe('handled generate');
+  });
+});
+
+describe('authentication', () => {
+  const whoami = createToolHandler({
+    name: 'whoami',
+    description: 'Names the caller',
+    inputSchema: z.object({}),
+    handler: async (_input, context) => context.principal?.id ?? 'anonymous',
+  });
+  const deploy = createToolHandler({
+    name: 'deploy',
+    description: 'Deploys',
+    inputSchema: z.object({}),
+    mutating: true,
+    access: { roles: ['deployer'] },
+    handler: async () => 'deployed',
+  });
+
+  async function startSecuredAgent(required?: boolean): Promise<TestAgent> {
+    const agent = await startAgent([whoami, deploy]);
+    agent.setAuth({
+      authenticator: new ApiKeyAuthenticator({
+        'deploy-key': { id: 'ci', roles: ['deployer'] },
+        'read-key': { id: 'auditor', roles: ['deployer'], readOnly: true },
+      }),
+      required,
+    });
+    return agent;
+  }
+
+  it('authenticates calls from their credentials', async () => {
+    const agent = await startSecuredAgent();
+
+    expect(await agent.executeTool('whoami', {}, undefined, { credentials: 'deploy-key' }))
+      .toMatchObject({ success: true, results: 'ci' });
+    expect((await agent.executeTool('whoami', {})).metadata?.code).toBe(ErrorCode.ACCESS_DENIED);
+    expect((await agent.executeTool('whoami', {}, undefined, { credentials: 'bad' })).metadata?.code)
+      .toBe(ErrorCode.ACCESS_DENIED);
+  });
+
+  it('lets anonymous callers through when authentication is optional', async () => {
+    const agent = await startSecuredAgent(false);
+
+    expect(await agent.executeTool('whoami', {})).toMatchObject({ success: true, results: 'anonymous' });
+    expect((await agent.executeTool('deploy', {})).metadata?.code).toBe(ErrorCode.ACCESS_DENIED);
+  });
+
+  it('enforces access policies and read-only principals', async () => {
+    const agent = await startSecuredAgent();
+
+    expect(await agent.executeTool('deploy', {}, undefined, { credentials: 'deploy-key' }))
+      .toMatchObject({ success: true });
+    const denied = await agent.executeTool('deploy', {}, undefined, { credentials: 'read-key' });
+    expect(denied.metadata?.code).toBe(ErrorCode.ACCESS_DENIED);
+    expect(denied.error).toContain('read-only');
+  });
+
+  it('runs nested calls on behalf of the outer caller', async () => {
+    const agent = await startAgent([
+      deploy,
+      createToolHandler({
+        name: 'release',
+        description: 'Deploys through another tool',
+        inputSchema: z.object({}),
+        handler: async (_input, context) => (await agent.executeTool('deploy', {}, context.requestId)).success,
+      }),
+    ]);
+    agent.setAuth({ authenticator: new ApiKeyAuthenticator({ 'deploy-key': { id: 'ci', roles: ['deployer'] } }) });
+
+    expect(await agent.executeTool('release', {}, undefined, { credentials: 'deploy-key' }))
+      .toMatchObject({ success: true, results: true });
+  });
+});
+
+describe('rate limiting', () => {
+  const ping = createToolHandler({
+    name: 'ping',
+    description: 'Pings',
+    inputSchema: z.object({}),
+    rateLimit: { rate: 3, interval: 60_000 },
+    handler: async () => 'pong',
+  });
+
+  it('limits each caller separately', async () => {
+    const agent = await startAgent([ping], { rateLimit: { rate: 1, interval: 60_000 } });
+
+    expect((await agent.executeTool('ping', {}, undefined, { caller: 'a' })).success).toBe(true);
+    expect((await agent.executeTool('ping', {}, undefined, { caller: 'b' })).success).toBe(true);
+    const limited = await agent.executeTool('ping', {}, undefined, { caller: 'a' });
+    expect(limited.metadata?.code).toBe(ErrorCode.RATE_LIMITED);
+    expect(limited.metadata?.retryAfterMs).toBeGreaterThan(0);
+  });
+
+  it('does not count calls rejected by the agent limit against the tool limit', async () => {
+    const agent = await startAgent([ping], { rateLimit: { rate: 1, interval: 1000 } });
+    const clock = installFakeClock();
+    try {
+      expect((await agent.executeTool('ping', {})).success).toBe(true);
+      for (let call = 0; call < 3; call++) {
+        expect((await agent.executeTool('ping', {})).metadata?.details).toMatchObject({ scope: 'agent' });
+      }
+      await clock.tick(1000);
+
+      expect((await agent.executeTool('ping', {})).success).toBe(true);
+    } finally {
+      clock.uninstall();
+    }
+  });
+});
+
+describe('streaming', () => {
+  function streamingTool(failAfter?: number) {
+    let calls = 0;
+    const tool = createToolHandler({
+      name: 'words',
+      description: 'Streams words',
+      inputSchema: z.object({}),
+      policy: { retryAttempts: 2 },
+      handler: async function* () {
+        calls++;
+        for (const [index, word] of ['one ', 'two ', 'three'].entries()) {
+          if (index === failAfter) {
+            throw new SubAgentError('Stream broke', ErrorCode.PROCESSING_FAILED, undefined, true);
+          }
+          yield word;
+        }
+      },
+    });
+    return { tool, calls: () => calls };
+  }
+
+  it('streams chunks and resolves the aggregated result', async () => {
+    const { tool } = streamingTool();
+    const agent = await startAgent([tool]);
+
+    const stream = agent.streamTool('words', {});
+    const received: unknown[] = [];
+    for await (const chunk of stream) {
+      received.push(chunk);
+    }
+
+    expect(received).toEqual(['one ', 'two ', 'three']);
+    expect(await stream.result).toMatchObject({ success: true, results: 'one two three' });
+  });
+
+  it('does not retry once output reached the caller', async () => {
+    const { tool, calls } = streamingTool(2);
+    const agent = await startAgent([tool]);
+
+    const stream = agent.streamTool('words', {});
+    const received: unknown[] = [];
+    for await (const chunk of stream) {
+      received.push(chunk);
+    }
+
+    expect(received).toEqual(['one ', 'two ']);
+    expect((await stream.result).success).toBe(false);
+    expect(calls()).toBe(1);
+  });
+
+  it('retries failed streams that nobody consumes', async () => {
+    const { tool, calls } = streamingTool(2);
+    const agent = await startAgent([tool]);
+
+    expect((await agent.executeTool('words', {})).success).toBe(false);
+    expect(calls()).toBe(3);
+  });
+
+  it('yields nothing for tools that do not stream', async () => {
+    const agent = await startAgent([createToolHandler({
+      name: 'plain',
+      description: 'Returns at once',
+      inputSchema: z.object({}),
+      handler: async () => 'done',
+    })]);
+
+    const stream = agent.streamTool('plain', {});
+    const received: unknown[] = [];
+    for await (const chunk of stream) {
+      received.push(chunk);
+    }
+
+    expect(received).toEqual([]);
+    expect(await stream.result).toMatchObject({ success: true, results: 'done' });
+  });
+});
+
+describe('batches', () => {
+  const square = createToolHandler({
+    name: 'square',
+    description: 'Squares a number, slowly',
+    inputSchema: z.object({ value: z.number() }),
+    handler: async ({ value }) => {
+      await new Promise((resolve) => setTimeout(resolve, 5));
+      if (value < 0) {
+        throw new SubAgentError('Negative input', ErrorCode.INVALID_INPUT);
+      }
+      return value * value;
+    },
+  });
+
+  it('returns a response per call in call order', async () => {
+    const agent = await startAgent([square]);
+
+    const responses = await agent.executeBatch(
+      [3, -1, 2].map((value) => ({ tool: 'square', input: { value } })),
+      { concurrency: 2 }
+    );
+
+    expect(responses.map((response) => response.success ? response.results : response.metadata?.code))
+      .toEqual([9, ErrorCode.INVALID_INPUT, 4]);
+  });
+
+  it('skips calls not yet started once one fails with stopOnError', async () => {
+    const agent = await startAgent([square]);
+
+    const responses = await agent.executeBatch(
+      [-1, 2, 3].map((value) => ({ tool: 'square', input: { value } })),
+      { concurrency: 1, stopOnError: true }
+    );
+
+    expect(responses.map((response) => response.metadata?.code))
+      .toEqual([ErrorCode.INVALID_INPUT, ErrorCode.CANCELLED, ErrorCode.CANCELLED]);
+  });
+});
+
+describe('output schemas', () => {
+  const parse = createToolHandler({
+    name: 'parse',
+    description: 'Returns a numeric string',
+    inputSchema: z.object({ text: z.string() }),
+    outputSchema: z.object({ n: z.string().transform(Number) }),
+    handler: async ({ text }) => ({ n: text }),
+  });
+  const even = createToolHandler({
+    name: 'even',
+    description: 'Returns its input',
+    inputSchema: z.object({ n: z.number() }),
+    outputSchema: z.number().refine((n) => n % 2 === 0, 'must be even'),
+    handler: async ({ n }) => n,
+  });
+
+  it('passes on the output parsed by a transforming schema', async () => {
+    const agent = await startAgent([parse]);
+
+    expect(await agent.executeTool('parse', { text: '5' })).toMatchObject({ success: true, results: { n: 5 } });
+  });
+
+  it('checks refined output schemas', async () => {
+    const agent = await startAgent([even]);
+
+    expect(await agent.executeTool('even', { n: 4 })).toMatchObject({ success: true, results: 4 });
+    const invalid = await agent.executeTool('even', { n: 3 });
+    expect(invalid.metadata?.code).toBe(ErrorCode.VALIDATION_FAILED);
+    expect(invalid.error).toContain('must be even');
+  });
+
+  it('validates the output of BaseTool tools once', async () => {
+    const tool = createTool(
+      'parse-tool',
+      'Returns a numeric string',
+      z.object({}),
+      async () => ({ n: '7' }),
+      z.object({ n: z.string().transform(Number) })
+    );
+    const agent = await startAgent([tool.toDefinition()]);
+
+    expect(await agent.executeTool('parse-tool', {})).toMatchObject({ success: true, results: { n: 7 } });
+  });
+});
+
+describe('updateConfig', () => {
+  const slow = createToolHandler({
+    name: 'slow',
+    description: 'Takes 50ms',
+    inputSchema: z.object({}),
+    handler: () => new Promise((resolve) => setTimeout(() => resolve('done'), 50)),
+  });
+
+  it('applies reloadable fields to later calls', async () => {
+    const agent = await startAgent([slow], { retryAttempts: 0 });
+    expect((await agent.executeTool('slow', {})).success).toBe(true);
+
+    expect(agent.updateConfig({ timeout: 10, logLevel: 'fatal' })).toEqual(['logLevel', 'timeout']);
+
+    expect(agent.getConfig()).toMatchObject({ timeout: 10, logLevel: 'fatal' });
+    expect((await agent.executeTool('slow', {})).metadata?.code).toBe(ErrorCode.TIMEOUT);
+  });
+
+  it('ignores fields that need a restart and unchanged values', async () => {
+    const agent = await startAgent([], { maxConcurrent: 5, rateLimit: { rate: 5 } });
+
+    expect(agent.updateConfig({ maxConcurrent: 1, rateLimit: { rate: 5 } })).toEqual([]);
+    expect(agent.getConfig().maxConcurrent).toBe(5);
+  });
+
+  it('rejects unknown log levels without applying anything', async () => {
+    const agent = await startAgent([], { timeout: 1000 });
+
+    expect(() => agent.updateConfig({ timeout: 10, logLevel: 'loud' })).toThrow(
+      expect.objectContaining({ code: ErrorCode.INVALID_CONFIG })
+    );
+    expect(agent.getConfig()).toMatchObject({ timeout: 1000, logLevel: 'silent' });
+  });
+});
+
+describe('tracing', () => {
+  const TRACEPARENT = '00-4bf92f3577b34da6a3ce929d0e0e4736-00f067aa0ba902b7-01';
+  const inner = createToolHandler({
+    name: 'inner',
+    description: 'Returns its span',
+    inputSchema: z.object({}),
+    handler: async (_input, context) => context.span.traceparent,
+  });
+
+  async function startTracedAgent(tools: ToolDefinition[]) {
+    const agent = await startAgent(tools);
+    const exporter = new InMemorySpanExporter();
+    agent.getTracer().addExporter(exporter);
+    return { agent, exporter };
+  }
+
+  it('continues the trace of the caller', async () => {
+    const { agent, exporter } = await startTracedAgent([inner]);
+
+    await agent.executeTool('inner', {}, undefined, { traceparent: TRACEPARENT });
+
+    expect(exporter.getSpans()).toMatchObject([{
+      name: 'tool inner',
+      traceId: '4bf92f3577b34da6a3ce929d0e0e4736',
+      parentSpanId: '00f067aa0ba902b7',
+    }]);
+  });
+
+  it('runs nested calls in a child span of the calling tool', async () => {
+    const outer = createToolHandler({
+      name: 'outer',
+      description: 'Calls inner',
+      inputSchema: z.object({}),
+      handler: async () => (await agent.executeTool('inner', {})).results,
+    });
+    const { agent, exporter } = await startTracedAgent([inner, outer]);
+
+    const response = await agent.executeTool('outer', {});
+
+    const [innerSpan, outerSpan] = exporter.getSpans();
+    expect(innerSpan).toMatchObject({ name: 'tool inner', traceId: outerSpan!.traceId, parentSpanId: outerSpan!.spanId });
+    expect(outerSpan).toMatchObject({ name: 'tool outer' });
+    expect(outerSpan!.parentSpanId).toBeUndefined();
+    expect(response.results).toBe(`00-${innerSpan!.traceId}-${innerSpan!.spanId}-01`);
+  });
+});
+
+describe('unknown tools', () => {
+  it('fails with NOT_FOUND and records the failure', async () => {
+    const agent = await startAgent([]);
+    const exporter = new InMemorySpanExporter();
+    agent.getTracer().addExporter(exporter);
+
+    const response = await agent.executeTool('missing', {}, 'request-1');
+
+    expect(response).toMatchObject({
+      success: false,
+      error: `Tool 'missing' not found`,
+      metadata: { code: ErrorCode.NOT_FOUND, retryable: false, details: { tool: 'missing' } },
+    });
+    expect(agent.getMetrics().counter('xorng_tool_failures_total', '').get({ tool: 'missing', code: ErrorCode.NOT_FOUND }))
+      .toBe(1);
+    expect(exporter.getSpans()).toMatchObject([{
+      name: 'tool missing',
+      status: 'error',
+      attributes: { requestId: 'request-1', 'error.code': ErrorCode.NOT_FOUND },
+    }]);
+  });
+});
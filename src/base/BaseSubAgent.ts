@@ -2,14 +2,108 @@ import type {
   SubAgentMetadata,
   SubAgentConfig,
   ToolDefinition,
+  ToolResult,
+  ToolContext,
+  ToolMiddleware,
+  ExecuteToolOptions,
+  BatchCall,
+  BatchOptions,
+  ProgressUpdate,
+  ResourceDefinition,
+  ResourceContent,
+  ResourceInfo,
+  PromptDefinition,
+  PromptMessage,
   ProcessRequest,
   ProcessResponse,
   HealthStatus,
+  HealthState,
+  HealthCheckDefinition,
+  HealthCheckResult,
+  LifecycleState,
+  Principal,
+  InputLimits,
 } from '../types/index.js';
 import { SubAgentConfigSchema } from '../types/index.js';
-import { createLogger, type Logger } from '../utils/logger.js';
-import { validateSchema } from '../utils/validation.js';
-import { SubAgentError, ErrorCode, formatError } from '../utils/errors.js';
+import { createLogger, loggerOptionsFromConfig, type Logger } from '../utils/logger.js';
+import { validateSchema, assertInputLimits, DEFAULT_INPUT_LIMITS } from '../utils/validation.js';
+import {
+  SubAgentError,
+  ErrorCode,
+  formatError,
+  cancelledError,
+  validationError,
+  getRetryAfter,
+  isTimeout,
+} from '../utils/errors.js';
+import { executeWithPolicy, resolvePolicy, linkSignal, withTimeout, type RetryInfo } from '../utils/policy.js';
+import { ConcurrencyScheduler, mapConcurrent, type Release } from '../utils/scheduler.js';
+import { MetricsRegistry, type MetricLabels, type ToolMetrics } from '../utils/metrics.js';
+import { Tracer, type Span } from '../utils/tracing.js';
+import { composeMiddleware } from '../utils/middleware.js';
+import { ToolStream, type ToolStreamOptions } from '../utils/stream.js';
+import { RELOADABLE_CONFIG_KEYS } from '../utils/config.js';
+import { authenticate, authorize, type AuthOptions } from '../utils/auth.js';
+import { RateLimiter, checkRateLimits, ANONYMOUS_CALLER, type ScopedRateLimit } from '../utils/rateLimit.js';
+import { UriTemplate } from '@modelcontextprotocol/sdk/shared/uriTemplate.js';
+import { AsyncLocalStorage } from 'node:async_hooks';
+
+/**
+ * Built-in metrics recorded for tool calls and requests
+ */
+const CALL_METRICS = {
+  tool: {
+    calls: { name: 'xorng_tool_calls_total', help: 'Tool calls by tool and status' },
+    failures: { name: 'xorng_tool_failures_total', help: 'Failed tool calls by tool and error code' },
+    duration: { name: 'xorng_tool_duration_seconds', help: 'Tool call latency in seconds' },
+    inFlight: { name: 'xorng_tool_calls_in_flight', help: 'Tool calls currently in flight' },
+  },
+  request: {
+    calls: { name: 'xorng_requests_total', help: 'Requests by type and status' },
+    failures: { name: 'xorng_request_failures_total', help: 'Failed requests by type and error code' },
+    duration: { name: 'xorng_request_duration_seconds', help: 'Request latency in seconds' },
+    inFlight: { name: 'xorng_requests_in_flight', help: 'Requests currently in flight' },
+  },
+} as const;
+
+/**
+ * Who an in-flight call runs on behalf of
+ */
+interface CallerIdentity {
+  principal?: Principal;
+  /**
+   * Identity rate limits are keyed by
+   */
+  caller: string;
+}
+
+/**
+ * A call that is running, tracked so it can be cancelled and drained
+ */
+interface InFlightCall {
+  requestId: string;
+  controller: AbortController;
+}
+
+/**
+ * An in-flight call as seen by the calls its handler makes
+ */
+interface CallScope {
+  /**
+   * Key of the call in the in-flight calls
+   */
+  id: string;
+  requestId: string;
+  /**
+   * Aborted when the call's current attempt ends
+   */
+  signal: AbortSignal;
+  identity?: CallerIdentity;
+  /**
+   * Whether the call holds a global scheduler slot
+   */
+  scheduled: boolean;
+}
 
 /**
  * Base class for XORNG sub-agents
@@ -17,15 +111,78 @@ import { SubAgentError, ErrorCode, formatError } from '../utils/errors.js';
  * Provides common functionality for all sub-agents:
  * - Configuration management
  * - Health checking
- * - Tool registration
+ * - Tool, resource and prompt registration
+ * - Capability-based request routing
+ * - Tool middleware
+ * - Authentication and per-tool authorization
+ * - Token-bucket rate limiting
+ * - Input size and depth limits
+ * - Lifecycle states with graceful draining
  * - Request processing lifecycle
+ * - Timeout and retry policy enforcement
+ * - Concurrency limiting and queueing
+ * - Cooperative cancellation
+ * - Metrics collection
+ * - Distributed tracing
  */
 export abstract class BaseSubAgent {
   protected metadata: SubAgentMetadata;
   protected config: SubAgentConfig;
   protected logger: Logger;
   protected tools: Map<string, ToolDefinition> = new Map();
+  protected resources: Map<string, ResourceDefinition> = new Map();
+  protected prompts: Map<string, PromptDefinition> = new Map();
+  protected healthChecks: Map<string, HealthCheckDefinition> = new Map();
   protected startTime: number;
+  protected scheduler: ConcurrencyScheduler;
+  protected metrics: MetricsRegistry = new MetricsRegistry();
+  protected tracer: Tracer;
+
+  /**
+   * Time of the last passing run of each health check
+   */
+  private lastHealthy = new Map<string, number>();
+
+  /**
+   * Current lifecycle state
+   */
+  private state: LifecycleState = 'created';
+
+  /**
+   * Pending start() and stop() transitions
+   */
+  private starting?: Promise<void>;
+  private stopping?: Promise<void>;
+
+  /**
+   * Called when the last in-flight call finishes while draining
+   */
+  private onDrained?: () => void;
+
+  /**
+   * Middleware applied to every tool call, in registration order
+   */
+  private middleware: ToolMiddleware[] = [];
+
+  /**
+   * Authentication of callers, when configured with setAuth()
+   */
+  private auth?: AuthOptions;
+
+  /**
+   * Token buckets of the agent's and the tools' rate limits
+   */
+  private rateLimiter = new RateLimiter();
+
+  /**
+   * In-flight requests and calls, by a key of their own
+   */
+  private inFlight = new Map<string, InFlightCall>();
+
+  /**
+   * The call whose handler is running
+   */
+  private callScope = new AsyncLocalStorage<CallScope>();
 
   constructor(
     metadata: SubAgentMetadata,
@@ -43,8 +200,14 @@ export abstract class BaseSubAgent {
     }
     this.config = configResult.data;
 
-    this.logger = createLogger(this.config.logLevel, metadata.name);
+    this.logger = createLogger(this.config.logLevel, metadata.name, loggerOptionsFromConfig(this.config));
     this.startTime = Date.now();
+    this.tracer = new Tracer({ serviceName: metadata.name });
+    this.scheduler = new ConcurrencyScheduler({
+      maxConcurrent: this.config.maxConcurrent ?? 5,
+      maxQueueSize: this.config.maxQueueSize ?? 100,
+      queueTimeout: this.config.queueTimeout ?? 30000,
+    });
 
     this.logger.info({
       agent: metadata.name,
@@ -67,6 +230,59 @@ export abstract class BaseSubAgent {
     return this.config;
   }
 
+  /**
+   * Apply configuration changes that are safe while running
+   *
+   * Only fields in RELOADABLE_CONFIG_KEYS are applied; changes to other
+   * fields take effect after a restart. Returns the changed fields.
+   */
+  updateConfig(config: Partial<SubAgentConfig>): string[] {
+    // Compare by value; reloaded objects such as rateLimit are new instances
+    const differs = (key: keyof SubAgentConfig) => config[key] !== undefined
+      && JSON.stringify(config[key]) !== JSON.stringify(this.config[key]);
+    const changed = RELOADABLE_CONFIG_KEYS.filter(differs);
+    const ignored = (Object.keys(config) as Array<keyof SubAgentConfig>).filter(
+      (key) => !(RELOADABLE_CONFIG_KEYS as readonly string[]).includes(key) && differs(key)
+    );
+
+    if (changed.includes('logLevel') && !(config.logLevel! in this.logger.levels.values)) {
+      throw new SubAgentError(
+        `Invalid configuration: unknown log level '${config.logLevel}'`,
+        ErrorCode.INVALID_CONFIG,
+        { logLevel: config.logLevel }
+      );
+    }
+
+    for (const key of changed) {
+      Object.assign(this.config, { [key]: config[key] });
+    }
+    if (changed.includes('logLevel')) {
+      this.logger.level = this.config.logLevel!;
+    }
+
+    if (ignored.length > 0) {
+      this.logger.warn({ fields: ignored }, 'Configuration changes require a restart');
+    }
+    if (changed.length > 0) {
+      this.logger.info({ fields: changed }, 'Configuration updated');
+    }
+    return changed;
+  }
+
+  /**
+   * Replace the logger, e.g. to capture log output in tests
+   */
+  setLogger(logger: Logger): void {
+    this.logger = logger;
+  }
+
+  /**
+   * Get the lifecycle state
+   */
+  getState(): LifecycleState {
+    return this.state;
+  }
+
   /**
    * Get uptime in milliseconds
    */
@@ -74,6 +290,20 @@ export abstract class BaseSubAgent {
     return Date.now() - this.startTime;
   }
 
+  /**
+   * Get the metrics registry
+   */
+  getMetrics(): MetricsRegistry {
+    return this.metrics;
+  }
+
+  /**
+   * Get the tracer
+   */
+  getTracer(): Tracer {
+    return this.tracer;
+  }
+
   /**
    * Register a tool
    */
@@ -82,9 +312,33 @@ export abstract class BaseSubAgent {
       this.logger.warn({ tool: tool.name }, 'Overwriting existing tool');
     }
     this.tools.set(tool.name, tool);
+    this.scheduler.setLimit(tool.name, tool.maxConcurrent);
     this.logger.debug({ tool: tool.name }, 'Tool registered');
   }
 
+  /**
+   * Add middleware around tool execution
+   *
+   * Applies to in-process executeTool() calls and to MCP calls made through
+   * registerTools(server, agent).
+   */
+  use(middleware: ToolMiddleware): this {
+    this.middleware.push(middleware);
+    return this;
+  }
+
+  /**
+   * Authenticate callers of tools and requests
+   *
+   * Calls are authenticated from the `credentials` passed to executeTool()
+   * and process(), which the MCP server fills from the client's bearer token.
+   * Pass undefined to disable authentication.
+   */
+  setAuth(options: AuthOptions | undefined): this {
+    this.auth = options;
+    return this;
+  }
+
   /**
    * Get all registered tools
    */
@@ -92,49 +346,271 @@ export abstract class BaseSubAgent {
     return this.tools;
   }
 
+  /**
+   * Register a resource
+   */
+  protected registerResource(resource: ResourceDefinition): void {
+    if (this.resources.has(resource.name)) {
+      this.logger.warn({ resource: resource.name }, 'Overwriting existing resource');
+    }
+    this.resources.set(resource.name, resource);
+    this.logger.debug({ resource: resource.name, uri: resource.uri }, 'Resource registered');
+  }
+
+  /**
+   * Get all registered resources
+   */
+  getResources(): Map<string, ResourceDefinition> {
+    return this.resources;
+  }
+
+  /**
+   * Register a prompt
+   */
+  protected registerPrompt(prompt: PromptDefinition): void {
+    if (this.prompts.has(prompt.name)) {
+      this.logger.warn({ prompt: prompt.name }, 'Overwriting existing prompt');
+    }
+    this.prompts.set(prompt.name, prompt);
+    this.logger.debug({ prompt: prompt.name }, 'Prompt registered');
+  }
+
+  /**
+   * Get all registered prompts
+   */
+  getPrompts(): Map<string, PromptDefinition> {
+    return this.prompts;
+  }
+
+  /**
+   * Register a named health check
+   */
+  protected registerHealthCheck(check: HealthCheckDefinition): void {
+    if (this.healthChecks.has(check.name)) {
+      this.logger.warn({ check: check.name }, 'Overwriting existing health check');
+    }
+    this.healthChecks.set(check.name, check);
+    this.logger.debug({ check: check.name }, 'Health check registered');
+  }
+
   /**
    * Check health status
+   *
+   * Runs the registered health checks and runHealthChecks() concurrently.
+   * The agent is unhealthy when it is not ready or a critical check fails,
+   * and degraded when only non-critical checks fail.
    */
   async checkHealth(): Promise<HealthStatus> {
     const errors: string[] = [];
+    if (this.state !== 'ready') {
+      errors.push(`Agent is ${this.state}`);
+    }
 
     // Run health checks
-    try {
-      await this.runHealthChecks();
-    } catch (error) {
-      errors.push(formatError(error).message);
+    const [legacyError, checks] = await Promise.all([
+      this.runHealthChecks().then(() => undefined, (error: unknown) => formatError(error).message),
+      Promise.all(Array.from(this.healthChecks.values(), (check) => this.runHealthCheck(check))),
+    ]);
+    if (legacyError !== undefined) {
+      errors.push(legacyError);
+    }
+    for (const result of checks) {
+      if (!result.healthy) {
+        errors.push(`${result.name}: ${result.error}`);
+      }
     }
 
+    const failing = checks.filter((result) => !result.healthy);
+    const live = this.state !== 'stopped'
+      && !failing.some((result) => result.critical && result.kind === 'liveness');
+    const ready = this.state === 'ready'
+      && legacyError === undefined
+      && !failing.some((result) => result.critical);
+    const status: HealthState = !live || !ready
+      ? 'unhealthy'
+      : failing.length > 0 ? 'degraded' : 'healthy';
+
     return {
-      healthy: errors.length === 0,
+      healthy: status !== 'unhealthy',
+      status,
+      live,
+      ready,
       version: this.metadata.version,
       uptime: this.getUptime(),
+      state: this.state,
       capabilities: this.metadata.capabilities,
+      checks: checks.length > 0 ? checks : undefined,
       errors: errors.length > 0 ? errors : undefined,
+      load: this.scheduler.getStats(),
     };
   }
 
   /**
    * Process a request with timing and error handling
+   *
+   * A `traceparent` in the request context continues the caller's trace.
+   * Tools called while handling the request run on behalf of its principal.
+   */
+  async process(
+    request: ProcessRequest,
+    options: Pick<ExecuteToolOptions, 'principal' | 'credentials' | 'caller'> = {}
+  ): Promise<ProcessResponse> {
+    const traceparent = request.context?.['traceparent'];
+    return this.instrument(
+      'request',
+      { type: request.type },
+      { name: `process ${request.type}`, parent: typeof traceparent === 'string' ? traceparent : undefined },
+      (span) => this.runRequest(request, options, span)
+    );
+  }
+
+  /**
+   * Execute a specific tool
+   */
+  async executeTool(
+    toolName: string,
+    input: unknown,
+    requestId: string = crypto.randomUUID(),
+    options: ExecuteToolOptions = {}
+  ): Promise<ProcessResponse> {
+    const tool = this.tools.get(toolName);
+
+    return this.instrument(
+      'tool',
+      { tool: toolName },
+      { name: `tool ${toolName}`, parent: options.traceparent },
+      (span) => {
+        if (!tool) {
+          span.setAttribute('requestId', requestId);
+          return Promise.resolve(this.rejectionResponse(
+            new SubAgentError(`Tool '${toolName}' not found`, ErrorCode.NOT_FOUND, { tool: toolName }),
+            Date.now()
+          ));
+        }
+        return this.runTool(tool, input, requestId, options, span);
+      }
+    );
+  }
+
+  /**
+   * Execute a tool, receiving its streamed output as it is produced
+   *
+   * The stream yields the chunks of a tool that returns an async iterable,
+   * and its `result` resolves to the same response as executeTool(). Tools
+   * that do not stream, cache hits and short-circuiting middleware yield no
+   * chunks.
    */
-  async process(request: ProcessRequest): Promise<ProcessResponse> {
+  streamTool(
+    toolName: string,
+    input: unknown,
+    requestId: string = crypto.randomUUID(),
+    options: ExecuteToolOptions & Pick<ToolStreamOptions, 'highWaterMark'> = {}
+  ): ToolStream {
+    return new ToolStream(
+      ({ signal, push }) => this.executeTool(toolName, input, requestId, {
+        ...options,
+        signal,
+        onChunk: async (chunk) => {
+          await options.onChunk?.(chunk);
+          await push(chunk);
+        },
+      }),
+      { signal: options.signal, highWaterMark: options.highWaterMark }
+    );
+  }
+
+  /**
+   * Execute many tool calls with bounded parallelism
+   *
+   * Returns a response per call, in the order of the calls. A failed call
+   * does not affect the others unless `stopOnError` is set, in which case
+   * the calls not yet started fail with a CANCELLED error.
+   */
+  async executeBatch(calls: BatchCall[], options: BatchOptions = {}): Promise<ProcessResponse[]> {
+    const { concurrency, stopOnError, ...callOptions } = options;
+    let failed = false;
+    return mapConcurrent(calls, concurrency ?? this.config.maxConcurrent ?? 5, async (call) => {
+      if (failed) {
+        return this.rejectionResponse(
+          cancelledError(`tool:${call.tool}`, 'an earlier call in the batch failed'),
+          Date.now()
+        );
+      }
+      const response = await this.executeTool(call.tool, call.input, call.requestId, callOptions);
+      if (!response.success && stopOnError) {
+        failed = true;
+      }
+      return response;
+    });
+  }
+
+  /**
+   * Process a request under the configured policy
+   */
+  private async runRequest(
+    request: ProcessRequest,
+    options: Pick<ExecuteToolOptions, 'principal' | 'credentials' | 'caller'>,
+    span: Span
+  ): Promise<ProcessResponse> {
     const startTime = Date.now();
     const requestId = crypto.randomUUID();
+    span.setAttribute('requestId', requestId);
 
     this.logger.info({ requestId, type: request.type }, 'Processing request');
 
+    const rejection = this.lifecycleError();
+    if (rejection) {
+      return this.failureResponse(requestId, rejection, startTime);
+    }
+
+    let principal: Principal | undefined;
     try {
-      // Validate request
+      principal = await this.resolvePrincipal(undefined, options);
+    } catch (error) {
+      this.logDenial(requestId, { type: request.type }, error);
+      return this.failureResponse(requestId, error, startTime);
+    }
+
+    // stop() may have begun while the principal was resolved, and would not
+    // wait for a call tracked after it
+    const stopping = this.lifecycleError();
+    if (stopping) {
+      return this.failureResponse(requestId, stopping, startTime);
+    }
+
+    const { id, signal, done } = this.trackRequest(requestId);
+    const identity: CallerIdentity = { principal, caller: principal?.id ?? options.caller ?? ANONYMOUS_CALLER };
+    let release: Release | undefined;
+    try {
+      // Check size and shape limits, then validate the request
+      assertInputLimits(request, this.inputLimits());
       await this.validateRequest(request);
 
-      // Process the request
-      const results = await this.handleRequest(request, requestId);
+      // Wait for a free slot
+      release = await this.acquireSlot(undefined, undefined, signal);
+
+      // Process the request under the configured policy; tools called while
+      // handling it are nested in the current attempt
+      const outcome = await executeWithPolicy(
+        `request:${request.type}`,
+        resolvePolicy(this.config),
+        (_attempt, attemptSignal) => this.callScope.run(
+          { id, requestId, signal: attemptSignal, identity, scheduled: true },
+          () => this.handleRequest(request, requestId, attemptSignal)
+        ),
+        { signal, onRetry: (info) => this.logRetry(requestId, info) }
+      );
+
+      if (!outcome.success) {
+        return this.failureResponse(requestId, outcome.error, startTime, outcome.attempts);
+      }
 
       const response: ProcessResponse = {
         success: true,
-        results,
+        results: outcome.value,
         metadata: {
           processingTimeMs: Date.now() - startTime,
+          attempts: outcome.attempts,
         },
       };
 
@@ -145,86 +621,450 @@ export abstract class BaseSubAgent {
 
       return response;
     } catch (error) {
-      const formattedError = formatError(error);
-
-      this.logger.error({
-        requestId,
-        error: formattedError,
-      }, 'Request failed');
-
-      return {
-        success: false,
-        results: null,
-        metadata: {
-          processingTimeMs: Date.now() - startTime,
-        },
-        error: formattedError.message,
-      };
+      return this.failureResponse(requestId, error, startTime);
+    } finally {
+      release?.();
+      done();
     }
   }
 
   /**
-   * Execute a specific tool
+   * Execute a tool under its policy
    */
-  async executeTool(
-    toolName: string,
+  private async runTool(
+    tool: ToolDefinition,
     input: unknown,
-    requestId: string = crypto.randomUUID()
+    requestId: string,
+    options: ExecuteToolOptions,
+    span: Span
   ): Promise<ProcessResponse> {
     const startTime = Date.now();
-    const tool = this.tools.get(toolName);
+    const toolName = tool.name;
+    span.setAttribute('requestId', requestId);
 
-    if (!tool) {
-      return {
-        success: false,
-        results: null,
-        error: `Tool '${toolName}' not found`,
-      };
+    const parent = this.parentCall(requestId);
+    const rejection = this.lifecycleError(parent !== undefined);
+    if (rejection) {
+      return this.rejectionResponse(rejection, startTime);
+    }
+
+    let principal: Principal | undefined;
+    try {
+      principal = await this.resolvePrincipal(parent?.identity?.principal, options);
+      authorize(tool, principal);
+    } catch (error) {
+      this.logDenial(requestId, { tool: toolName, principal: principal?.id }, error);
+      return this.rejectionResponse(error, startTime);
+    }
+
+    const caller = principal?.id ?? options.caller ?? parent?.identity?.caller ?? ANONYMOUS_CALLER;
+    const limited = this.checkRateLimits(tool, caller);
+    if (limited) {
+      this.logger.warn({
+        requestId,
+        tool: toolName,
+        caller,
+        retryAfterMs: getRetryAfter(limited),
+      }, 'Rate limit exceeded');
+      return this.rejectionResponse(limited, startTime);
+    }
+
+    // stop() may have begun while the principal was resolved, and would not
+    // wait for a call tracked after it
+    const stopping = this.lifecycleError(parent !== undefined);
+    if (stopping) {
+      return this.rejectionResponse(stopping, startTime);
     }
 
+    const { id, signal, done } = this.trackRequest(requestId, parent, options.signal);
+    let release: Release | undefined;
     try {
-      // Validate input against tool schema
+      // Check size and shape limits, then validate input against tool schema
+      assertInputLimits(input, this.inputLimits(tool));
       const inputResult = validateSchema(tool.inputSchema, input);
       if (!inputResult.success) {
+        return this.rejectionResponse(
+          validationError(`Invalid input: ${inputResult.errors.join(', ')}`, { errors: inputResult.errors }),
+          startTime
+        );
+      }
+
+      // Wait for a free slot
+      release = await this.acquireSlot(parent, toolName, signal);
+
+      // Execute the tool under its policy, retrying retryable failures
+      // until output has been streamed to the caller
+      const run = composeMiddleware(this.middleware);
+      let streamed = false;
+      const emit = async (chunk: unknown) => {
+        if (options.onChunk) {
+          streamed = true;
+          await options.onChunk(chunk);
+        }
+      };
+      // A timed-out attempt may still be running, so mutating tools only
+      // retry timeouts when their policy opts in
+      const policy = resolvePolicy(this.config, tool.policy);
+      const retryTimeouts = policy.retryTimeouts ?? !tool.mutating;
+      const outcome = await executeWithPolicy(
+        `tool:${toolName}`,
+        policy,
+        async (_attempt, attemptSignal) => {
+          // Tools called from this one run on behalf of the same caller
+          const result = await this.callScope.run(
+            { id, requestId, signal: attemptSignal, identity: { principal, caller }, scheduled: true },
+            () => run({
+              tool,
+              input: inputResult.data,
+              context: this.createContext(
+                requestId, { tool: toolName }, attemptSignal, span, options.onProgress, principal, emit
+              ),
+            })
+          );
+          if (!result.success && result.metadata?.['retryable'] === true) {
+            throw this.toolResultError(result);
+          }
+          if (result.success && tool.outputSchema) {
+            const outputResult = validateSchema(tool.outputSchema, result.data);
+            if (!outputResult.success) {
+              throw new SubAgentError(
+                `Output validation failed: ${outputResult.errors.join(', ')}`,
+                ErrorCode.VALIDATION_FAILED,
+                { errors: outputResult.errors }
+              );
+            }
+            return { ...result, data: outputResult.data };
+          }
+          return result;
+        },
+        {
+          signal,
+          onRetry: (info) => this.logRetry(requestId, info),
+          shouldRetry: (error) => !streamed && (retryTimeouts || !isTimeout(error)),
+        }
+      );
+
+      if (!outcome.success) {
+        const formattedError = formatError(outcome.error);
         return {
           success: false,
           results: null,
-          error: `Invalid input: ${inputResult.errors.join(', ')}`,
+          metadata: {
+            processingTimeMs: Date.now() - startTime,
+            attempts: outcome.attempts,
+            code: formattedError.code,
+            retryable: formattedError.retryable,
+            retryAfterMs: getRetryAfter(outcome.error),
+            details: outcome.error instanceof SubAgentError ? outcome.error.details : undefined,
+          },
+          error: formattedError.message,
         };
       }
 
-      // Execute the tool
-      const result = await tool.handler(inputResult.data, {
-        requestId,
-        logger: this.logger.child({ requestId, tool: toolName }),
-        metadata: this.metadata,
-      });
-
+      const result = outcome.value;
       return {
         success: result.success,
         results: result.data,
         metadata: {
           processingTimeMs: Date.now() - startTime,
+          attempts: outcome.attempts,
           ...result.metadata,
         },
         error: result.error,
       };
     } catch (error) {
-      const formattedError = formatError(error);
-      return {
-        success: false,
-        results: null,
-        metadata: {
-          processingTimeMs: Date.now() - startTime,
-        },
-        error: formattedError.message,
-      };
+      return this.rejectionResponse(error, startTime);
+    } finally {
+      release?.();
+      done();
+    }
+  }
+
+  /**
+   * Build a failed tool call response from an error
+   */
+  private rejectionResponse(error: unknown, startTime: number): ProcessResponse {
+    const formattedError = formatError(error);
+    return {
+      success: false,
+      results: null,
+      metadata: {
+        processingTimeMs: Date.now() - startTime,
+        code: formattedError.code,
+        retryable: formattedError.retryable,
+        retryAfterMs: getRetryAfter(error),
+        details: error instanceof SubAgentError ? error.details : undefined,
+      },
+      error: formattedError.message,
+    };
+  }
+
+  /**
+   * Get the input limits of a tool, or of requests without one
+   */
+  private inputLimits(tool?: ToolDefinition): InputLimits {
+    return { ...DEFAULT_INPUT_LIMITS, ...this.config.inputLimits, ...tool?.inputLimits };
+  }
+
+  /**
+   * Take a token from the tool's and the agent's rate limits
+   */
+  private checkRateLimits(tool: ToolDefinition, caller: string): SubAgentError | undefined {
+    const limits: ScopedRateLimit[] = [];
+    if (tool.rateLimit) {
+      limits.push({ scope: `tool:${tool.name}`, limit: tool.rateLimit });
+    }
+    if (this.config.rateLimit) {
+      limits.push({ scope: 'agent', limit: this.config.rateLimit });
+    }
+    return checkRateLimits(this.rateLimiter, limits, tool.name, caller);
+  }
+
+  /**
+   * Determine on whose behalf a call runs
+   *
+   * An explicit principal wins; otherwise credentials are authenticated, or
+   * the principal of the call this one is nested in is inherited.
+   */
+  private async resolvePrincipal(
+    inherited: Principal | undefined,
+    options: Pick<ExecuteToolOptions, 'principal' | 'credentials'>
+  ): Promise<Principal | undefined> {
+    if (options.principal) {
+      return options.principal;
+    }
+    if (!this.auth || (inherited && options.credentials === undefined)) {
+      return inherited;
     }
+    return authenticate(this.auth, options.credentials);
+  }
+
+  /**
+   * Log a call rejected by authentication or authorization
+   */
+  private logDenial(requestId: string, bindings: Record<string, unknown>, error: unknown): void {
+    const { message, code, details } = formatError(error);
+    this.logger.warn({ requestId, ...bindings, code, reason: details?.['reason'] ?? message }, 'Access denied');
+  }
+
+  /**
+   * List static resources and the concrete resources of URI templates
+   */
+  async listResources(options: ExecuteToolOptions = {}): Promise<ResourceInfo[]> {
+    this.assertAccepting();
+    const requestId = crypto.randomUUID();
+    const { id, signal, done } = this.trackRequest(requestId, undefined, options.signal);
+    const scope: CallScope = { id, requestId, signal, scheduled: false };
+    try {
+      return await this.tracer.trace('list resources', { parent: options.traceparent }, async (span) => {
+        const lists = await Promise.all(
+          Array.from(this.resources.values(), async (resource): Promise<ResourceInfo[]> => {
+            if (!UriTemplate.isTemplate(resource.uri)) {
+              return [{
+                uri: resource.uri,
+                name: resource.name,
+                description: resource.description,
+                mimeType: resource.mimeType,
+              }];
+            }
+            return resource.list
+              ? this.callScope.run(scope, () => resource.list!(
+                this.createContext(requestId, { resource: resource.name }, signal, span)
+              ))
+              : [];
+          })
+        );
+        return lists.flat();
+      });
+    } finally {
+      done();
+    }
+  }
+
+  /**
+   * Read a resource by URI
+   */
+  async readResource(uri: string, options: ExecuteToolOptions = {}): Promise<ResourceContent[]> {
+    this.assertAccepting();
+    for (const resource of this.resources.values()) {
+      const variables = UriTemplate.isTemplate(resource.uri)
+        ? new UriTemplate(resource.uri).match(uri)
+        : resource.uri === uri ? {} : null;
+      if (!variables) {
+        continue;
+      }
+
+      const requestId = crypto.randomUUID();
+      const { id, signal, done } = this.trackRequest(requestId, undefined, options.signal);
+      try {
+        const contents = await this.tracer.trace(
+          `resource ${resource.name}`,
+          { parent: options.traceparent, attributes: { uri } },
+          (span) => this.callScope.run({ id, requestId, signal, scheduled: false }, () => resource.read(
+            new URL(uri),
+            variables,
+            this.createContext(requestId, { resource: resource.name }, signal, span, options.onProgress)
+          ))
+        );
+        return Array.isArray(contents) ? contents : [contents];
+      } finally {
+        done();
+      }
+    }
+
+    throw new SubAgentError(`Resource '${uri}' not found`, ErrorCode.NOT_FOUND, { uri });
+  }
+
+  /**
+   * Build the messages of a prompt
+   */
+  async getPrompt(
+    name: string,
+    args: unknown = {},
+    options: ExecuteToolOptions = {}
+  ): Promise<PromptMessage[]> {
+    this.assertAccepting();
+    const prompt = this.prompts.get(name);
+    if (!prompt) {
+      throw new SubAgentError(`Prompt '${name}' not found`, ErrorCode.NOT_FOUND, { prompt: name });
+    }
+
+    let parsedArgs = args;
+    if (prompt.argsSchema) {
+      const argsResult = validateSchema(prompt.argsSchema, args);
+      if (!argsResult.success) {
+        throw new SubAgentError(
+          `Invalid arguments: ${argsResult.errors.join(', ')}`,
+          ErrorCode.INVALID_INPUT,
+          { errors: argsResult.errors }
+        );
+      }
+      parsedArgs = argsResult.data;
+    }
+
+    const requestId = crypto.randomUUID();
+    const { id, signal, done } = this.trackRequest(requestId, undefined, options.signal);
+    try {
+      return await this.tracer.trace(
+        `prompt ${name}`,
+        { parent: options.traceparent },
+        (span) => this.callScope.run({ id, requestId, signal, scheduled: false }, () => prompt.handler(
+          parsedArgs,
+          this.createContext(requestId, { prompt: name }, signal, span, options.onProgress)
+        ))
+      );
+    } finally {
+      done();
+    }
+  }
+
+  /**
+   * Cancel in-flight requests or tool calls
+   *
+   * Cancels every call made with the given request id, along with the calls
+   * nested in them. Returns false when no such call is running.
+   */
+  cancel(requestId: string, reason?: string): boolean {
+    const calls = Array.from(this.inFlight.values()).filter((call) => call.requestId === requestId);
+    if (calls.length === 0) {
+      return false;
+    }
+    this.logger.info({ requestId, reason }, 'Cancelling request');
+    for (const { controller } of calls) {
+      controller.abort(cancelledError(`request:${requestId}`, reason));
+    }
+    return true;
+  }
+
+  /**
+   * Initialize the agent and start accepting calls
+   *
+   * Runs initialize() and moves from 'created' through 'initializing' to
+   * 'ready'. Calls made before then fail with ErrorCode.NOT_READY. A failed
+   * initialization leaves the agent stopped.
+   */
+  async start(): Promise<void> {
+    if (this.state === 'ready') {
+      return;
+    }
+    if (this.starting) {
+      return this.starting;
+    }
+    if (this.state !== 'created') {
+      throw new SubAgentError(
+        `Cannot start agent in state '${this.state}'`,
+        ErrorCode.SHUTTING_DOWN,
+        { state: this.state }
+      );
+    }
+
+    this.state = 'initializing';
+    this.starting = (async () => {
+      try {
+        await this.initialize();
+        this.validateRouting();
+        this.state = 'ready';
+        this.logger.info('Sub-agent ready');
+      } catch (error) {
+        this.state = 'stopped';
+        this.logger.error({ error: formatError(error) }, 'Sub-agent initialization failed');
+        throw error;
+      } finally {
+        this.starting = undefined;
+      }
+    })();
+    return this.starting;
+  }
+
+  /**
+   * Stop accepting calls, drain in-flight ones and shut down
+   *
+   * New calls fail with ErrorCode.SHUTTING_DOWN while tool calls made for a
+   * request already in flight are still accepted. Calls still running after
+   * the timeout (default: the drainTimeout config) are cancelled before
+   * shutdown() runs, so overrides need not call super.shutdown(). The
+   * tracer is flushed last, even when shutdown() fails.
+   */
+  async stop(options: { timeout?: number } = {}): Promise<void> {
+    if (this.state === 'stopped') {
+      return;
+    }
+    if (this.stopping) {
+      return this.stopping;
+    }
+
+    this.stopping = (async () => {
+      if (this.starting) {
+        await this.starting.catch(() => {});
+      }
+      this.state = 'draining';
+      const timeout = options.timeout ?? this.config.drainTimeout ?? 30000;
+      this.logger.info({ inFlight: this.inFlight.size, timeout }, 'Draining in-flight calls');
+
+      if (!(await this.waitForDrain(timeout))) {
+        this.logger.warn(
+          { inFlight: this.inFlight.size },
+          'Drain timeout reached, cancelling remaining calls'
+        );
+        for (const { requestId, controller } of this.inFlight.values()) {
+          controller.abort(cancelledError(`request:${requestId}`, 'agent shutting down'));
+        }
+      }
+
+      try {
+        await this.shutdown();
+      } finally {
+        await this.tracer.shutdown();
+        this.state = 'stopped';
+        this.stopping = undefined;
+      }
+    })();
+    return this.stopping;
   }
 
   /**
    * Initialize the sub-agent
-   * Override to perform async initialization
+   * Called by start(); override to perform async initialization
    */
   async initialize(): Promise<void> {
     // Default implementation does nothing
@@ -232,7 +1072,7 @@ export abstract class BaseSubAgent {
 
   /**
    * Shutdown the sub-agent
-   * Override to perform cleanup
+   * Called by stop() once in-flight calls drained; override to perform cleanup
    */
   async shutdown(): Promise<void> {
     this.logger.info('Sub-agent shutting down');
@@ -247,15 +1087,393 @@ export abstract class BaseSubAgent {
   }
 
   /**
-   * Handle a request - must be implemented by subclasses
+   * Handle a request
+   *
+   * By default the request is routed to the tool declaring its type in
+   * `requestTypes`, or else to the first tool providing the capability of
+   * that name, and the tool's results are returned. Override to handle
+   * requests yourself.
    */
-  protected abstract handleRequest(
+  protected async handleRequest(
     request: ProcessRequest,
-    requestId: string
-  ): Promise<unknown>;
+    requestId: string,
+    _signal: AbortSignal
+  ): Promise<unknown> {
+    const tool = this.routeRequest(request.type);
+    if (!tool) {
+      throw new SubAgentError(
+        `No tool handles request type '${request.type}'`,
+        ErrorCode.UNSUPPORTED_REQUEST,
+        { type: request.type }
+      );
+    }
+
+    const input = tool.mapRequest
+      ? tool.mapRequest(request)
+      : { content: request.content, ...request.options };
+    const response = await this.executeTool(tool.name, input, requestId);
+    if (!response.success) {
+      // The tool already applied its own retry policy, except to rate limits
+      const code = response.metadata?.['code'];
+      const retryAfterMs = response.metadata?.['retryAfterMs'];
+      throw new SubAgentError(
+        response.error ?? `Tool '${tool.name}' failed`,
+        Object.values(ErrorCode).includes(code as ErrorCode) ? code as ErrorCode : ErrorCode.PROCESSING_FAILED,
+        { tool: tool.name, ...(typeof retryAfterMs === 'number' && { retryAfterMs }) },
+        code === ErrorCode.RATE_LIMITED
+      );
+    }
+    return response.results;
+  }
+
+  /**
+   * Find the tool serving a request type
+   */
+  protected routeRequest(type: string): ToolDefinition | undefined {
+    const tools = Array.from(this.tools.values());
+    return tools.find((tool) => tool.requestTypes?.includes(type))
+      ?? tools.find((tool) => tool.capability === type);
+  }
+
+  /**
+   * Check that requests can be routed
+   *
+   * Applies to agents using the default handleRequest() or declaring tool
+   * capabilities: every capability in the metadata needs a tool, and a
+   * request type may only be declared by one tool.
+   */
+  private validateRouting(): void {
+    const tools = Array.from(this.tools.values());
+    const routed = this.handleRequest === BaseSubAgent.prototype.handleRequest
+      || tools.some((tool) => tool.capability !== undefined);
+    if (!routed) {
+      return;
+    }
+
+    const problems: string[] = [];
+    for (const capability of this.metadata.capabilities) {
+      if (!tools.some((tool) => tool.capability === capability || tool.requestTypes?.includes(capability))) {
+        problems.push(`capability '${capability}' has no tool`);
+      }
+    }
+
+    const owners = new Map<string, string>();
+    for (const tool of tools) {
+      for (const type of tool.requestTypes ?? []) {
+        const owner = owners.get(type);
+        if (owner !== undefined) {
+          problems.push(`request type '${type}' is declared by '${owner}' and '${tool.name}'`);
+        }
+        owners.set(type, tool.name);
+      }
+    }
+
+    if (problems.length > 0) {
+      throw new SubAgentError(
+        `Invalid routing: ${problems.join(', ')}`,
+        ErrorCode.INVALID_CONFIG,
+        { problems }
+      );
+    }
+  }
+
+  /**
+   * Run a call in a span, recording call counts, failures, latency and
+   * in-flight calls
+   */
+  private async instrument(
+    kind: keyof typeof CALL_METRICS,
+    labels: MetricLabels,
+    trace: { name: string; parent?: string },
+    run: (span: Span) => Promise<ProcessResponse>
+  ): Promise<ProcessResponse> {
+    const names = CALL_METRICS[kind];
+    const inFlight = this.metrics.gauge(names.inFlight.name, names.inFlight.help);
+    const stopTimer = this.metrics
+      .histogram(names.duration.name, names.duration.help)
+      .startTimer(labels);
+
+    inFlight.inc(labels);
+    try {
+      return await this.tracer.trace(trace.name, { parent: trace.parent, attributes: labels }, async (span) => {
+        const response = await run(span);
+        this.metrics.counter(names.calls.name, names.calls.help).inc({
+          ...labels,
+          status: response.success ? 'success' : 'failure',
+        });
+        if (!response.success) {
+          const metadataCode = response.metadata?.['code'];
+          const code = typeof metadataCode === 'string' ? metadataCode : ErrorCode.PROCESSING_FAILED;
+          this.metrics.counter(names.failures.name, names.failures.help).inc({ ...labels, code });
+          span.setAttribute('error.code', code).setError(response.error);
+        }
+        return response;
+      });
+    } finally {
+      inFlight.dec(labels);
+      stopTimer();
+    }
+  }
+
+  /**
+   * Get the error for a call the current lifecycle state does not accept
+   *
+   * While draining, calls nested in a call that is already in flight (e.g.
+   * tool calls from handleRequest) are accepted so it can complete.
+   */
+  private lifecycleError(nested = false): SubAgentError | undefined {
+    if (this.state === 'ready') {
+      return undefined;
+    }
+    if (this.state === 'created' || this.state === 'initializing') {
+      return new SubAgentError(
+        `Agent is not ready (state: ${this.state})`,
+        ErrorCode.NOT_READY,
+        { state: this.state },
+        true
+      );
+    }
+    if (this.state === 'draining' && nested) {
+      return undefined;
+    }
+    return new SubAgentError(
+      'Agent is shutting down',
+      ErrorCode.SHUTTING_DOWN,
+      { state: this.state }
+    );
+  }
+
+  /**
+   * Throw if the current lifecycle state does not accept calls
+   */
+  private assertAccepting(): void {
+    const error = this.lifecycleError();
+    if (error) {
+      throw error;
+    }
+  }
+
+  /**
+   * Wait until no calls are in flight
+   *
+   * Resolves false when the timeout passes first.
+   */
+  private waitForDrain(timeout: number): Promise<boolean> {
+    if (this.inFlight.size === 0) {
+      return Promise.resolve(true);
+    }
+    return new Promise((resolve) => {
+      const timer = setTimeout(() => {
+        this.onDrained = undefined;
+        resolve(false);
+      }, timeout);
+      this.onDrained = () => {
+        clearTimeout(timer);
+        this.onDrained = undefined;
+        resolve(true);
+      };
+    });
+  }
+
+  /**
+   * Acquire a scheduler slot for a request or tool call
+   *
+   * Tool calls nested in a call that already holds a global slot (e.g.
+   * from handleRequest) only count against the per-tool limit.
+   */
+  private acquireSlot(
+    parent: CallScope | undefined,
+    toolName: string | undefined,
+    signal: AbortSignal
+  ): Promise<Release> {
+    return this.scheduler.acquire(toolName, {
+      global: toolName === undefined || !parent?.scheduled,
+      signal,
+    });
+  }
+
+  /**
+   * Create the context passed to tool, resource and prompt handlers
+   */
+  private createContext(
+    requestId: string,
+    bindings: MetricLabels,
+    signal: AbortSignal,
+    span: Span,
+    onProgress?: (update: ProgressUpdate) => void,
+    principal?: Principal,
+    emit: (chunk: unknown) => Promise<void> = async () => {}
+  ): ToolContext {
+    return {
+      requestId,
+      logger: this.logger.child({ requestId, ...bindings }),
+      metadata: this.metadata,
+      signal,
+      reportProgress: (progress, total, message) => {
+        try {
+          onProgress?.({ progress, total, message });
+        } catch (error) {
+          this.logger.warn({ requestId, error: formatError(error) }, 'Progress listener failed');
+        }
+      },
+      emit,
+      metrics: this.toolMetrics(bindings),
+      span,
+      principal,
+    };
+  }
+
+  /**
+   * Create the custom metrics recorder for a handler
+   */
+  private toolMetrics(bindings: MetricLabels): ToolMetrics {
+    return {
+      increment: (name, labels = {}, value = 1) => {
+        this.metrics
+          .counter(name, 'Custom counter recorded by a handler')
+          .inc({ ...labels, ...bindings }, value);
+      },
+    };
+  }
+
+  /**
+   * Get the in-flight call a new call is nested in
+   *
+   * That is the call whose handler makes the new call while passing on its
+   * own request id; calls that merely reuse a request id are independent.
+   */
+  private parentCall(requestId: string): CallScope | undefined {
+    const scope = this.callScope.getStore();
+    return scope?.requestId === requestId && this.inFlight.has(scope.id) ? scope : undefined;
+  }
+
+  /**
+   * Track a call so it can be cancelled and drained
+   *
+   * Every call is tracked on its own, even when callers reuse a request id.
+   * Calls nested in another (e.g. tool calls from handleRequest) are
+   * cancelled together with it and abort when its current attempt ends.
+   */
+  private trackRequest(
+    requestId: string,
+    parent?: CallScope,
+    external?: AbortSignal
+  ): { id: string; signal: AbortSignal; done: () => void } {
+    const id = crypto.randomUUID();
+    const controller = new AbortController();
+    const unlinks = [parent?.signal, external]
+      .filter((source): source is AbortSignal => source !== undefined)
+      .map((source) => linkSignal(source, controller));
+
+    this.inFlight.set(id, { requestId, controller });
+
+    return {
+      id,
+      signal: controller.signal,
+      done: () => {
+        unlinks.forEach((unlink) => unlink());
+        this.inFlight.delete(id);
+        if (this.inFlight.size === 0) {
+          this.onDrained?.();
+        }
+      },
+    };
+  }
+
+  /**
+   * Build a failed response for a request
+   */
+  private failureResponse(
+    requestId: string,
+    error: unknown,
+    startTime: number,
+    attempts?: number
+  ): ProcessResponse {
+    const formattedError = formatError(error);
+
+    this.logger.error({
+      requestId,
+      error: formattedError,
+      attempts,
+    }, 'Request failed');
+
+    return {
+      success: false,
+      results: null,
+      metadata: {
+        processingTimeMs: Date.now() - startTime,
+        attempts,
+        code: formattedError.code,
+        retryable: formattedError.retryable,
+        retryAfterMs: getRetryAfter(error),
+        details: error instanceof SubAgentError ? error.details : undefined,
+      },
+      error: formattedError.message,
+    };
+  }
+
+  /**
+   * Convert a failed, retryable tool result into an error the policy can retry
+   */
+  private toolResultError(result: ToolResult): SubAgentError {
+    const code = result.metadata?.['code'];
+    const details = result.metadata?.['details'];
+    return new SubAgentError(
+      result.error ?? 'Tool execution failed',
+      Object.values(ErrorCode).includes(code as ErrorCode)
+        ? code as ErrorCode
+        : ErrorCode.PROCESSING_FAILED,
+      {
+        ...(typeof details === 'object' && details !== null ? details : {}),
+        retryAfterMs: result.metadata?.['retryAfterMs'],
+      },
+      true
+    );
+  }
+
+  /**
+   * Log a scheduled retry
+   */
+  private logRetry(requestId: string, info: RetryInfo): void {
+    this.logger.warn({
+      requestId,
+      operation: info.operation,
+      attempt: info.attempt,
+      delayMs: info.delayMs,
+      error: formatError(info.error).message,
+    }, 'Retrying after failure');
+  }
+
+  /**
+   * Run one health check under its timeout
+   */
+  private async runHealthCheck(check: HealthCheckDefinition): Promise<HealthCheckResult> {
+    const startTime = Date.now();
+    let error: string | undefined;
+    try {
+      await withTimeout(`health:${check.name}`, check.timeout ?? 5000, check.check);
+      this.lastHealthy.set(check.name, Date.now());
+    } catch (checkError) {
+      error = formatError(checkError).message;
+    }
+
+    const lastSuccess = this.lastHealthy.get(check.name);
+    return {
+      name: check.name,
+      kind: check.kind ?? 'readiness',
+      critical: check.critical ?? true,
+      healthy: error === undefined,
+      latencyMs: Date.now() - startTime,
+      lastSuccess: lastSuccess !== undefined ? new Date(lastSuccess).toISOString() : undefined,
+      error,
+    };
+  }
 
   /**
    * Run health checks - can be overridden
+   *
+   * A failure counts as a critical readiness failure; prefer
+   * registerHealthCheck() for per-check results.
    */
   protected async runHealthChecks(): Promise<void> {
     // Default implementation does nothing
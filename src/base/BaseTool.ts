@@ -1,7 +1,21 @@
-import { z, ZodType } from 'zod';
-import type { ToolContext, ToolResult } from '../types/index.js';
+import { ZodType, type ZodTypeDef } from 'zod';
+import type {
+  ToolContext,
+  ToolResult,
+  ToolDefinition,
+  ToolCacheOptions,
+  ExecutionPolicy,
+  ProcessRequest,
+  SubAgentCapability,
+  ToolAccessPolicy,
+  RateLimit,
+  InputLimits,
+} from '../types/index.js';
 import { validateSchema } from '../utils/validation.js';
-import { SubAgentError, ErrorCode, formatError } from '../utils/errors.js';
+import { SubAgentError, formatError, getRetryAfter } from '../utils/errors.js';
+import { zodToJsonSchema } from '../utils/jsonSchema.js';
+import { runInSpan } from '../utils/tracing.js';
+import { collectStream, isAsyncIterable } from '../utils/stream.js';
 
 /**
  * Base class for tools
@@ -10,26 +24,98 @@ import { SubAgentError, ErrorCode, formatError } from '../utils/errors.js';
  * - Input validation
  * - Error handling
  * - Logging
+ * - Tracing
  */
 export abstract class BaseTool<TInput, TOutput> {
   public readonly name: string;
   public readonly description: string;
   public readonly inputSchema: ZodType<TInput>;
+  public readonly outputSchema?: ZodType<unknown, ZodTypeDef, TOutput>;
+
+  /**
+   * Execution policy override for this tool
+   */
+  public policy?: Partial<ExecutionPolicy>;
+
+  /**
+   * Maximum concurrent executions of this tool
+   */
+  public maxConcurrent?: number;
+
+  /**
+   * Result caching for tools that are pure functions of their input
+   */
+  public cache?: ToolCacheOptions;
+
+  /**
+   * Capability this tool provides to request routing
+   */
+  public capability?: SubAgentCapability;
+
+  /**
+   * Request types routed to this tool
+   */
+  public requestTypes?: string[];
+
+  /**
+   * Build the tool input from a routed request
+   */
+  public mapRequest?: (request: ProcessRequest) => unknown;
+
+  /**
+   * Principals and roles allowed to call this tool
+   */
+  public access?: ToolAccessPolicy;
+
+  /**
+   * Whether this tool changes state; denied to read-only principals
+   */
+  public mutating?: boolean;
+
+  /**
+   * Token-bucket limit on calls to this tool
+   */
+  public rateLimit?: RateLimit;
+
+  /**
+   * Overrides of the agent's input limits for this tool
+   */
+  public inputLimits?: InputLimits;
+
+  /**
+   * Build the output from chunks streamed by run() (default: aggregateChunks)
+   */
+  public aggregate?: (chunks: unknown[]) => TOutput;
 
   constructor(
     name: string,
     description: string,
-    inputSchema: ZodType<TInput>
+    inputSchema: ZodType<TInput>,
+    outputSchema?: ZodType<unknown, ZodTypeDef, TOutput>
   ) {
     this.name = name;
     this.description = description;
     this.inputSchema = inputSchema;
+    this.outputSchema = outputSchema;
   }
 
   /**
-   * Execute the tool with validation and error handling
+   * Execute the tool in a child span of the caller's span
    */
   async execute(input: unknown, context: ToolContext): Promise<ToolResult> {
+    return runInSpan(context.span.startChild(`execute ${this.name}`), async (span) => {
+      const result = await this.executeValidated(input, { ...context, span });
+      if (!result.success) {
+        span.setError(result.error);
+      }
+      return result;
+    });
+  }
+
+  /**
+   * Execute the tool with validation and error handling
+   */
+  private async executeValidated(input: unknown, context: ToolContext): Promise<ToolResult> {
     const { logger, requestId } = context;
 
     logger.debug({ tool: this.name, requestId }, 'Executing tool');
@@ -44,9 +130,14 @@ export abstract class BaseTool<TInput, TOutput> {
         };
       }
 
-      // Run the tool implementation
-      const output = await this.run(validationResult.data, context);
+      // Run the tool implementation, collecting streamed output
+      const result = this.run(validationResult.data, context);
+      const output = isAsyncIterable(result)
+        ? await collectStream(result, context, this.aggregate) as TOutput
+        : await result;
 
+      // The output is validated against outputSchema by the agent or
+      // server running the tool
       logger.debug({ tool: this.name, requestId }, 'Tool completed successfully');
 
       return {
@@ -60,71 +151,61 @@ export abstract class BaseTool<TInput, TOutput> {
       return {
         success: false,
         error: formattedError.message,
-        metadata: { code: formattedError.code },
+        metadata: {
+          code: formattedError.code,
+          retryable: formattedError.retryable,
+          retryAfterMs: getRetryAfter(error),
+          details: error instanceof SubAgentError ? error.details : undefined,
+        },
       };
     }
   }
 
   /**
    * Implement the actual tool logic
+   *
+   * Return an async iterable, e.g. from an async generator, to stream the
+   * output in chunks.
    */
-  protected abstract run(input: TInput, context: ToolContext): Promise<TOutput>;
+  protected abstract run(input: TInput, context: ToolContext): Promise<TOutput> | AsyncIterable<unknown>;
+
+  /**
+   * Get a tool definition for registration with a sub-agent
+   */
+  toDefinition(): ToolDefinition {
+    return {
+      name: this.name,
+      description: this.description,
+      inputSchema: this.inputSchema,
+      outputSchema: this.outputSchema,
+      handler: (input, context) => this.execute(input, context),
+      policy: this.policy,
+      maxConcurrent: this.maxConcurrent,
+      cache: this.cache,
+      capability: this.capability,
+      requestTypes: this.requestTypes,
+      mapRequest: this.mapRequest,
+      access: this.access,
+      mutating: this.mutating,
+      rateLimit: this.rateLimit,
+      inputLimits: this.inputLimits,
+    };
+  }
 
   /**
    * Get JSON schema for the tool input
    */
   getJsonSchema(): Record<string, unknown> {
-    // Convert Zod schema to JSON schema
-    // This is a simplified version - production would use zod-to-json-schema
-    const zodDef = this.inputSchema._def;
-    return this.zodToJsonSchema(zodDef);
+    return zodToJsonSchema(this.inputSchema);
   }
 
   /**
-   * Convert Zod schema definition to JSON schema
+   * Get JSON schema for the tool output, if declared
    */
-  private zodToJsonSchema(def: z.ZodTypeDef): Record<string, unknown> {
-    const typeName = (def as { typeName?: string }).typeName;
-
-    switch (typeName) {
-      case 'ZodString':
-        return { type: 'string' };
-      case 'ZodNumber':
-        return { type: 'number' };
-      case 'ZodBoolean':
-        return { type: 'boolean' };
-      case 'ZodArray':
-        return {
-          type: 'array',
-          items: this.zodToJsonSchema((def as { type?: { _def: z.ZodTypeDef } }).type?._def || {}),
-        };
-      case 'ZodObject':
-        const shape = (def as { shape?: () => Record<string, z.ZodTypeAny> }).shape?.() || {};
-        const properties: Record<string, unknown> = {};
-        const required: string[] = [];
-
-        for (const [key, value] of Object.entries(shape)) {
-          properties[key] = this.zodToJsonSchema(value._def);
-          if (!value.isOptional()) {
-            required.push(key);
-          }
-        }
-
-        return {
-          type: 'object',
-          properties,
-          required: required.length > 0 ? required : undefined,
-        };
-      case 'ZodOptional':
-        return this.zodToJsonSchema((def as { innerType?: { _def: z.ZodTypeDef } }).innerType?._def || {});
-      case 'ZodEnum':
-        return {
-          type: 'string',
-          enum: (def as { values?: string[] }).values,
-        };
-      default:
-        return {};
-    }
+  getOutputJsonSchema(): Record<string, unknown> | undefined {
+    return this.outputSchema
+      ? zodToJsonSchema(this.outputSchema, { io: 'output' })
+      : undefined;
   }
 }
 
@@ -135,13 +216,14 @@ export function createTool<TInput, TOutput>(
   name: string,
   description: string,
   inputSchema: ZodType<TInput>,
-  handler: (input: TInput, context: ToolContext) => Promise<TOutput>
+  handler: (input: TInput, context: ToolContext) => Promise<TOutput> | AsyncIterable<unknown>,
+  outputSchema?: ZodType<unknown, ZodTypeDef, TOutput>
 ): BaseTool<TInput, TOutput> {
   class SimpleTool extends BaseTool<TInput, TOutput> {
-    protected async run(input: TInput, context: ToolContext): Promise<TOutput> {
+    protected run(input: TInput, context: ToolContext): Promise<TOutput> | AsyncIterable<unknown> {
       return handler(input, context);
     }
   }
 
-  return new SimpleTool(name, description, inputSchema);
+  return new SimpleTool(name, description, inputSchema, outputSchema);
 }
@@ -12,10 +12,199 @@ export { BaseTool } from './base/BaseTool.js';
 export * from './types/index.js';
 
 // Utilities
-export { createLogger, type Logger } from './utils/logger.js';
-export { validateSchema, createSchema } from './utils/validation.js';
-export { formatError, ErrorCode, SubAgentError } from './utils/errors.js';
+export {
+  createLogger,
+  loggerOptionsFromConfig,
+  scrubSecrets,
+  reserveStdout,
+  isStdoutReserved,
+  MemoryLogSink,
+  RotatingFileSink,
+  DEFAULT_REDACT_PATHS,
+  SECRET_PATTERNS,
+  REDACTED,
+  type Logger,
+  type LoggerOptions,
+  type LogSink,
+  type FileSinkOptions,
+  type SecretPattern,
+} from './utils/logger.js';
+export {
+  validateSchema,
+  createSchema,
+  schemas,
+  checkInputLimits,
+  assertInputLimits,
+  findInjectionMarkers,
+  DEFAULT_INPUT_LIMITS,
+  INJECTION_MARKERS,
+  type InputLimitViolation,
+} from './utils/validation.js';
+export { resolveWithinRoot, isWithin, type PathViolation } from './utils/workspace.js';
+export { zodToJsonSchema, type JsonSchema } from './utils/jsonSchema.js';
+export {
+  generateManifest,
+  serializeManifest,
+  validateManifest,
+  diffManifests,
+  AgentManifestSchema,
+  MANIFEST_VERSION,
+  type AgentManifest,
+  type ToolManifest,
+  type ResourceManifest,
+  type PromptManifest,
+  type GenerateManifestOptions,
+  type ManifestChange,
+  type ManifestChangeType,
+  type ManifestDiff,
+} from './utils/manifest.js';
+export {
+  formatError,
+  cancelledError,
+  accessDeniedError,
+  rateLimitedError,
+  validationError,
+  getRetryAfter,
+  isTimeout,
+  ErrorCode,
+  SubAgentError,
+} from './utils/errors.js';
+export {
+  ApiKeyAuthenticator,
+  HmacTokenAuthenticator,
+  composeAuthenticators,
+  authenticate,
+  authorize,
+  bearerCredentials,
+  type Authenticator,
+  type AuthOptions,
+  type HmacTokenOptions,
+} from './utils/auth.js';
+export {
+  executeWithPolicy,
+  resolvePolicy,
+  withTimeout,
+  linkSignal,
+  DEFAULT_EXECUTION_POLICY,
+  type PolicyOutcome,
+  type RetryInfo,
+  type PolicyOptions,
+} from './utils/policy.js';
+export {
+  MetricsRegistry,
+  Counter,
+  Gauge,
+  Histogram,
+  DEFAULT_LATENCY_BUCKETS,
+  type MetricLabels,
+  type MetricType,
+  type MetricSample,
+  type HistogramSample,
+  type MetricSnapshot,
+  type MetricsSnapshot,
+  type ToolMetrics,
+} from './utils/metrics.js';
+export { composeMiddleware } from './utils/middleware.js';
+export {
+  ToolStream,
+  collectStream,
+  aggregateChunks,
+  isAsyncIterable,
+  type ToolStreamOptions,
+} from './utils/stream.js';
+export {
+  RateLimiter,
+  checkRateLimit,
+  checkRateLimits,
+  ANONYMOUS_CALLER,
+  type ScopedRateLimit,
+} from './utils/rateLimit.js';
+export {
+  loadConfig,
+  loadConfigWithSources,
+  watchConfig,
+  RELOADABLE_CONFIG_KEYS,
+  type ConfigSource,
+  type ConfigIssue,
+  type LoadConfigOptions,
+  type LoadedConfig,
+  type ConfigWatcher,
+} from './utils/config.js';
+export {
+  ResultCache,
+  MemoryCacheStore,
+  FileCacheStore,
+  getToolCache,
+  stableHash,
+  type CacheStore,
+  type CacheEntry,
+  type CacheStatus,
+} from './utils/cache.js';
+export {
+  Tracer,
+  Span,
+  InMemorySpanExporter,
+  JsonLinesSpanExporter,
+  parseTraceparent,
+  formatTraceparent,
+  getActiveSpan,
+  runInSpan,
+  type SpanContext,
+  type SpanAttributes,
+  type SpanData,
+  type SpanExporter,
+  type StartSpanOptions,
+  type TracerOptions,
+} from './utils/tracing.js';
+export {
+  ConcurrencyScheduler,
+  mapConcurrent,
+  type SchedulerOptions,
+  type AcquireOptions,
+  type Release,
+} from './utils/scheduler.js';
+export {
+  createPipeline,
+  runPipeline,
+  type ToolExecutor,
+  type PipelineStep,
+  type ToolStep,
+  type MapStep,
+  type ParallelStep,
+  type EachStep,
+  type PipelineState,
+  type PipelineRunOptions,
+  type CreatePipelineOptions,
+} from './utils/pipeline.js';
 
 // MCP helpers
-export { createMcpServer, registerTools } from './mcp/server.js';
-export { createToolHandler, type ToolHandler } from './mcp/tools.js';
+export {
+  createMcpServer,
+  registerTools,
+  registerResources,
+  registerPrompts,
+  type ToolSource,
+  type RegisterToolsOptions,
+  type ResourceSource,
+  type PromptSource,
+  type McpServerOptions,
+  type McpTransportOptions,
+  type StdioTransportOptions,
+} from './mcp/server.js';
+export { HttpServerTransport, type HttpTransportOptions } from './mcp/http.js';
+export { runAgent, type RunAgentOptions, type RunningAgent, type AgentProcess } from './mcp/runner.js';
+export {
+  SubAgentClient,
+  type SubAgentClientOptions,
+  type SubAgentClientTransport,
+  type ClientCallOptions,
+  type RemoteToolSchema,
+  type ToolSchemaSet,
+  type ToolProxy,
+} from './mcp/client.js';
+export {
+  createToolHandler,
+  createProcessTool,
+  createHealthTool,
+  type ToolHandler,
+} from './mcp/tools.js';
@@ -0,0 +1,287 @@
+import { describe, it, expect, afterEach } from 'vitest';
+import { z } from 'zod';
+import { McpServer } from '@modelcontextprotocol/sdk/server/mcp.js';
+import { Server } from '@modelcontextprotocol/sdk/server/index.js';
+import { InMemoryTransport } from '@modelcontextprotocol/sdk/inMemory.js';
+import {
+  CallToolRequestSchema,
+  ErrorCode as McpErrorCode,
+  McpError,
+} from '@modelcontextprotocol/sdk/types.js';
+import { HttpServerTransport } from './http.js';
+import { SubAgentClient, type SubAgentClientOptions, type ToolSchemaSet } from './client.js';
+import { registerTools } from './server.js';
+import { createToolHandler } from './tools.js';
+import { createLogger } from '../utils/logger.js';
+import { SubAgentError, ErrorCode, rateLimitedError } from '../utils/errors.js';
+
+let transport: HttpServerTransport | undefined;
+const clients: SubAgentClient<ToolSchemaSet>[] = [];
+
+afterEach(async () => {
+  await Promise.all(clients.splice(0).map((client) => client.close()));
+  await transport?.close();
+  transport = undefined;
+});
+
+/**
+ * Connect a client to a server through an in-memory transport
+ */
+async function connect<S extends ToolSchemaSet>(
+  server: McpServer | Server,
+  options: Omit<SubAgentClientOptions<S>, 'transport'> = {}
+): Promise<SubAgentClient<S>> {
+  const [clientTransport, serverTransport] = InMemoryTransport.createLinkedPair();
+  await server.connect(serverTransport);
+  const client = await SubAgentClient.connect<S>({
+    ...options,
+    transport: { type: 'custom', transport: clientTransport },
+  });
+  clients.push(client as SubAgentClient<ToolSchemaSet>);
+  return client;
+}
+
+/**
+ * Server whose tool calls fail with the given error
+ */
+function failingServer(error: () => unknown): Server {
+  const server = new Server({ name: 'failing', version: '1.0.0' }, { capabilities: { tools: {} } });
+  server.setRequestHandler(CallToolRequestSchema, async () => {
+    throw await error();
+  });
+  return server;
+}
+
+/**
+ * Catch the error a call rejects with
+ */
+async function rejection(call: Promise<unknown>): Promise<SubAgentError> {
+  const error = await call.then(() => undefined, (reason: unknown) => reason);
+  expect(error).toBeInstanceOf(SubAgentError);
+  return error as SubAgentError;
+}
+
+describe('SubAgentClient', () => {
+  it('ends its HTTP session on close', async () => {
+    transport = new HttpServerTransport(
+      { type: 'http', port: 0 },
+      () => new McpServer({ name: 'test', version: '1.0.0' }),
+      createLogger('silent')
+    );
+    await transport.start();
+
+    const client = await SubAgentClient.connect({ transport: { type: 'http', url: transport.url!.href } });
+    expect(transport.sessionCount).toBe(1);
+
+    await client.close();
+    expect(transport.sessionCount).toBe(0);
+  });
+
+  it('closes when the HTTP server is already gone', async () => {
+    transport = new HttpServerTransport(
+      { type: 'http', port: 0 },
+      () => new McpServer({ name: 'test', version: '1.0.0' }),
+      createLogger('silent')
+    );
+    await transport.start();
+    const client = await SubAgentClient.connect({ transport: { type: 'http', url: transport.url!.href } });
+
+    await transport.close();
+
+    await expect(client.close()).resolves.toBeUndefined();
+  });
+});
+
+describe('tool failures', () => {
+  const failing = createToolHandler({
+    name: 'busy',
+    description: 'Always rate limited',
+    inputSchema: z.object({}),
+    handler: async () => {
+      throw rateLimitedError(250, { quota: 'daily' });
+    },
+  });
+
+  async function connectBusy() {
+    const server = new McpServer({ name: 'busy', version: '1.0.0' });
+    registerTools(server, [failing], createLogger('silent'));
+    return connect(server);
+  }
+
+  it('resolves callTool() with the remote code, retryability and details', async () => {
+    const client = await connectBusy();
+
+    expect(await client.callTool('busy')).toEqual({
+      success: false,
+      error: 'Rate limit exceeded, retry after 250ms',
+      metadata: {
+        code: ErrorCode.RATE_LIMITED,
+        retryable: true,
+        retryAfterMs: 250,
+        details: { quota: 'daily', retryAfterMs: 250 },
+      },
+    });
+  });
+
+  it('throws them from invoke() as a SubAgentError', async () => {
+    const client = await connectBusy();
+
+    const error = await rejection(client.invoke('busy'));
+
+    expect(error.code).toBe(ErrorCode.RATE_LIMITED);
+    expect(error.retryable).toBe(true);
+    expect(error.details).toMatchObject({ tool: 'busy', remoteCode: ErrorCode.RATE_LIMITED, retryAfterMs: 250, quota: 'daily' });
+  });
+
+  it('maps unknown remote codes to PROCESSING_FAILED', async () => {
+    const server = new Server({ name: 'odd', version: '1.0.0' }, { capabilities: { tools: {} } });
+    server.setRequestHandler(CallToolRequestSchema, async () => ({
+      content: [{ type: 'text', text: JSON.stringify({ error: 'odd failure', code: 'TEAPOT' }) }],
+      isError: true,
+    }));
+    const client = await connect(server);
+
+    const error = await rejection(client.invoke('odd'));
+
+    expect(error).toMatchObject({ message: 'odd failure', code: ErrorCode.PROCESSING_FAILED, retryable: false });
+    expect(error.details).toMatchObject({ remoteCode: 'TEAPOT' });
+  });
+});
+
+describe('protocol failures', () => {
+  it.each([
+    ['invalid params', McpErrorCode.InvalidParams, ErrorCode.INVALID_INPUT, false],
+    ['request timeouts', McpErrorCode.RequestTimeout, ErrorCode.TIMEOUT, true],
+    ['other MCP errors', McpErrorCode.InternalError, ErrorCode.PROTOCOL_ERROR, false],
+  ])('maps %s to a SubAgentError', async (_, mcpCode, code, retryable) => {
+    const client = await connect(failingServer(() => new McpError(mcpCode, 'refused')));
+
+    const error = await rejection(client.callTool('any'));
+
+    expect(error).toMatchObject({ code, retryable });
+    expect(error.details).toMatchObject({ operation: 'tool:any' });
+  });
+
+  it('keeps the MCP error code of unmapped errors', async () => {
+    const client = await connect(new McpServer({ name: 'empty', version: '1.0.0' }));
+
+    const error = await rejection(client.listTools());
+
+    expect(error.code).toBe(ErrorCode.PROTOCOL_ERROR);
+    expect(error.details).toEqual({ operation: 'tools/list', mcpCode: McpErrorCode.MethodNotFound });
+  });
+
+  it('fails calls that exceed their timeout as retryable timeouts', async () => {
+    const client = await connect(failingServer(() => new Promise(() => {})));
+
+    const error = await rejection(client.callTool('slow', {}, { timeout: 20 }));
+
+    expect(error).toMatchObject({ code: ErrorCode.TIMEOUT, retryable: true });
+  });
+
+  it('fails cancelled calls as not retryable', async () => {
+    const client = await connect(failingServer(() => new Promise(() => {})));
+    const controller = new AbortController();
+
+    const call = client.callTool('slow', {}, { signal: controller.signal });
+    controller.abort();
+
+    expect(await rejection(call)).toMatchObject({ code: ErrorCode.CANCELLED, retryable: false });
+  });
+
+  it('fails calls cut off by a closed connection as retryable', async () => {
+    const server = failingServer(() => new Promise(() => {}));
+    const client = await connect(server);
+
+    const call = client.callTool('slow');
+    await new Promise((resolve) => setTimeout(resolve, 10));
+    await server.close();
+
+    expect(await rejection(call)).toMatchObject({ code: ErrorCode.CONNECTION_FAILED, retryable: true });
+  });
+});
+
+describe('typed tool proxy', () => {
+  let calls: unknown[];
+  const schemas = {
+    add: {
+      input: z.object({ a: z.number(), b: z.number().default(0) }),
+      output: z.object({ sum: z.number() }),
+    },
+    broken: {
+      input: z.object({}),
+      output: z.object({ sum: z.number() }),
+    },
+    fail: {
+      input: z.object({}),
+    },
+  };
+
+  async function connectTyped(credentials?: string) {
+    calls = [];
+    const server = new McpServer({ name: 'math', version: '1.0.0' });
+    registerTools(server, [
+      createToolHandler({
+        name: 'add',
+        description: 'Adds numbers',
+        inputSchema: z.object({ a: z.number(), b: z.number() }),
+        handler: async (input) => {
+          calls.push(input);
+          return { sum: input.a + input.b };
+        },
+      }),
+      createToolHandler({
+        name: 'broken',
+        description: 'Returns the wrong shape',
+        inputSchema: z.object({}),
+        handler: async () => ({ total: 1 }),
+      }),
+      createToolHandler({
+        name: 'fail',
+        description: 'Always fails',
+        inputSchema: z.object({}),
+        handler: async () => {
+          throw new SubAgentError('not here', ErrorCode.NOT_FOUND, { id: 7 });
+        },
+      }),
+    ], createLogger('silent'));
+    return connect(server, { schemas, credentials });
+  }
+
+  it('passes parsed arguments and returns the parsed output', async () => {
+    const client = await connectTyped();
+
+    const result = await client.tools.add({ a: 2 });
+
+    expect(result).toEqual({ sum: 2 });
+    expect(calls).toEqual([{ a: 2, b: 0 }]);
+  });
+
+  it('rejects invalid input before calling the tool', async () => {
+    const client = await connectTyped();
+
+    const error = await rejection(client.tools.add({ a: 'two' } as unknown as { a: number }));
+
+    expect(error.code).toBe(ErrorCode.INVALID_INPUT);
+    expect(error.details).toMatchObject({ tool: 'add' });
+    expect(calls).toEqual([]);
+  });
+
+  it('rejects output that does not match the schema', async () => {
+    const client = await connectTyped();
+
+    const error = await rejection(client.tools.broken({}));
+
+    expect(error.code).toBe(ErrorCode.VALIDATION_FAILED);
+    expect(error.details).toMatchObject({ tool: 'broken' });
+  });
+
+  it('propagates remote errors with their code and details', async () => {
+    const client = await connectTyped();
+
+    const error = await rejection(client.tools.fail({}));
+
+    expect(error).toMatchObject({ message: 'not here', code: ErrorCode.NOT_FOUND, retryable: false });
+    expect(error.details).toMatchObject({ id: 7, tool: 'fail', remoteCode: ErrorCode.NOT_FOUND });
+  });
+});
@@ -0,0 +1,386 @@
+import { Client } from '@modelcontextprotocol/sdk/client/index.js';
+import { StdioClientTransport } from '@modelcontextprotocol/sdk/client/stdio.js';
+import { StreamableHTTPClientTransport } from '@modelcontextprotocol/sdk/client/streamableHttp.js';
+import type { Transport } from '@modelcontextprotocol/sdk/shared/transport.js';
+import {
+  ErrorCode as McpErrorCode,
+  McpError,
+  type CallToolResult,
+  type Tool,
+} from '@modelcontextprotocol/sdk/types.js';
+import type { ZodType, z } from 'zod';
+import type { ProgressUpdate, ToolResult } from '../types/index.js';
+import { SubAgentError, ErrorCode, formatError } from '../utils/errors.js';
+import { validateSchema } from '../utils/validation.js';
+import { getActiveSpan } from '../utils/tracing.js';
+
+/**
+ * How to reach a sub-agent
+ */
+export type SubAgentClientTransport =
+  | {
+      type: 'stdio';
+      command: string;
+      args?: string[];
+      env?: Record<string, string>;
+      cwd?: string;
+    }
+  | {
+      type: 'http';
+      /**
+       * Streamable HTTP endpoint, e.g. http://localhost:3000/mcp
+       */
+      url: string | URL;
+      headers?: Record<string, string>;
+    }
+  | {
+      /**
+       * Any MCP transport, e.g. an InMemoryTransport in tests
+       */
+      type: 'custom';
+      transport: Transport;
+    };
+
+/**
+ * Input and optional output schema of a remote tool
+ */
+export interface RemoteToolSchema {
+  input: ZodType;
+  output?: ZodType;
+}
+
+/**
+ * Schemas of the tools a sub-agent exposes, by tool name
+ */
+export type ToolSchemaSet = Record<string, RemoteToolSchema>;
+
+/**
+ * Typed functions calling the tools of a schema set
+ */
+export type ToolProxy<S extends ToolSchemaSet> = {
+  [K in keyof S]: (
+    input: z.input<S[K]['input']>,
+    options?: ClientCallOptions
+  ) => Promise<S[K]['output'] extends ZodType ? z.output<S[K]['output']> : unknown>;
+};
+
+/**
+ * Options for a sub-agent client
+ */
+export interface SubAgentClientOptions<S extends ToolSchemaSet = Record<never, RemoteToolSchema>> {
+  transport: SubAgentClientTransport;
+  /**
+   * Client name reported to the sub-agent (default: xorng-client)
+   */
+  name?: string;
+  version?: string;
+  /**
+   * Default timeout of a call in milliseconds (default: 60000)
+   */
+  timeout?: number;
+  /**
+   * Tool schemas for the typed `tools` proxy
+   */
+  schemas?: S;
+  /**
+   * API key or token to authenticate with; sent as a Bearer Authorization
+   * header over HTTP and in the request `_meta` otherwise
+   */
+  credentials?: string;
+}
+
+/**
+ * Options for a single call
+ */
+export interface ClientCallOptions {
+  signal?: AbortSignal;
+  timeout?: number;
+  onProgress?: (update: ProgressUpdate) => void;
+  /**
+   * W3C traceparent to send (default: the active span's)
+   */
+  traceparent?: string;
+}
+
+/**
+ * MCP client for calling another sub-agent
+ *
+ * Tool failures are mapped back to a ToolResult, or to a SubAgentError by
+ * invoke() and the typed proxy, keeping the remote error code and
+ * retryability. Connection and protocol failures throw a SubAgentError.
+ */
+export class SubAgentClient<S extends ToolSchemaSet = Record<never, RemoteToolSchema>> {
+  /**
+   * Typed functions for the tools in `schemas`
+   */
+  readonly tools: ToolProxy<S>;
+
+  private options: SubAgentClientOptions<S>;
+  private client: Client;
+  private connected = false;
+  private transport?: Transport;
+
+  constructor(options: SubAgentClientOptions<S>) {
+    this.options = options;
+    this.client = new Client({
+      name: options.name ?? 'xorng-client',
+      version: options.version ?? '1.0.0',
+    });
+    this.tools = this.createProxy(options.schemas ?? ({} as S));
+  }
+
+  /**
+   * Create a client and connect it
+   */
+  static async connect<S extends ToolSchemaSet = Record<never, RemoteToolSchema>>(
+    options: SubAgentClientOptions<S>
+  ): Promise<SubAgentClient<S>> {
+    const client = new SubAgentClient(options);
+    await client.connect();
+    return client;
+  }
+
+  /**
+   * Spawn or connect to the sub-agent
+   */
+  async connect(): Promise<void> {
+    if (this.connected) {
+      return;
+    }
+    try {
+      const transport = this.createTransport();
+      await this.client.connect(transport);
+      this.transport = transport;
+      this.connected = true;
+    } catch (error) {
+      throw new SubAgentError(
+        `Failed to connect to sub-agent: ${formatError(error).message}`,
+        ErrorCode.CONNECTION_FAILED,
+        { transport: this.options.transport.type },
+        true
+      );
+    }
+  }
+
+  /**
+   * List the sub-agent's tools
+   */
+  async listTools(): Promise<Tool[]> {
+    try {
+      return (await this.client.listTools()).tools;
+    } catch (error) {
+      throw toClientError(error, 'tools/list');
+    }
+  }
+
+  /**
+   * Call a tool
+   *
+   * Tool failures resolve to a failed ToolResult with `code` and
+   * `retryable` in its metadata, plus `retryAfterMs` when rate limited and
+   * the remote error `details` when it reported any.
+   */
+  async callTool(
+    name: string,
+    input: Record<string, unknown> = {},
+    options: ClientCallOptions = {}
+  ): Promise<ToolResult> {
+    const traceparent = options.traceparent ?? getActiveSpan()?.traceparent;
+    const authorization = this.options.transport.type !== 'http' && this.options.credentials
+      ? `Bearer ${this.options.credentials}`
+      : undefined;
+    let result: CallToolResult;
+    try {
+      result = await this.client.callTool(
+        {
+          name,
+          arguments: input,
+          ...((traceparent || authorization) && {
+            _meta: {
+              ...(traceparent && { traceparent }),
+              ...(authorization && { authorization }),
+            },
+          }),
+        },
+        undefined,
+        {
+          signal: options.signal,
+          timeout: options.timeout ?? this.options.timeout,
+          onprogress: options.onProgress
+            && ((progress) => options.onProgress?.({
+              progress: progress.progress,
+              total: progress.total,
+              message: progress.message,
+            })),
+        }
+      ) as CallToolResult;
+    } catch (error) {
+      throw toClientError(error, `tool:${name}`, options.signal);
+    }
+
+    const payload = result.structuredContent ?? decodeContent(result);
+    if (!result.isError) {
+      return { success: true, data: payload };
+    }
+
+    const failure = (typeof payload === 'object' && payload !== null ? payload : { error: payload }) as {
+      error?: unknown;
+      code?: unknown;
+      retryable?: unknown;
+      retryAfterMs?: unknown;
+      details?: unknown;
+    };
+    return {
+      success: false,
+      error: typeof failure.error === 'string' ? failure.error : `Tool '${name}' failed`,
+      metadata: {
+        code: typeof failure.code === 'string' ? failure.code : ErrorCode.PROCESSING_FAILED,
+        retryable: failure.retryable === true,
+        ...(typeof failure.retryAfterMs === 'number' && { retryAfterMs: failure.retryAfterMs }),
+        ...(typeof failure.details === 'object' && failure.details !== null && { details: failure.details }),
+      },
+    };
+  }
+
+  /**
+   * Call a tool and return its data, throwing a SubAgentError on failure
+   */
+  async invoke<T = unknown>(
+    name: string,
+    input: Record<string, unknown> = {},
+    options: ClientCallOptions = {}
+  ): Promise<T> {
+    const result = await this.callTool(name, input, options);
+    if (!result.success) {
+      const code = result.metadata?.['code'];
+      const retryAfterMs = result.metadata?.['retryAfterMs'];
+      const details = result.metadata?.['details'] as Record<string, unknown> | undefined;
+      throw new SubAgentError(
+        result.error ?? `Tool '${name}' failed`,
+        Object.values(ErrorCode).includes(code as ErrorCode) ? code as ErrorCode : ErrorCode.PROCESSING_FAILED,
+        { ...details, tool: name, remoteCode: code, ...(retryAfterMs !== undefined && { retryAfterMs }) },
+        result.metadata?.['retryable'] === true
+      );
+    }
+    return result.data as T;
+  }
+
+  /**
+   * Close the connection, stopping a spawned sub-agent or ending the HTTP
+   * session
+   */
+  async close(): Promise<void> {
+    const transport = this.transport;
+    this.connected = false;
+    this.transport = undefined;
+    if (transport instanceof StreamableHTTPClientTransport) {
+      // Best effort: a server that is gone expires the session itself
+      await transport.terminateSession().catch(() => {});
+    }
+    await this.client.close();
+  }
+
+  private createTransport(): Transport {
+    const transport = this.options.transport;
+    if (transport.type === 'custom') {
+      return transport.transport;
+    }
+    if (transport.type === 'http') {
+      const headers = {
+        ...transport.headers,
+        ...(this.options.credentials && { Authorization: `Bearer ${this.options.credentials}` }),
+      };
+      return new StreamableHTTPClientTransport(new URL(transport.url), {
+        requestInit: Object.keys(headers).length > 0 ? { headers } : undefined,
+      });
+    }
+    return new StdioClientTransport({
+      command: transport.command,
+      args: transport.args,
+      env: transport.env,
+      cwd: transport.cwd,
+    });
+  }
+
+  /**
+   * Build typed functions that validate input and output locally
+   */
+  private createProxy(schemas: S): ToolProxy<S> {
+    const proxy: Record<string, (input: unknown, options?: ClientCallOptions) => Promise<unknown>> = {};
+    for (const [name, schema] of Object.entries(schemas)) {
+      proxy[name] = async (input, options) => {
+        const inputResult = validateSchema(schema.input, input);
+        if (!inputResult.success) {
+          throw new SubAgentError(
+            `Invalid input for '${name}': ${inputResult.errors.join(', ')}`,
+            ErrorCode.INVALID_INPUT,
+            { tool: name, errors: inputResult.errors }
+          );
+        }
+
+        const data = await this.invoke(name, inputResult.data as Record<string, unknown>, options);
+        if (!schema.output) {
+          return data;
+        }
+        const outputResult = validateSchema(schema.output, data);
+        if (!outputResult.success) {
+          throw new SubAgentError(
+            `Output validation failed for '${name}': ${outputResult.errors.join(', ')}`,
+            ErrorCode.VALIDATION_FAILED,
+            { tool: name, errors: outputResult.errors }
+          );
+        }
+        return outputResult.data;
+      };
+    }
+    return proxy as ToolProxy<S>;
+  }
+}
+
+/**
+ * Decode the JSON text content of a tool result, falling back to the raw text
+ */
+export function decodeContent(result: CallToolResult): unknown {
+  const first = result.content[0];
+  if (!first || first.type !== 'text') {
+    return undefined;
+  }
+  try {
+    return JSON.parse(first.text);
+  } catch {
+    return first.text;
+  }
+}
+
+/**
+ * Map a transport or protocol failure to a SubAgentError
+ *
+ * The SDK reports an aborted request as a request timeout, so the caller's
+ * signal decides whether a failure was a cancellation.
+ */
+function toClientError(error: unknown, operation: string, signal?: AbortSignal): SubAgentError {
+  if (error instanceof SubAgentError) {
+    return error;
+  }
+  if (signal?.aborted) {
+    return new SubAgentError(formatError(error).message, ErrorCode.CANCELLED, { operation });
+  }
+  if (error instanceof McpError) {
+    switch (error.code) {
+      case McpErrorCode.RequestTimeout:
+        return new SubAgentError(error.message, ErrorCode.TIMEOUT, { operation }, true);
+      case McpErrorCode.ConnectionClosed:
+        return new SubAgentError(error.message, ErrorCode.CONNECTION_FAILED, { operation }, true);
+      case McpErrorCode.InvalidParams:
+        return new SubAgentError(error.message, ErrorCode.INVALID_INPUT, { operation });
+      default:
+        return new SubAgentError(error.message, ErrorCode.PROTOCOL_ERROR, { operation, mcpCode: error.code });
+    }
+  }
+
+  const formatted = formatError(error);
+  if (formatted.code === ErrorCode.CANCELLED) {
+    return new SubAgentError(formatted.message, ErrorCode.CANCELLED, { operation });
+  }
+  return new SubAgentError(formatted.message, ErrorCode.CONNECTION_FAILED, { operation }, true);
+}
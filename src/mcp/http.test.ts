@@ -0,0 +1,309 @@
+import { request } from 'node:http';
+import { describe, it, expect, afterEach, vi } from 'vitest';
+import { McpServer } from '@modelcontextprotocol/sdk/server/mcp.js';
+import { Client } from '@modelcontextprotocol/sdk/client/index.js';
+import { StreamableHTTPClientTransport } from '@modelcontextprotocol/sdk/client/streamableHttp.js';
+import { StreamableHTTPServerTransport } from '@modelcontextprotocol/sdk/server/streamableHttp.js';
+import { LATEST_PROTOCOL_VERSION } from '@modelcontextprotocol/sdk/types.js';
+import { z } from 'zod';
+import { HttpServerTransport, type HttpTransportOptions } from './http.js';
+import { createToolHandler } from './tools.js';
+import { BaseSubAgent } from '../base/BaseSubAgent.js';
+import { createLogger } from '../utils/logger.js';
+import type { HealthCheckDefinition, ToolDefinition } from '../types/index.js';
+
+const transports: HttpServerTransport[] = [];
+const clients: Client[] = [];
+
+async function listen(
+  options: Partial<HttpTransportOptions> = {},
+  createServer = () => new McpServer({ name: 'test', version: '1.0.0' })
+): Promise<HttpServerTransport> {
+  const transport = new HttpServerTransport(
+    { type: 'http', port: 0, ...options },
+    createServer,
+    createLogger('silent')
+  );
+  transports.push(transport);
+  await transport.start();
+  return transport;
+}
+
+async function initialize(url: URL): Promise<Response> {
+  const response = await fetch(url, {
+    method: 'POST',
+    headers: { 'Content-Type': 'application/json', Accept: 'application/json, text/event-stream' },
+    body: JSON.stringify({
+      jsonrpc: '2.0',
+      id: 1,
+      method: 'initialize',
+      params: {
+        protocolVersion: LATEST_PROTOCOL_VERSION,
+        capabilities: {},
+        clientInfo: { name: 'test-client', version: '1.0.0' },
+      },
+    }),
+  });
+  await response.text();
+  return response;
+}
+
+/**
+ * POST an initialize request with the given headers; fetch cannot set Host
+ */
+function initializeWithHeaders(url: URL, headers: Record<string, string>): Promise<number> {
+  const body = JSON.stringify({
+    jsonrpc: '2.0',
+    id: 1,
+    method: 'initialize',
+    params: {
+      protocolVersion: LATEST_PROTOCOL_VERSION,
+      capabilities: {},
+      clientInfo: { name: 'test-client', version: '1.0.0' },
+    },
+  });
+  return new Promise((resolve, reject) => {
+    const req = request(
+      url,
+      {
+        method: 'POST',
+        headers: {
+          'Content-Type': 'application/json',
+          Accept: 'application/json, text/event-stream',
+          ...headers,
+        },
+      },
+      (res) => {
+        res.resume();
+        res.on('end', () => resolve(res.statusCode!));
+      }
+    );
+    req.on('error', reject);
+    req.end(body);
+  });
+}
+
+class HealthAgent extends BaseSubAgent {
+  constructor(checks: HealthCheckDefinition[], tools: ToolDefinition[] = []) {
+    super(
+      { name: 'health-agent', version: '1.0.0', description: 'Health agent', capabilities: [] },
+      { logLevel: 'silent' }
+    );
+    checks.forEach((check) => this.registerHealthCheck(check));
+    tools.forEach((tool) => this.registerTool(tool));
+  }
+}
+
+/**
+ * Get the status codes of the health, liveness and readiness probes
+ */
+async function probe(base: URL): Promise<number[]> {
+  const responses = await Promise.all(
+    ['/health', '/health/live', '/health/ready'].map((path) => fetch(new URL(path, base)))
+  );
+  await Promise.all(responses.map((response) => response.text()));
+  return responses.map((response) => response.status);
+}
+
+const sleep = (ms: number) => new Promise((resolve) => setTimeout(resolve, ms));
+
+afterEach(async () => {
+  await Promise.all(clients.splice(0).map((client) => client.close()));
+  await Promise.all(transports.splice(0).map((transport) => transport.close()));
+});
+
+describe('HttpServerTransport', () => {
+  it('serves health checks', async () => {
+    const transport = await listen({
+      healthCheck: async () => ({
+        healthy: false,
+        live: true,
+        ready: false,
+        version: '1.0.0',
+        uptime: 0,
+        capabilities: [],
+      }),
+    });
+    const base = transport.url!;
+
+    expect((await fetch(new URL('/health', base))).status).toBe(503);
+    expect((await fetch(new URL('/health/live', base))).status).toBe(200);
+    expect((await fetch(new URL('/health/ready', base))).status).toBe(503);
+  });
+
+  it('keeps degraded agents in service', async () => {
+    const agent = new HealthAgent([{
+      name: 'cache',
+      critical: false,
+      check: async () => {
+        throw new Error('connection refused');
+      },
+    }]);
+    await agent.start();
+    try {
+      const transport = await listen({ healthCheck: () => agent.checkHealth() });
+
+      expect(await probe(transport.url!)).toEqual([200, 200, 200]);
+    } finally {
+      await agent.stop();
+    }
+  });
+
+  it('reports agents as live but not ready while draining', async () => {
+    let finish: () => void = () => {};
+    const agent = new HealthAgent([], [createToolHandler({
+      name: 'block',
+      description: 'Runs until released',
+      inputSchema: z.object({}),
+      handler: () => new Promise<string>((resolve) => {
+        finish = () => resolve('done');
+      }),
+    })]);
+    await agent.start();
+    const transport = await listen({ healthCheck: () => agent.checkHealth() });
+    expect(await probe(transport.url!)).toEqual([200, 200, 200]);
+
+    const call = agent.executeTool('block', {});
+    await sleep(10);
+    const stopped = agent.stop();
+    const draining = await probe(transport.url!);
+    finish();
+    await Promise.all([call, stopped]);
+
+    expect(draining).toEqual([503, 200, 503]);
+    expect(await probe(transport.url!)).toEqual([503, 503, 503]);
+  });
+
+  it('rejects bodies over maxBodyBytes', async () => {
+    const transport = await listen({ maxBodyBytes: 16 });
+    const response = await fetch(transport.url!, { method: 'POST', body: 'x'.repeat(100) });
+
+    expect(response.status).toBe(413);
+  });
+
+  it('closes sessions without open requests after the idle timeout', async () => {
+    const transport = await listen({ sessionIdleTimeout: 50 });
+    const response = await initialize(transport.url!);
+    const sessionId = response.headers.get('mcp-session-id')!;
+    expect(transport.sessionCount).toBe(1);
+
+    await sleep(150);
+    expect(transport.sessionCount).toBe(0);
+
+    const expired = await fetch(transport.url!, {
+      method: 'POST',
+      headers: {
+        'Content-Type': 'application/json',
+        Accept: 'application/json, text/event-stream',
+        'mcp-session-id': sessionId,
+      },
+      body: JSON.stringify({ jsonrpc: '2.0', id: 2, method: 'tools/list' }),
+    });
+    expect(expired.status).toBe(404);
+  });
+
+  it('keeps sessions open without an idle timeout', async () => {
+    const transport = await listen({ sessionIdleTimeout: 0 });
+    await initialize(transport.url!);
+
+    await sleep(50);
+    expect(transport.sessionCount).toBe(1);
+  });
+
+  it('keeps sessions of connected clients open', async () => {
+    const transport = await listen({ sessionIdleTimeout: 50 });
+    const client = new Client({ name: 'test-client', version: '1.0.0' });
+    clients.push(client);
+    await client.connect(new StreamableHTTPClientTransport(transport.url!));
+
+    await sleep(150);
+    await expect(client.ping()).resolves.toBeDefined();
+    expect(transport.sessionCount).toBe(1);
+  });
+
+  it('refuses sessions over maxSessions', async () => {
+    const transport = await listen({ maxSessions: 1 });
+
+    expect((await initialize(transport.url!)).status).toBe(200);
+    expect((await initialize(transport.url!)).status).toBe(503);
+    expect(transport.sessionCount).toBe(1);
+  });
+
+  it('refuses requests with a Host header other than the bound address', async () => {
+    const transport = await listen();
+    const url = transport.url!;
+
+    expect(await initializeWithHeaders(url, { Host: 'attacker.example:' + url.port })).toBe(403);
+    expect(await initializeWithHeaders(url, { Host: `localhost:${url.port}` })).toBe(200);
+    expect(await initializeWithHeaders(url, {})).toBe(200);
+    expect(transport.sessionCount).toBe(2);
+  });
+
+  it('refuses requests from other origins', async () => {
+    const transport = await listen();
+    const url = transport.url!;
+
+    expect(await initializeWithHeaders(url, { Origin: 'http://attacker.example' })).toBe(403);
+    expect(await initializeWithHeaders(url, { Origin: url.origin })).toBe(200);
+  });
+
+  it('accepts configured hosts and origins', async () => {
+    const transport = await listen({
+      allowedHosts: ['agent.internal'],
+      allowedOrigins: ['https://app.example'],
+    });
+    const url = transport.url!;
+
+    expect(await initializeWithHeaders(url, {})).toBe(403);
+    expect(
+      await initializeWithHeaders(url, { Host: 'agent.internal', Origin: 'https://app.example' })
+    ).toBe(200);
+    expect(
+      await initializeWithHeaders(url, { Host: 'agent.internal', Origin: 'http://agent.internal' })
+    ).toBe(403);
+  });
+
+  it('skips the Host and Origin checks when disabled', async () => {
+    const transport = await listen({ dnsRebindingProtection: false });
+
+    expect(
+      await initializeWithHeaders(transport.url!, {
+        Host: 'attacker.example',
+        Origin: 'http://attacker.example',
+      })
+    ).toBe(200);
+  });
+
+  it('closes the session server when initialize fails', async () => {
+    const servers: McpServer[] = [];
+    const transport = await listen({}, () => {
+      const server = new McpServer({ name: 'test', version: '1.0.0' });
+      servers.push(server);
+      return server;
+    });
+
+    // Without text/event-stream in Accept the SDK refuses the request
+    expect(await initializeWithHeaders(transport.url!, { Accept: 'application/json' })).toBe(406);
+    expect(servers).toHaveLength(1);
+    expect(servers[0]!.isConnected()).toBe(false);
+    expect(transport.sessionCount).toBe(0);
+  });
+
+  it('keeps broadcasting when sending to one session fails', async () => {
+    const transport = await listen();
+    await initialize(transport.url!);
+    await initialize(transport.url!);
+    const send = vi
+      .spyOn(StreamableHTTPServerTransport.prototype, 'send')
+      .mockRejectedValueOnce(new Error('session gone'));
+
+    try {
+      await expect(
+        transport.send({ jsonrpc: '2.0', method: 'notifications/tools/list_changed' })
+      ).resolves.toBeUndefined();
+      expect(send).toHaveBeenCalledTimes(2);
+    } finally {
+      send.mockRestore();
+    }
+  });
+});
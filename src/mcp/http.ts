@@ -0,0 +1,502 @@
+import { createServer, type IncomingMessage, type Server, type ServerResponse } from 'node:http';
+import type { AddressInfo } from 'node:net';
+import type { McpServer } from '@modelcontextprotocol/sdk/server/mcp.js';
+import { StreamableHTTPServerTransport } from '@modelcontextprotocol/sdk/server/streamableHttp.js';
+import { SSEServerTransport } from '@modelcontextprotocol/sdk/server/sse.js';
+import type { Transport } from '@modelcontextprotocol/sdk/shared/transport.js';
+import type { AuthInfo } from '@modelcontextprotocol/sdk/server/auth/types.js';
+import { isInitializeRequest, isJSONRPCNotification, type JSONRPCMessage } from '@modelcontextprotocol/sdk/types.js';
+import type { HealthStatus } from '../types/index.js';
+import type { Logger } from '../utils/logger.js';
+import type { MetricsRegistry } from '../utils/metrics.js';
+import { formatError } from '../utils/errors.js';
+import { bearerCredentials } from '../utils/auth.js';
+
+/**
+ * Options for serving MCP over HTTP
+ */
+export interface HttpTransportOptions {
+  type: 'http';
+  host?: string;
+  port?: number;
+  /**
+   * Streamable HTTP endpoint path (default: /mcp)
+   */
+  path?: string;
+  /**
+   * Serve the legacy HTTP+SSE transport on /sse and /messages (default: true)
+   */
+  enableSse?: boolean;
+  /**
+   * Health check backing the /health, /health/live and /health/ready
+   * endpoints
+   */
+  healthCheck?: () => Promise<HealthStatus>;
+  /**
+   * Registry exposed in Prometheus format on /metrics
+   */
+  metrics?: MetricsRegistry;
+  /**
+   * Largest accepted request body in bytes (default: 4 MiB)
+   */
+  maxBodyBytes?: number;
+  /**
+   * Close sessions without open requests for this long, in milliseconds
+   * (default: 30 minutes, 0 to keep them until the client ends them)
+   */
+  sessionIdleTimeout?: number;
+  /**
+   * Open sessions at which new ones are refused with status 503
+   * (default: 1000)
+   */
+  maxSessions?: number;
+  /**
+   * Reject MCP requests whose Host or Origin header is not allowed, so a web
+   * page cannot reach the server through DNS rebinding (default: true)
+   */
+  dnsRebindingProtection?: boolean;
+  /**
+   * Accepted Host headers, as `host:port` (default: the bound address and
+   * port, and `localhost` with the port when bound to loopback; any host
+   * when bound to all interfaces)
+   */
+  allowedHosts?: string[];
+  /**
+   * Accepted Origin headers (default: `http://` followed by an accepted
+   * host); requests without an Origin header, i.e. from non-browser
+   * clients, are accepted
+   */
+  allowedOrigins?: string[];
+}
+
+interface Session {
+  transport: StreamableHTTPServerTransport | SSEServerTransport;
+  server: McpServer;
+  /**
+   * Requests whose responses, including event streams, are still open
+   */
+  openRequests: number;
+  idleTimer?: NodeJS.Timeout;
+}
+
+const SSE_PATH = '/sse';
+const SSE_MESSAGES_PATH = '/messages';
+const HEALTH_PATH = '/health';
+const LIVENESS_PATH = '/health/live';
+const READINESS_PATH = '/health/ready';
+const METRICS_PATH = '/metrics';
+const DEFAULT_MAX_BODY_BYTES = 4 * 1024 * 1024;
+const DEFAULT_SESSION_IDLE_TIMEOUT = 30 * 60 * 1000;
+const DEFAULT_MAX_SESSIONS = 1000;
+const LOOPBACK_ADDRESSES = new Set(['127.0.0.1', '::1', '::ffff:127.0.0.1']);
+const WILDCARD_ADDRESSES = new Set(['0.0.0.0', '::']);
+
+/**
+ * Thrown when a request body exceeds maxBodyBytes
+ */
+class PayloadTooLargeError extends Error {
+  constructor(readonly limit: number) {
+    super(`Request body exceeds ${limit} bytes`);
+    this.name = 'PayloadTooLargeError';
+  }
+}
+
+/**
+ * HTTP transport for MCP servers
+ *
+ * Serves Streamable HTTP (with the legacy SSE transport as fallback), a
+ * plain /health endpoint with /health/live and /health/ready probes and,
+ * when given a registry, Prometheus /metrics. Every client session gets its
+ * own McpServer from the session factory; connecting the primary server to
+ * this transport starts and stops the HTTP listener and broadcasts its
+ * notifications to all open sessions. Credentials from the Authorization
+ * (Bearer) or X-API-Key header are handed to tool calls for authentication.
+ *
+ * Clients that go away without ending their session leave it open, so
+ * sessions without open requests are closed after `sessionIdleTimeout`, and
+ * new sessions are refused once `maxSessions` are open. Requests to the MCP
+ * endpoints with a Host or Origin header other than the server's own are
+ * refused with status 403.
+ */
+export class HttpServerTransport implements Transport {
+  onclose?: () => void;
+  onerror?: (error: Error) => void;
+  onmessage?: (message: JSONRPCMessage) => void;
+
+  private options: HttpTransportOptions;
+  private createSessionServer: () => McpServer;
+  private logger: Logger;
+  private httpServer?: Server;
+  private sessions = new Map<string, Session>();
+  private allowedHosts?: Set<string>;
+  private allowedOrigins?: Set<string>;
+
+  constructor(
+    options: HttpTransportOptions,
+    createSessionServer: () => McpServer,
+    logger: Logger
+  ) {
+    this.options = options;
+    this.createSessionServer = createSessionServer;
+    this.logger = logger;
+  }
+
+  /**
+   * Address the server is listening on
+   */
+  get address(): AddressInfo | undefined {
+    const address = this.httpServer?.address();
+    return address && typeof address === 'object' ? address : undefined;
+  }
+
+  /**
+   * URL of the Streamable HTTP endpoint
+   */
+  get url(): URL | undefined {
+    const address = this.address;
+    if (!address) return undefined;
+    const host = address.family === 'IPv6' ? `[${address.address}]` : address.address;
+    return new URL(`http://${host}:${address.port}${this.options.path ?? '/mcp'}`);
+  }
+
+  /**
+   * Number of open client sessions
+   */
+  get sessionCount(): number {
+    return this.sessions.size;
+  }
+
+  async start(): Promise<void> {
+    if (this.httpServer) {
+      throw new Error('HTTP transport already started');
+    }
+
+    const httpServer = createServer((req, res) => {
+      this.handleHttpRequest(req, res).catch((error) => {
+        if (error instanceof SyntaxError) {
+          sendJsonRpcError(res, 400, -32700, 'Parse error');
+          return;
+        }
+        if (error instanceof PayloadTooLargeError) {
+          this.logger.warn({ limit: error.limit }, 'Request body too large');
+          sendJsonRpcError(res, 413, -32600, error.message);
+          return;
+        }
+        this.logger.error({ error: formatError(error) }, 'HTTP request failed');
+        if (!res.headersSent) {
+          sendJsonRpcError(res, 500, -32603, 'Internal server error');
+        }
+      });
+    });
+    this.httpServer = httpServer;
+
+    await new Promise<void>((resolve, reject) => {
+      httpServer.once('error', reject);
+      httpServer.listen(this.options.port ?? 3000, this.options.host ?? '127.0.0.1', () => {
+        httpServer.off('error', reject);
+        resolve();
+      });
+    });
+    this.setAllowedHosts();
+
+    this.logger.info({ url: this.url?.toString() }, 'MCP HTTP transport listening');
+  }
+
+  async send(message: JSONRPCMessage): Promise<void> {
+    if (!isJSONRPCNotification(message)) {
+      throw new Error('Only notifications can be sent without a session');
+    }
+    const sessions = Array.from(this.sessions.entries());
+    const results = await Promise.allSettled(
+      sessions.map(([, session]) => session.transport.send(message))
+    );
+    results.forEach((result, index) => {
+      if (result.status === 'rejected') {
+        this.logger.warn(
+          { sessionId: sessions[index]![0], method: message.method, error: formatError(result.reason) },
+          'Failed to send notification to session'
+        );
+      }
+    });
+  }
+
+  async close(): Promise<void> {
+    const sessions = Array.from(this.sessions.values());
+    this.sessions.clear();
+    sessions.forEach((session) => clearTimeout(session.idleTimer));
+    await Promise.allSettled(sessions.map((session) => session.server.close()));
+
+    const httpServer = this.httpServer;
+    this.httpServer = undefined;
+    if (httpServer) {
+      httpServer.closeAllConnections();
+      await new Promise<void>((resolve) => httpServer.close(() => resolve()));
+    }
+
+    this.onclose?.();
+  }
+
+  private async handleHttpRequest(req: IncomingMessage, res: ServerResponse): Promise<void> {
+    const url = new URL(req.url ?? '/', 'http://localhost');
+    const mcpPath = this.options.path ?? '/mcp';
+    const enableSse = this.options.enableSse ?? true;
+
+    if (url.pathname === HEALTH_PATH && req.method === 'GET') {
+      await this.handleHealth(res, (health) => health.healthy);
+    } else if (url.pathname === LIVENESS_PATH && req.method === 'GET') {
+      await this.handleHealth(res, (health) => health.live ?? health.healthy);
+    } else if (url.pathname === READINESS_PATH && req.method === 'GET') {
+      await this.handleHealth(res, (health) => health.ready ?? health.healthy);
+    } else if (this.options.metrics && url.pathname === METRICS_PATH && req.method === 'GET') {
+      res.writeHead(200, { 'Content-Type': 'text/plain; version=0.0.4; charset=utf-8' });
+      res.end(this.options.metrics.toPrometheus());
+    } else if (url.pathname === mcpPath) {
+      if (this.allowsOrigin(req, res)) {
+        await this.handleStreamableHttp(withCredentials(req), res);
+      }
+    } else if (enableSse && url.pathname === SSE_PATH && req.method === 'GET') {
+      if (this.allowsOrigin(req, res)) {
+        await this.handleSseConnect(res);
+      }
+    } else if (enableSse && url.pathname === SSE_MESSAGES_PATH && req.method === 'POST') {
+      if (this.allowsOrigin(req, res)) {
+        await this.handleSseMessage(withCredentials(req), res, url.searchParams.get('sessionId'));
+      }
+    } else {
+      res.writeHead(404).end();
+    }
+  }
+
+  private async handleHealth(
+    res: ServerResponse,
+    passes: (health: Pick<HealthStatus, 'healthy' | 'live' | 'ready'>) => boolean
+  ): Promise<void> {
+    const health = this.options.healthCheck
+      ? await this.options.healthCheck()
+      : { healthy: true };
+
+    res.writeHead(passes(health) ? 200 : 503, { 'Content-Type': 'application/json' });
+    res.end(JSON.stringify(health));
+  }
+
+  private async handleStreamableHttp(req: IncomingMessage, res: ServerResponse): Promise<void> {
+    const sessionId = req.headers['mcp-session-id'];
+    const maxBytes = this.options.maxBodyBytes ?? DEFAULT_MAX_BODY_BYTES;
+    const body = req.method === 'POST' ? await readJsonBody(req, maxBytes) : undefined;
+
+    if (typeof sessionId === 'string') {
+      const session = this.sessions.get(sessionId);
+      if (!session || !(session.transport instanceof StreamableHTTPServerTransport)) {
+        sendJsonRpcError(res, 404, -32001, 'Session not found');
+        return;
+      }
+      this.trackRequest(sessionId, session, res);
+      await session.transport.handleRequest(req, res, body);
+      return;
+    }
+
+    if (req.method !== 'POST' || !isInitializeRequest(body)) {
+      sendJsonRpcError(res, 400, -32000, 'Bad Request: No valid session ID provided');
+      return;
+    }
+    if (this.refuseSession(res)) {
+      return;
+    }
+
+    const server = this.createSessionServer();
+    const transport = new StreamableHTTPServerTransport({
+      sessionIdGenerator: () => crypto.randomUUID(),
+      onsessioninitialized: (id) => {
+        const session: Session = { transport, server, openRequests: 0 };
+        this.sessions.set(id, session);
+        this.trackRequest(id, session, res);
+        this.logger.debug({ sessionId: id }, 'MCP session opened');
+      },
+    });
+    transport.onclose = () => {
+      if (transport.sessionId && this.removeSession(transport.sessionId)) {
+        this.logger.debug({ sessionId: transport.sessionId }, 'MCP session closed');
+      }
+    };
+
+    try {
+      await server.connect(transport);
+      await transport.handleRequest(req, res, body);
+    } finally {
+      // Initialization failed, so no session will ever close the server
+      if (!transport.sessionId || !this.sessions.has(transport.sessionId)) {
+        await server.close().catch((error: unknown) => {
+          this.logger.warn({ error: formatError(error) }, 'Failed to close uninitialized session');
+        });
+      }
+    }
+  }
+
+  private async handleSseConnect(res: ServerResponse): Promise<void> {
+    if (this.refuseSession(res)) {
+      return;
+    }
+    const server = this.createSessionServer();
+    const transport = new SSEServerTransport(SSE_MESSAGES_PATH, res);
+
+    const session: Session = { transport, server, openRequests: 0 };
+    this.sessions.set(transport.sessionId, session);
+    this.trackRequest(transport.sessionId, session, res);
+    transport.onclose = () => {
+      if (this.removeSession(transport.sessionId)) {
+        this.logger.debug({ sessionId: transport.sessionId }, 'SSE session closed');
+      }
+    };
+    res.on('close', () => {
+      void server.close();
+    });
+
+    await server.connect(transport);
+    this.logger.debug({ sessionId: transport.sessionId }, 'SSE session opened');
+  }
+
+  private async handleSseMessage(
+    req: IncomingMessage,
+    res: ServerResponse,
+    sessionId: string | null
+  ): Promise<void> {
+    const session = sessionId ? this.sessions.get(sessionId) : undefined;
+    if (!session || !(session.transport instanceof SSEServerTransport)) {
+      sendJsonRpcError(res, 404, -32001, 'Session not found');
+      return;
+    }
+    const maxBytes = this.options.maxBodyBytes ?? DEFAULT_MAX_BODY_BYTES;
+    this.trackRequest(sessionId!, session, res);
+    await session.transport.handlePostMessage(req, res, await readJsonBody(req, maxBytes));
+  }
+
+  /**
+   * Work out the accepted Host and Origin headers once the port is known
+   */
+  private setAllowedHosts(): void {
+    const address = this.address;
+    if (!(this.options.dnsRebindingProtection ?? true) || !address) {
+      return;
+    }
+
+    let hosts = this.options.allowedHosts;
+    if (!hosts) {
+      const port = address.port;
+      if (LOOPBACK_ADDRESSES.has(address.address)) {
+        hosts = [`127.0.0.1:${port}`, `[::1]:${port}`, `localhost:${port}`];
+      } else if (!WILDCARD_ADDRESSES.has(address.address)) {
+        hosts = [this.url!.host];
+      }
+    }
+    if (hosts) {
+      this.allowedHosts = new Set(hosts.map((host) => host.toLowerCase()));
+    }
+    const origins = this.options.allowedOrigins ?? hosts?.map((host) => `http://${host}`);
+    if (origins) {
+      this.allowedOrigins = new Set(origins.map((origin) => origin.toLowerCase()));
+    }
+  }
+
+  /**
+   * Refuse a request whose Host or Origin header is not accepted
+   */
+  private allowsOrigin(req: IncomingMessage, res: ServerResponse): boolean {
+    const host = req.headers.host?.toLowerCase();
+    if (this.allowedHosts && (!host || !this.allowedHosts.has(host))) {
+      this.logger.warn({ host }, 'Request with an unexpected Host header refused');
+      sendJsonRpcError(res, 403, -32000, `Invalid Host header: ${host ?? ''}`);
+      return false;
+    }
+    const origin = req.headers.origin?.toLowerCase();
+    if (origin && this.allowedOrigins && !this.allowedOrigins.has(origin)) {
+      this.logger.warn({ origin }, 'Request with an unexpected Origin header refused');
+      sendJsonRpcError(res, 403, -32000, `Invalid Origin header: ${origin}`);
+      return false;
+    }
+    return true;
+  }
+
+  /**
+   * Refuse a new session when the session limit is reached
+   */
+  private refuseSession(res: ServerResponse): boolean {
+    const maxSessions = this.options.maxSessions ?? DEFAULT_MAX_SESSIONS;
+    if (this.sessions.size < maxSessions) {
+      return false;
+    }
+    this.logger.warn({ sessions: this.sessions.size, maxSessions }, 'Session limit reached');
+    sendJsonRpcError(res, 503, -32000, 'Too many sessions');
+    return true;
+  }
+
+  /**
+   * Keep a session open while a response is open, then restart its idle timer
+   */
+  private trackRequest(id: string, session: Session, res: ServerResponse): void {
+    session.openRequests++;
+    clearTimeout(session.idleTimer);
+    res.once('close', () => {
+      session.openRequests--;
+      this.startIdleTimer(id, session);
+    });
+  }
+
+  private startIdleTimer(id: string, session: Session): void {
+    const idleTimeout = this.options.sessionIdleTimeout ?? DEFAULT_SESSION_IDLE_TIMEOUT;
+    clearTimeout(session.idleTimer);
+    if (idleTimeout <= 0 || session.openRequests > 0 || this.sessions.get(id) !== session) {
+      return;
+    }
+    session.idleTimer = setTimeout(() => {
+      if (this.removeSession(id)) {
+        this.logger.debug({ sessionId: id, idleTimeout }, 'Idle session expired');
+        session.server.close().catch((error: unknown) => {
+          this.logger.warn({ sessionId: id, error: formatError(error) }, 'Failed to close idle session');
+        });
+      }
+    }, idleTimeout);
+    session.idleTimer.unref();
+  }
+
+  private removeSession(id: string): boolean {
+    const session = this.sessions.get(id);
+    clearTimeout(session?.idleTimer);
+    return this.sessions.delete(id);
+  }
+}
+
+/**
+ * Read and parse a JSON request body
+ *
+ * Throws a SyntaxError for malformed JSON and a PayloadTooLargeError once
+ * the body exceeds `maxBytes`.
+ */
+async function readJsonBody(req: IncomingMessage, maxBytes: number): Promise<unknown> {
+  const chunks: Buffer[] = [];
+  let size = 0;
+  for await (const chunk of req) {
+    size += (chunk as Buffer).length;
+    if (size > maxBytes) {
+      throw new PayloadTooLargeError(maxBytes);
+    }
+    chunks.push(chunk as Buffer);
+  }
+  const text = Buffer.concat(chunks).toString('utf8');
+  return text.length === 0 ? undefined : JSON.parse(text);
+}
+
+/**
+ * Attach the request's credentials as the SDK's auth info, which it passes
+ * to request handlers as `extra.authInfo`
+ */
+function withCredentials(req: IncomingMessage): IncomingMessage & { auth?: AuthInfo } {
+  const apiKey = req.headers['x-api-key'];
+  const token = bearerCredentials(req.headers.authorization)
+    ?? (typeof apiKey === 'string' ? apiKey : undefined);
+  return Object.assign(req, token ? { auth: { token, clientId: '', scopes: [] } } : {});
+}
+
+function sendJsonRpcError(res: ServerResponse, status: number, code: number, message: string): void {
+  res.writeHead(status, { 'Content-Type': 'application/json' });
+  res.end(JSON.stringify({ jsonrpc: '2.0', error: { code, message }, id: null }));
+}
@@ -0,0 +1,190 @@
+import { EventEmitter } from 'node:events';
+import { PassThrough } from 'node:stream';
+import { describe, it, expect, afterEach, vi } from 'vitest';
+import { z } from 'zod';
+import { BaseSubAgent } from '../base/BaseSubAgent.js';
+import { createToolHandler } from './tools.js';
+import type { HttpServerTransport } from './http.js';
+import { runAgent, type AgentProcess, type RunAgentOptions, type RunningAgent } from './runner.js';
+import type { ToolDefinition } from '../types/index.js';
+
+/**
+ * Process stand-in that records exits instead of exiting
+ */
+class FakeProcess extends EventEmitter implements AgentProcess {
+  stdin = new PassThrough();
+  stdout = new PassThrough();
+  exitCode?: number | string;
+  exits: Array<number | undefined> = [];
+
+  exit(code?: number): void {
+    this.exits.push(code);
+  }
+
+  signal(signal: NodeJS.Signals): void {
+    this.emit(signal, signal);
+  }
+}
+
+class TestAgent extends BaseSubAgent {
+  failInitialize = false;
+  failShutdown = false;
+
+  constructor(tools: ToolDefinition[] = []) {
+    super(
+      { name: 'runner-agent', version: '1.0.0', description: 'Runner agent', capabilities: [] },
+      { logLevel: 'silent' }
+    );
+    tools.forEach((tool) => this.registerTool(tool));
+  }
+
+  override async initialize(): Promise<void> {
+    if (this.failInitialize) {
+      throw new Error('database unavailable');
+    }
+  }
+
+  override async shutdown(): Promise<void> {
+    if (this.failShutdown) {
+      throw new Error('flush failed');
+    }
+  }
+}
+
+const running: RunningAgent[] = [];
+
+async function run(agent: BaseSubAgent, options: RunAgentOptions = {}) {
+  const proc = new FakeProcess();
+  const result = await runAgent(agent, { logLevel: 'silent', process: proc, ...options });
+  running.push(result);
+  return { proc, result };
+}
+
+/**
+ * Tool that runs until released
+ */
+function blockingTool() {
+  let release: () => void = () => {};
+  const tool = createToolHandler({
+    name: 'block',
+    description: 'Runs until released',
+    inputSchema: z.object({}),
+    handler: () => new Promise<string>((resolve) => {
+      release = () => resolve('done');
+    }),
+  });
+  return { tool, release: () => release() };
+}
+
+afterEach(async () => {
+  // Shutdown failures are asserted by the tests that cause them
+  await Promise.allSettled(running.splice(0).map((result) => result.stop()));
+});
+
+describe('runAgent', () => {
+  it('drains calls and exits on a shutdown signal', async () => {
+    const { tool, release } = blockingTool();
+    const agent = new TestAgent([tool]);
+    const { proc } = await run(agent);
+    const call = agent.executeTool('block', {});
+    await new Promise((resolve) => setTimeout(resolve, 10));
+
+    proc.signal('SIGTERM');
+
+    expect(agent.getState()).toBe('draining');
+    expect(proc.exits).toEqual([]);
+    release();
+    expect((await call).success).toBe(true);
+    await vi.waitFor(() => expect(proc.exits).toEqual([0]));
+    expect(agent.getState()).toBe('stopped');
+    expect(proc.listenerCount('SIGTERM')).toBe(0);
+    expect(proc.listenerCount('SIGINT')).toBe(0);
+  });
+
+  it('exits immediately on a second signal while stopping', async () => {
+    const { tool, release } = blockingTool();
+    const agent = new TestAgent([tool]);
+    const { proc } = await run(agent);
+    const call = agent.executeTool('block', {});
+    await new Promise((resolve) => setTimeout(resolve, 10));
+
+    proc.signal('SIGINT');
+    proc.signal('SIGINT');
+
+    expect(proc.exits).toEqual([1]);
+    release();
+    await call;
+  });
+
+  it('listens only for the configured signals', async () => {
+    const { proc } = await run(new TestAgent(), { signals: ['SIGHUP'] });
+
+    expect(proc.listenerCount('SIGTERM')).toBe(0);
+    expect(proc.listenerCount('SIGHUP')).toBe(1);
+  });
+
+  it('stays alive after a signal when exitOnSignal is false', async () => {
+    const agent = new TestAgent();
+    const { proc, result } = await run(agent, { exitOnSignal: false });
+
+    proc.signal('SIGTERM');
+    await result.stop();
+
+    expect(agent.getState()).toBe('stopped');
+    expect(proc.exits).toEqual([]);
+  });
+
+  it('exits with code 1 when shutdown fails', async () => {
+    const agent = new TestAgent();
+    agent.failShutdown = true;
+    const { proc } = await run(agent);
+
+    proc.signal('SIGTERM');
+
+    await vi.waitFor(() => expect(proc.exits).toEqual([1]));
+  });
+
+  it('stops when stdin ends', async () => {
+    const agent = new TestAgent();
+    const { proc } = await run(agent);
+
+    proc.stdin.end();
+
+    await vi.waitFor(() => expect(agent.getState()).toBe('stopped'));
+    expect(proc.exits).toEqual([]);
+    expect(proc.listenerCount('SIGTERM')).toBe(0);
+  });
+
+  it('sets exit code 1 and cleans up when the agent fails to start', async () => {
+    const agent = new TestAgent();
+    agent.failInitialize = true;
+    const proc = new FakeProcess();
+
+    await expect(runAgent(agent, { logLevel: 'silent', process: proc })).rejects.toThrow('database unavailable');
+
+    expect(proc.exitCode).toBe(1);
+    expect(proc.exits).toEqual([]);
+    expect(proc.listenerCount('SIGTERM')).toBe(0);
+    expect(agent.getState()).toBe('stopped');
+  });
+
+  it('stops the agent when the transport fails to start', async () => {
+    const { proc: first, result } = await run(new TestAgent(), {
+      transport: { type: 'http', port: 0 },
+    });
+    const port = (result.transport as HttpServerTransport).address!.port;
+    const agent = new TestAgent();
+    const proc = new FakeProcess();
+
+    await expect(runAgent(agent, {
+      logLevel: 'silent',
+      process: proc,
+      transport: { type: 'http', port },
+    })).rejects.toThrow('EADDRINUSE');
+
+    expect(proc.exitCode).toBe(1);
+    expect(agent.getState()).toBe('stopped');
+    expect(proc.listenerCount('SIGTERM')).toBe(0);
+    expect(first.exitCode).toBeUndefined();
+  });
+});
@@ -0,0 +1,176 @@
+import type { Readable, Writable } from 'node:stream';
+import type { McpServer } from '@modelcontextprotocol/sdk/server/mcp.js';
+import type { StdioServerTransport } from '@modelcontextprotocol/sdk/server/stdio.js';
+import type { BaseSubAgent } from '../base/BaseSubAgent.js';
+import { loggerOptionsFromConfig, type Logger } from '../utils/logger.js';
+import { formatError } from '../utils/errors.js';
+import type { HttpServerTransport } from './http.js';
+import {
+  createMcpServer,
+  registerTools,
+  registerResources,
+  registerPrompts,
+  type McpTransportOptions,
+} from './server.js';
+
+/**
+ * Options for running an agent
+ */
+export interface RunAgentOptions {
+  /**
+   * Transport to serve on (default: stdio). The HTTP transport defaults its
+   * /health and /metrics endpoints to the agent's.
+   */
+  transport?: McpTransportOptions;
+  logLevel?: string;
+  /**
+   * Time to wait for in-flight calls on shutdown, in milliseconds
+   * (default: the agent's drainTimeout config)
+   */
+  drainTimeout?: number;
+  /**
+   * Signals that trigger a graceful shutdown (default: SIGINT and SIGTERM)
+   */
+  signals?: NodeJS.Signals[];
+  /**
+   * Exit the process after a signal-triggered shutdown (default: true)
+   */
+  exitOnSignal?: boolean;
+  /**
+   * Process whose signals, stdio and exit code are used (default: the
+   * current process)
+   */
+  process?: AgentProcess;
+}
+
+/**
+ * Parts of the Node.js process used by runAgent()
+ */
+export interface AgentProcess {
+  stdin: Readable;
+  stdout: Writable;
+  exitCode?: number | string;
+  on(event: NodeJS.Signals, listener: (signal: NodeJS.Signals) => void): unknown;
+  off(event: NodeJS.Signals, listener: (signal: NodeJS.Signals) => void): unknown;
+  exit(code?: number): void;
+}
+
+/**
+ * Agent served over MCP by runAgent()
+ */
+export interface RunningAgent {
+  server: McpServer;
+  transport: StdioServerTransport | HttpServerTransport;
+  logger: Logger;
+  /**
+   * Drain in-flight calls, stop the agent and close the transport
+   */
+  stop(): Promise<void>;
+}
+
+/**
+ * Start an agent and serve it over MCP
+ *
+ * Registers the agent's tools, resources and prompts, starts the agent and
+ * connects the transport. On SIGINT/SIGTERM, or when the transport closes,
+ * the agent stops accepting calls, waits for in-flight ones up to the drain
+ * timeout and the transport is closed. A signal received while stopping
+ * exits immediately. When the agent or transport fails to start, both are
+ * stopped, the exit code is set to 1 and the error is rethrown.
+ */
+export async function runAgent(
+  agent: BaseSubAgent,
+  options: RunAgentOptions = {}
+): Promise<RunningAgent> {
+  const metadata = agent.getMetadata();
+  const proc = options.process ?? process;
+  const transportOptions: McpTransportOptions = options.transport?.type === 'http'
+    ? {
+        healthCheck: () => agent.checkHealth(),
+        metrics: agent.getMetrics(),
+        ...options.transport,
+      }
+    : { stdin: proc.stdin, stdout: proc.stdout, ...options.transport, type: 'stdio' };
+
+  const { server, transport, logger } = createMcpServer({
+    metadata,
+    logLevel: options.logLevel ?? agent.getConfig().logLevel,
+    log: loggerOptionsFromConfig(agent.getConfig()),
+    transport: transportOptions,
+  });
+
+  registerTools(server, agent, logger);
+  if (agent.getResources().size > 0) {
+    registerResources(server, agent, logger);
+  }
+  if (agent.getPrompts().size > 0) {
+    registerPrompts(server, agent, logger);
+  }
+
+  const signals = options.signals ?? ['SIGINT', 'SIGTERM'];
+  let stopping: Promise<void> | undefined;
+
+  const stop = (): Promise<void> => {
+    stopping ??= (async () => {
+      try {
+        await agent.stop({ timeout: options.drainTimeout });
+      } finally {
+        await server.close();
+        for (const signal of signals) {
+          proc.off(signal, onSignal);
+        }
+        logger.info('MCP server stopped');
+      }
+    })();
+    return stopping;
+  };
+
+  function onSignal(signal: NodeJS.Signals): void {
+    if (stopping) {
+      logger.warn({ signal }, 'Received signal while stopping, exiting immediately');
+      proc.exit(1);
+      return;
+    }
+    logger.info({ signal }, 'Received shutdown signal');
+    stop().then(
+      () => {
+        if (options.exitOnSignal ?? true) {
+          proc.exit(0);
+        }
+      },
+      (error) => {
+        logger.error({ error: formatError(error) }, 'Shutdown failed');
+        if (options.exitOnSignal ?? true) {
+          proc.exit(1);
+        }
+      }
+    );
+  }
+
+  const stopOnClose = () => {
+    stop().catch((error) => {
+      logger.error({ error: formatError(error) }, 'Shutdown failed');
+    });
+  };
+  try {
+    await agent.start();
+    for (const signal of signals) {
+      proc.on(signal, onSignal);
+    }
+    server.server.onclose = stopOnClose;
+    if (transportOptions.type !== 'http') {
+      // The stdio transport does not report the client closing stdin
+      (transportOptions.stdin ?? proc.stdin).once('end', stopOnClose);
+    }
+    await server.connect(transport);
+  } catch (error) {
+    logger.error({ error: formatError(error) }, 'Agent failed to start');
+    server.server.onclose = undefined;
+    await stop().catch(() => {});
+    proc.exitCode = 1;
+    throw error;
+  }
+
+  logger.info({ agent: metadata.name, transport: transportOptions.type }, 'Agent running');
+  return { server, transport, logger, stop };
+}
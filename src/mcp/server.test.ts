@@ -0,0 +1,241 @@
+import { describe, it, expect, afterEach } from 'vitest';
+import { z } from 'zod';
+import { McpServer } from '@modelcontextprotocol/sdk/server/mcp.js';
+import { Client } from '@modelcontextprotocol/sdk/client/index.js';
+import { InMemoryTransport } from '@modelcontextprotocol/sdk/inMemory.js';
+import { LoggingMessageNotificationSchema } from '@modelcontextprotocol/sdk/types.js';
+import { BaseSubAgent } from '../base/BaseSubAgent.js';
+import { createTestHarness, type TestHarness } from '../testing/harness.js';
+import { createToolHandler } from './tools.js';
+import { registerTools } from './server.js';
+import { HttpServerTransport } from './http.js';
+import { SubAgentClient } from './client.js';
+import { createLogger } from '../utils/logger.js';
+import { ErrorCode } from '../utils/errors.js';
+
+class ContentAgent extends BaseSubAgent {
+  constructor() {
+    super(
+      { name: 'content-agent', version: '1.0.0', description: 'Serves content', capabilities: [] },
+      { logLevel: 'silent' }
+    );
+    this.registerResource({
+      name: 'readme',
+      uri: 'docs://readme',
+      mimeType: 'text/plain',
+      read: async (uri) => ({ uri: uri.href, text: 'Read me' }),
+    });
+    this.registerResource({
+      name: 'file',
+      uri: 'file:///{path}',
+      list: async () => [{ uri: 'file:///a.txt', name: 'a.txt' }],
+      read: async (uri, { path }) => ({ uri: uri.href, text: `contents of ${String(path)}` }),
+    });
+    this.registerPrompt({
+      name: 'review',
+      description: 'Review a change',
+      argsSchema: z.object({ diff: z.string() }),
+      handler: async (args) => [{ role: 'user', content: `Review: ${(args as { diff: string }).diff}` }],
+    });
+    this.registerPrompt({
+      name: 'greet',
+      description: 'Say hello',
+      handler: async () => [{ role: 'user', content: 'Hello' }],
+    });
+    this.registerPrompt({
+      name: 'plain',
+      handler: async (args) => [{ role: 'user', content: JSON.stringify(args) }],
+    });
+  }
+}
+
+let harness: TestHarness | undefined;
+
+afterEach(async () => {
+  await harness?.close();
+  harness = undefined;
+});
+
+describe('resources', () => {
+  it('lists fixed resources and those of templates', async () => {
+    harness = await createTestHarness(new ContentAgent());
+
+    const uris = (await harness.listResources()).map((resource) => resource.uri);
+
+    expect(uris).toEqual(expect.arrayContaining(['docs://readme', 'file:///a.txt']));
+  });
+
+  it('reads fixed and templated resources', async () => {
+    harness = await createTestHarness(new ContentAgent());
+
+    expect((await harness.readResource('docs://readme')).contents).toMatchObject([
+      { uri: 'docs://readme', text: 'Read me' },
+    ]);
+    expect((await harness.readResource('file:///b.txt')).contents[0]).toMatchObject({ text: 'contents of b.txt' });
+  });
+});
+
+describe('prompts', () => {
+  it('builds prompts with arguments', async () => {
+    harness = await createTestHarness(new ContentAgent());
+
+    const result = await harness.getPrompt('review', { diff: '+1' });
+
+    expect(result.messages).toEqual([{ role: 'user', content: { type: 'text', text: 'Review: +1' } }]);
+  });
+
+  it('rejects invalid prompt arguments', async () => {
+    harness = await createTestHarness(new ContentAgent());
+
+    await expect(harness.getPrompt('review', {})).rejects.toThrow(/diff/);
+  });
+
+  it('builds prompts without an args schema', async () => {
+    harness = await createTestHarness(new ContentAgent());
+
+    expect((await harness.getPrompt('greet')).messages[0]?.content).toEqual({ type: 'text', text: 'Hello' });
+    expect((await harness.getPrompt('plain')).messages[0]?.content).toEqual({ type: 'text', text: '{}' });
+  });
+
+  it('lists prompts with their descriptions', async () => {
+    harness = await createTestHarness(new ContentAgent());
+
+    const prompts = await harness.listPrompts();
+
+    expect(prompts.map(({ name, description }) => ({ name, description }))).toEqual([
+      { name: 'review', description: 'Review a change' },
+      { name: 'greet', description: 'Say hello' },
+      { name: 'plain', description: undefined },
+    ]);
+  });
+});
+
+describe('rate limiting', () => {
+  class PingAgent extends BaseSubAgent {
+    constructor() {
+      super(
+        { name: 'ping-agent', version: '1.0.0', description: 'Pings', capabilities: [] },
+        { logLevel: 'silent', rateLimit: { rate: 1, interval: 60_000 } }
+      );
+      this.registerTool(createToolHandler({
+        name: 'ping',
+        description: 'Pings',
+        inputSchema: z.object({}),
+        handler: async () => 'pong',
+      }));
+    }
+  }
+
+  it('shares one bucket among anonymous callers across HTTP sessions', async () => {
+    const agent = new PingAgent();
+    await agent.start();
+    const logger = createLogger('silent');
+    const transport = new HttpServerTransport({ type: 'http', port: 0 }, () => {
+      const server = new McpServer({ name: 'ping-agent', version: '1.0.0' });
+      registerTools(server, agent, logger);
+      return server;
+    }, logger);
+    await transport.start();
+    const clients = await Promise.all([1, 2].map(() => SubAgentClient.connect({
+      transport: { type: 'http', url: transport.url!.href },
+    })));
+    try {
+      expect((await clients[0]!.callTool('ping')).success).toBe(true);
+      expect((await clients[1]!.callTool('ping')).metadata?.['code']).toBe(ErrorCode.RATE_LIMITED);
+    } finally {
+      await Promise.all(clients.map((client) => client.close()));
+      await transport.close();
+      await agent.stop();
+    }
+  });
+});
+
+describe('output schemas', () => {
+  const parse = createToolHandler({
+    name: 'parse',
+    description: 'Returns a numeric string',
+    inputSchema: z.object({ text: z.string() }),
+    outputSchema: z.object({ n: z.string().transform(Number) }).refine(({ n }) => n > 0, 'must be positive'),
+    handler: async ({ text }) => ({ n: text }),
+  });
+
+  async function connect(): Promise<Client> {
+    const server = new McpServer({ name: 'parser', version: '1.0.0' });
+    registerTools(server, [parse], createLogger('silent'));
+    const [clientTransport, serverTransport] = InMemoryTransport.createLinkedPair();
+    const client = new Client({ name: 'test-client', version: '1.0.0' });
+    await server.connect(serverTransport);
+    await client.connect(clientTransport);
+    return client;
+  }
+
+  it('returns the parsed output of tools without an agent', async () => {
+    const client = await connect();
+    try {
+      const result = await client.callTool({ name: 'parse', arguments: { text: '5' } });
+      const refused = await client.callTool({ name: 'parse', arguments: { text: '-1' } });
+
+      expect(result.structuredContent).toEqual({ n: 5 });
+      expect(refused.isError).toBe(true);
+      expect(JSON.stringify(refused.content)).toContain('must be positive');
+    } finally {
+      await client.close();
+    }
+  });
+
+  it('returns the parsed output of agent tools', async () => {
+    class ParseAgent extends BaseSubAgent {
+      constructor() {
+        super({ name: 'parser', version: '1.0.0', description: 'Parses', capabilities: [] }, { logLevel: 'silent' });
+        this.registerTool(parse);
+      }
+    }
+    harness = await createTestHarness(new ParseAgent());
+
+    const outcome = await harness.callTool('parse', { text: '5' });
+
+    expect(outcome.structuredContent).toEqual({ n: 5 });
+    expect(outcome.data).toEqual({ n: 5 });
+  });
+});
+
+describe('streaming', () => {
+  const words = createToolHandler({
+    name: 'words',
+    description: 'Streams words and reports progress',
+    inputSchema: z.object({}),
+    handler: async function* (_input, context) {
+      for (const [index, word] of ['one ', 'two ', 'three'].entries()) {
+        context.reportProgress(index + 1, 3);
+        yield word;
+      }
+    },
+  });
+
+  it('keeps chunks out of the progress notifications', async () => {
+    const server = new McpServer({ name: 'words', version: '1.0.0' });
+    registerTools(server, [words], createLogger('silent'));
+    const [clientTransport, serverTransport] = InMemoryTransport.createLinkedPair();
+    const client = new Client({ name: 'test-client', version: '1.0.0' });
+    const chunks: unknown[] = [];
+    client.setNotificationHandler(LoggingMessageNotificationSchema, (notification) => {
+      chunks.push((notification.params.data as { chunk: unknown }).chunk);
+    });
+    await server.connect(serverTransport);
+    await client.connect(clientTransport);
+    try {
+      const progress: number[] = [];
+      const result = await client.callTool(
+        { name: 'words', arguments: {} },
+        undefined,
+        { onprogress: (update) => progress.push(update.progress) }
+      );
+
+      expect(result.content).toEqual([{ type: 'text', text: '"one two three"' }]);
+      expect(progress).toEqual([1, 2, 3]);
+      expect(chunks).toEqual(['one ', 'two ', 'three']);
+    } finally {
+      await client.close();
+    }
+  });
+});
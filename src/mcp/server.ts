@@ -1,8 +1,56 @@
-import { McpServer } from '@modelcontextprotocol/sdk/server/mcp.js';
+import type { Readable, Writable } from 'node:stream';
+import { McpServer, ResourceTemplate } from '@modelcontextprotocol/sdk/server/mcp.js';
 import { StdioServerTransport } from '@modelcontextprotocol/sdk/server/stdio.js';
-import { z } from 'zod';
-import type { SubAgentMetadata, ToolDefinition } from '../types/index.js';
-import { createLogger, type Logger } from '../utils/logger.js';
+import type { RequestHandlerExtra } from '@modelcontextprotocol/sdk/shared/protocol.js';
+import { UriTemplate } from '@modelcontextprotocol/sdk/shared/uriTemplate.js';
+import {
+  CallToolRequestSchema,
+  ListToolsRequestSchema,
+  type ServerNotification,
+  type ServerRequest,
+} from '@modelcontextprotocol/sdk/types.js';
+import type {
+  SubAgentMetadata,
+  ToolDefinition,
+  ToolContext,
+  ToolMiddleware,
+  ProgressUpdate,
+  ResourceDefinition,
+  ResourceContent,
+  PromptDefinition,
+  PromptMessage,
+  Principal,
+  InputLimits,
+} from '../types/index.js';
+import { BaseSubAgent } from '../base/BaseSubAgent.js';
+import { createLogger, reserveStdout, type Logger, type LoggerOptions } from '../utils/logger.js';
+import { validateSchema, assertInputLimits, DEFAULT_INPUT_LIMITS } from '../utils/validation.js';
+import { SubAgentError, ErrorCode, formatError, validationError, getRetryAfter } from '../utils/errors.js';
+import { zodToJsonSchema } from '../utils/jsonSchema.js';
+import { Tracer, type Span } from '../utils/tracing.js';
+import { composeMiddleware } from '../utils/middleware.js';
+import { authenticate, authorize, bearerCredentials, type AuthOptions } from '../utils/auth.js';
+import { RateLimiter, checkRateLimit, ANONYMOUS_CALLER } from '../utils/rateLimit.js';
+import { HttpServerTransport, type HttpTransportOptions } from './http.js';
+
+/**
+ * Transport selection for an MCP server
+ */
+export type McpTransportOptions =
+  | StdioTransportOptions
+  | HttpTransportOptions;
+
+/**
+ * Options for the stdio transport
+ */
+export interface StdioTransportOptions {
+  type: 'stdio';
+  /**
+   * Streams to serve on (default: process.stdin and process.stdout)
+   */
+  stdin?: Readable;
+  stdout?: Writable;
+}
 
 /**
  * Options for creating an MCP server
@@ -10,167 +58,682 @@ import { createLogger, type Logger } from '../utils/logger.js';
 export interface McpServerOptions {
   metadata: SubAgentMetadata;
   logLevel?: string;
+  /**
+   * Logger settings; with the stdio transport nothing is logged to stdout
+   */
+  log?: LoggerOptions;
+  /**
+   * Transport to serve on (default: stdio)
+   */
+  transport?: McpTransportOptions;
 }
 
+/**
+ * Registrations applied to a server, replayed onto per-session servers
+ */
+const registrations = new WeakMap<McpServer, Array<(target: McpServer) => void>>();
+
+/**
+ * Tools registered with each server
+ */
+const registeredTools = new WeakMap<McpServer, Map<string, RegisteredTool>>();
+
+/**
+ * Tracer for tools, resources and prompts that are not backed by an agent
+ */
+const tracer = new Tracer();
+
 /**
  * Create and configure an MCP server
+ *
+ * With the HTTP transport every client session is served by its own
+ * McpServer; tools registered on the returned server are replayed onto
+ * each session server.
  */
 export function createMcpServer(options: McpServerOptions): {
   server: McpServer;
-  transport: StdioServerTransport;
+  transport: StdioServerTransport | HttpServerTransport;
   logger: Logger;
 } {
-  const logger = createLogger(options.logLevel || 'info', options.metadata.name);
+  const stdio = options.transport?.type === 'http' ? undefined : options.transport;
+  if (options.transport?.type !== 'http' && (stdio?.stdout ?? process.stdout) === process.stdout) {
+    // stdout carries the protocol
+    reserveStdout();
+  }
+  const logger = createLogger(options.logLevel || 'info', options.metadata.name, options.log);
 
-  const server = new McpServer({
+  const newServer = () => new McpServer({
     name: options.metadata.name,
     version: options.metadata.version,
   });
+  const server = newServer();
 
-  const transport = new StdioServerTransport();
+  const transport = options.transport?.type === 'http'
+    ? new HttpServerTransport(options.transport, () => {
+        const sessionServer = newServer();
+        for (const apply of registrations.get(server) ?? []) {
+          apply(sessionServer);
+        }
+        return sessionServer;
+      }, logger)
+    : new StdioServerTransport(stdio?.stdin, stdio?.stdout);
 
   return { server, transport, logger };
 }
 
+/**
+ * Tools that can be registered with an MCP server
+ */
+export type ToolSource =
+  | BaseSubAgent
+  | Map<string, ToolDefinition>
+  | ToolDefinition[];
+
+/**
+ * A tool registered with a server, with the agent that executes it
+ */
+interface RegisteredTool {
+  definition: ToolDefinition;
+  agent?: BaseSubAgent;
+  middleware: ToolMiddleware[];
+  auth?: AuthOptions;
+  rateLimiter?: RateLimiter;
+  inputLimits?: InputLimits;
+}
+
+/**
+ * Options for registering tools
+ */
+export interface RegisterToolsOptions {
+  /**
+   * Middleware for tools that are not backed by an agent; agents apply
+   * their own middleware from agent.use()
+   */
+  middleware?: ToolMiddleware[];
+  /**
+   * Authentication for tools that are not backed by an agent; agents
+   * authenticate with their own settings from agent.setAuth()
+   */
+  auth?: AuthOptions;
+  /**
+   * Input limits for tools that are not backed by an agent (default:
+   * DEFAULT_INPUT_LIMITS); agents apply their `inputLimits` config
+   */
+  inputLimits?: InputLimits;
+}
+
 /**
  * Register tools with an MCP server
+ *
+ * When given an agent, calls are dispatched through agent.executeTool() so
+ * they get the same policy, scheduling, cancellation and authorization as
+ * in-process calls. The caller's credentials are taken from the HTTP auth
+ * info or an `authorization` entry in the request `_meta`. Callers without
+ * a principal share one rate limit bucket, since a client could get a fresh
+ * one by opening a new session.
+ *
+ * Installs the server's tools/list and tools/call handlers, so tools must
+ * not also be registered through McpServer.tool().
  */
 export function registerTools(
   server: McpServer,
-  tools: Map<string, ToolDefinition> | ToolDefinition[],
-  logger: Logger
+  tools: ToolSource,
+  logger: Logger,
+  options: RegisterToolsOptions = {}
 ): void {
-  const toolsArray = tools instanceof Map
-    ? Array.from(tools.values())
-    : tools;
+  const agent = tools instanceof BaseSubAgent ? tools : undefined;
+  const toolsArray = tools instanceof BaseSubAgent
+    ? Array.from(tools.getTools().values())
+    : tools instanceof Map
+      ? Array.from(tools.values())
+      : tools;
 
-  for (const tool of toolsArray) {
-    const jsonSchema = zodToJsonSchema(tool.inputSchema);
-
-    server.tool(
-      tool.name,
-      tool.description,
-      jsonSchema as Record<string, unknown>,
-      async (params) => {
-        const requestId = crypto.randomUUID();
-        logger.info({ tool: tool.name, requestId }, 'Tool invoked');
-
-        try {
-          const result = await tool.handler(params, {
-            requestId,
-            logger: logger.child({ requestId, tool: tool.name }),
-            metadata: { name: '', version: '', description: '', capabilities: [] },
-          });
-
-          if (result.success) {
-            return {
-              content: [
-                {
-                  type: 'text' as const,
-                  text: JSON.stringify(result.data, null, 2),
-                },
-              ],
-            };
-          } else {
-            return {
-              content: [
-                {
-                  type: 'text' as const,
-                  text: JSON.stringify({ error: result.error }, null, 2),
-                },
-              ],
-              isError: true,
-            };
-          }
-        } catch (error) {
-          logger.error({ tool: tool.name, requestId, error }, 'Tool execution failed');
-          return {
-            content: [
-              {
-                type: 'text' as const,
-                text: JSON.stringify({
-                  error: error instanceof Error ? error.message : String(error),
-                }, null, 2),
-              },
-            ],
-            isError: true,
-          };
-        }
-      }
-    );
+  // Shared by all sessions, so limits hold across them
+  const rateLimiter = agent ? undefined : new RateLimiter();
+  const apply = (target: McpServer) => {
+    const toolMap = getToolMap(target, logger);
+    for (const definition of toolsArray) {
+      toolMap.set(definition.name, {
+        definition,
+        agent,
+        middleware: agent ? [] : options.middleware ?? [],
+        auth: agent ? undefined : options.auth,
+        rateLimiter,
+        inputLimits: agent ? undefined : options.inputLimits,
+      });
+    }
+  };
+  apply(server);
+  addRegistration(server, apply);
 
+  for (const tool of toolsArray) {
     logger.debug({ tool: tool.name }, 'Tool registered with MCP server');
   }
 }
 
 /**
- * Convert Zod schema to JSON schema for MCP
+ * Resources that can be registered with an MCP server
+ */
+export type ResourceSource =
+  | BaseSubAgent
+  | Map<string, ResourceDefinition>
+  | ResourceDefinition[];
+
+/**
+ * Register resources with an MCP server
+ *
+ * Static URIs are listed directly; URI templates are listed through their
+ * `list` handler. When given an agent, reads are dispatched through
+ * agent.readResource().
+ */
+export function registerResources(
+  server: McpServer,
+  resources: ResourceSource,
+  logger: Logger
+): void {
+  const agent = resources instanceof BaseSubAgent ? resources : undefined;
+  const resourcesArray = resources instanceof BaseSubAgent
+    ? Array.from(resources.getResources().values())
+    : resources instanceof Map
+      ? Array.from(resources.values())
+      : resources;
+
+  const apply = (target: McpServer) => {
+    for (const resource of resourcesArray) {
+      registerResource(target, resource, agent, logger);
+    }
+  };
+  apply(server);
+  addRegistration(server, apply);
+
+  for (const resource of resourcesArray) {
+    logger.debug({ resource: resource.name, uri: resource.uri }, 'Resource registered with MCP server');
+  }
+}
+
+/**
+ * Prompts that can be registered with an MCP server
+ */
+export type PromptSource =
+  | BaseSubAgent
+  | Map<string, PromptDefinition>
+  | PromptDefinition[];
+
+/**
+ * Register prompts with an MCP server
+ *
+ * When given an agent, prompts are built through agent.getPrompt().
+ */
+export function registerPrompts(
+  server: McpServer,
+  prompts: PromptSource,
+  logger: Logger
+): void {
+  const agent = prompts instanceof BaseSubAgent ? prompts : undefined;
+  const promptsArray = prompts instanceof BaseSubAgent
+    ? Array.from(prompts.getPrompts().values())
+    : prompts instanceof Map
+      ? Array.from(prompts.values())
+      : prompts;
+
+  const apply = (target: McpServer) => {
+    for (const prompt of promptsArray) {
+      registerPrompt(target, prompt, agent, logger);
+    }
+  };
+  apply(server);
+  addRegistration(server, apply);
+
+  for (const prompt of promptsArray) {
+    logger.debug({ prompt: prompt.name }, 'Prompt registered with MCP server');
+  }
+}
+
+/**
+ * Record a registration so it can be replayed onto session servers
  */
-function zodToJsonSchema(schema: z.ZodType<unknown>): Record<string, unknown> {
-  const def = schema._def as { typeName?: string };
-  return convertZodDef(def);
+function addRegistration(server: McpServer, apply: (target: McpServer) => void): void {
+  const list = registrations.get(server) ?? [];
+  list.push(apply);
+  registrations.set(server, list);
 }
 
-function convertZodDef(def: z.ZodTypeDef & { typeName?: string }): Record<string, unknown> {
-  switch (def.typeName) {
-    case 'ZodString':
-      return { type: 'string' };
-    case 'ZodNumber':
-      return { type: 'number' };
-    case 'ZodBoolean':
-      return { type: 'boolean' };
-    case 'ZodArray': {
-      const arrayDef = def as { type?: { _def: z.ZodTypeDef } };
-      return {
-        type: 'array',
-        items: arrayDef.type ? convertZodDef(arrayDef.type._def as z.ZodTypeDef & { typeName?: string }) : {},
-      };
+/**
+ * Get the tool map for a server, installing the tool request handlers on first use
+ */
+function getToolMap(server: McpServer, logger: Logger): Map<string, RegisteredTool> {
+  const existing = registeredTools.get(server);
+  if (existing) {
+    return existing;
+  }
+
+  const toolMap = new Map<string, RegisteredTool>();
+  registeredTools.set(server, toolMap);
+
+  // Streamed output goes out as log messages when there is no progress token
+  server.server.registerCapabilities({ tools: { listChanged: true }, logging: {} });
+
+  server.server.setRequestHandler(ListToolsRequestSchema, () => ({
+    tools: Array.from(toolMap.values(), ({ definition }) => ({
+      name: definition.name,
+      description: definition.description,
+      inputSchema: {
+        type: 'object' as const,
+        ...zodToJsonSchema(definition.inputSchema),
+      },
+      outputSchema: outputJsonSchema(definition),
+    })),
+  }));
+
+  server.server.setRequestHandler(CallToolRequestSchema, async (request, extra) => {
+    const entry = toolMap.get(request.params.name);
+    if (!entry) {
+      return errorContent(`Tool '${request.params.name}' not found`, { code: ErrorCode.NOT_FOUND });
     }
-    case 'ZodObject': {
-      const objectDef = def as { shape?: () => Record<string, z.ZodTypeAny> };
-      const shape = objectDef.shape?.() || {};
-      const properties: Record<string, unknown> = {};
-      const required: string[] = [];
-
-      for (const [key, value] of Object.entries(shape)) {
-        properties[key] = convertZodDef(value._def as z.ZodTypeDef & { typeName?: string });
-        if (!value.isOptional()) {
-          required.push(key);
+
+    const requestId = crypto.randomUUID();
+    const input = request.params.arguments ?? {};
+    const traceparent = traceparentOf(extra);
+    const credentials = credentialsOf(extra);
+    const reportProgress = progressReporter(extra, logger.child({ requestId }));
+    logger.info({ tool: entry.definition.name, requestId }, 'Tool invoked');
+
+    const relayChunk = chunkRelay(extra, entry.definition.name, requestId, logger.child({ requestId }));
+    if (entry.agent) {
+      const response = await entry.agent.executeTool(entry.definition.name, input, requestId, {
+        signal: extra.signal,
+        onProgress: (update) => reportProgress(update),
+        onChunk: relayChunk,
+        traceparent,
+        credentials,
+      });
+      return response.success
+        ? successContent(entry.definition, response.results)
+        : errorContent(response.error, response.metadata);
+    }
+
+    return tracer.trace(
+      `tool ${entry.definition.name}`,
+      { parent: traceparent, attributes: { tool: entry.definition.name, requestId } },
+      async (span) => {
+        const result = await callTool(
+          entry, input, requestId, credentials, extra.signal,
+          reportProgress, relayChunk, logger, span
+        );
+        if ('isError' in result) {
+          span.setError();
         }
+        return result;
       }
+    );
+  });
+
+  return toolMap;
+}
+
+/**
+ * Register a single resource on a server
+ */
+function registerResource(
+  server: McpServer,
+  resource: ResourceDefinition,
+  agent: BaseSubAgent | undefined,
+  logger: Logger
+): void {
+  const metadata = {
+    description: resource.description,
+    mimeType: resource.mimeType,
+  };
+
+  const read = async (
+    uri: URL,
+    variables: Record<string, string | string[]>,
+    extra: RequestHandlerExtra<ServerRequest, ServerNotification>
+  ) => {
+    const requestId = crypto.randomUUID();
+    const traceparent = traceparentOf(extra);
+    const reportProgress = progressReporter(extra, logger.child({ requestId }));
+    logger.info({ resource: resource.name, uri: uri.href, requestId }, 'Resource read');
+
+    const contents: ResourceContent[] = agent
+      ? await agent.readResource(uri.href, { signal: extra.signal, onProgress: reportProgress, traceparent })
+      : [await tracer.trace(
+          `resource ${resource.name}`,
+          { parent: traceparent, attributes: { uri: uri.href } },
+          (span) => resource.read(uri, variables, handlerContext(
+            requestId, { resource: resource.name }, extra.signal, reportProgress, logger, span
+          ))
+        )].flat();
+
+    return {
+      contents: contents.map((content) => content.blob !== undefined
+        ? { uri: content.uri, mimeType: content.mimeType, blob: content.blob }
+        : { uri: content.uri, mimeType: content.mimeType, text: content.text ?? '' }),
+    };
+  };
+
+  if (!UriTemplate.isTemplate(resource.uri)) {
+    server.registerResource(
+      resource.name,
+      resource.uri,
+      metadata,
+      (uri: URL, extra: RequestHandlerExtra<ServerRequest, ServerNotification>) => read(uri, {}, extra)
+    );
+    return;
+  }
+
+  const list = resource.list;
+  const template = new ResourceTemplate(resource.uri, {
+    list: list && (async (extra) => {
+      const requestId = crypto.randomUUID();
+      const resources = await (agent?.getTracer() ?? tracer).trace(
+        `list resources ${resource.name}`,
+        { parent: traceparentOf(extra) },
+        (span) => list(handlerContext(
+          requestId, { resource: resource.name }, extra.signal, () => {}, logger, span, agent?.getMetadata()
+        ))
+      );
+      return { resources: resources.map((info) => ({ ...info })) };
+    }),
+  });
+  server.registerResource(resource.name, template, metadata, read);
+}
+
+/**
+ * Register a single prompt on a server
+ */
+function registerPrompt(
+  server: McpServer,
+  prompt: PromptDefinition,
+  agent: BaseSubAgent | undefined,
+  logger: Logger
+): void {
+  const build = async (
+    args: unknown,
+    extra: RequestHandlerExtra<ServerRequest, ServerNotification>
+  ) => {
+    const requestId = crypto.randomUUID();
+    const traceparent = traceparentOf(extra);
+    const reportProgress = progressReporter(extra, logger.child({ requestId }));
+    logger.info({ prompt: prompt.name, requestId }, 'Prompt requested');
+
+    const messages: PromptMessage[] = agent
+      ? await agent.getPrompt(prompt.name, args, { signal: extra.signal, onProgress: reportProgress, traceparent })
+      : await tracer.trace(
+          `prompt ${prompt.name}`,
+          { parent: traceparent },
+          (span) => prompt.handler(args, handlerContext(
+            requestId, { prompt: prompt.name }, extra.signal, reportProgress, logger, span
+          ))
+        );
+
+    return {
+      description: prompt.description,
+      messages: messages.map((message) => ({
+        role: message.role,
+        content: { type: 'text' as const, text: message.content },
+      })),
+    };
+  };
+
+  if (prompt.argsSchema) {
+    server.registerPrompt(
+      prompt.name,
+      { description: prompt.description, argsSchema: prompt.argsSchema.shape },
+      (args, extra) => build(args, extra)
+    );
+  } else if (prompt.description !== undefined) {
+    // registerPrompt() only types callbacks that take arguments, while the
+    // SDK invokes those of prompts without an argsSchema with only `extra`
+    server.prompt(prompt.name, prompt.description, (extra) => build({}, extra));
+  } else {
+    server.prompt(prompt.name, (extra) => build({}, extra));
+  }
+}
+
+/**
+ * Create a handler context for definitions that are not backed by an agent
+ */
+function handlerContext(
+  requestId: string,
+  bindings: Record<string, unknown>,
+  signal: AbortSignal,
+  reportProgress: (update: ProgressUpdate) => void,
+  logger: Logger,
+  span: Span,
+  metadata: SubAgentMetadata = { name: '', version: '', description: '', capabilities: [] },
+  principal?: Principal,
+  emit: (chunk: unknown) => Promise<void> = async () => {}
+): ToolContext {
+  return {
+    requestId,
+    logger: logger.child({ requestId, ...bindings }),
+    metadata,
+    signal,
+    reportProgress: (progress, total, message) => reportProgress({ progress, total, message }),
+    emit,
+    metrics: { increment: () => {} },
+    span,
+    principal,
+  };
+}
+
+/**
+ * Get the caller's W3C traceparent from the request `_meta`
+ */
+function traceparentOf(
+  extra: RequestHandlerExtra<ServerRequest, ServerNotification>
+): string | undefined {
+  const traceparent = extra._meta?.['traceparent'];
+  return typeof traceparent === 'string' ? traceparent : undefined;
+}
+
+/**
+ * Get the caller's credentials from the HTTP auth info or the request `_meta`
+ */
+function credentialsOf(
+  extra: RequestHandlerExtra<ServerRequest, ServerNotification>
+): string | undefined {
+  const authorization = extra._meta?.['authorization'];
+  return extra.authInfo?.token
+    ?? bearerCredentials(typeof authorization === 'string' ? authorization : undefined);
+}
+
+/**
+ * Call a tool that is not backed by an agent
+ */
+async function callTool(
+  { definition: tool, middleware, auth, rateLimiter, inputLimits }: RegisteredTool,
+  input: unknown,
+  requestId: string,
+  credentials: string | undefined,
+  signal: AbortSignal,
+  reportProgress: (update: ProgressUpdate) => void,
+  relayChunk: (chunk: unknown) => Promise<void>,
+  logger: Logger,
+  span: Span
+) {
+  let principal: Principal | undefined;
+  try {
+    principal = auth ? await authenticate(auth, credentials) : undefined;
+    authorize(tool, principal);
+  } catch (error) {
+    const denial = formatError(error);
+    logger.warn({
+      tool: tool.name,
+      requestId,
+      principal: principal?.id,
+      code: denial.code,
+      reason: denial.details?.['reason'] ?? denial.message,
+    }, 'Access denied');
+    return failureContent(error);
+  }
 
-      return {
-        type: 'object',
-        properties,
-        ...(required.length > 0 && { required }),
-      };
+  if (tool.rateLimit && rateLimiter) {
+    const caller = principal?.id ?? ANONYMOUS_CALLER;
+    const limited = checkRateLimit(rateLimiter, `tool:${tool.name}`, tool.rateLimit, tool.name, caller);
+    if (limited) {
+      logger.warn({ tool: tool.name, requestId, caller, retryAfterMs: getRetryAfter(limited) }, 'Rate limit exceeded');
+      return failureContent(limited);
     }
-    case 'ZodOptional': {
-      const optionalDef = def as { innerType?: { _def: z.ZodTypeDef } };
-      return optionalDef.innerType
-        ? convertZodDef(optionalDef.innerType._def as z.ZodTypeDef & { typeName?: string })
-        : {};
+  }
+
+  try {
+    assertInputLimits(input, { ...DEFAULT_INPUT_LIMITS, ...inputLimits, ...tool.inputLimits });
+  } catch (error) {
+    return failureContent(error);
+  }
+  const inputResult = validateSchema(tool.inputSchema, input);
+  if (!inputResult.success) {
+    return failureContent(
+      validationError(`Invalid input: ${inputResult.errors.join(', ')}`, { errors: inputResult.errors })
+    );
+  }
+
+  try {
+    const result = await composeMiddleware(middleware)({
+      tool,
+      input: inputResult.data,
+      context: handlerContext(
+        requestId, { tool: tool.name }, signal, reportProgress, logger, span, undefined, principal, relayChunk
+      ),
+    });
+
+    if (!result.success) {
+      return errorContent(result.error, result.metadata);
     }
-    case 'ZodEnum': {
-      const enumDef = def as { values?: string[] };
-      return {
-        type: 'string',
-        enum: enumDef.values,
-      };
+    if (tool.outputSchema) {
+      const outputResult = validateSchema(tool.outputSchema, result.data);
+      if (!outputResult.success) {
+        return errorContent(
+          `Output validation failed: ${outputResult.errors.join(', ')}`,
+          { code: ErrorCode.VALIDATION_FAILED }
+        );
+      }
+      return successContent(tool, outputResult.data);
     }
-    case 'ZodLiteral': {
-      const literalDef = def as { value?: unknown };
-      return { const: literalDef.value };
+    return successContent(tool, result.data);
+  } catch (error) {
+    logger.error({ tool: tool.name, requestId, error }, 'Tool execution failed');
+    return failureContent(error);
+  }
+}
+
+/**
+ * Create a reporter that maps progress updates to MCP progress notifications
+ *
+ * Updates are dropped when the client did not supply a progress token.
+ */
+function progressReporter(
+  extra: RequestHandlerExtra<ServerRequest, ServerNotification>,
+  logger: Logger
+): (update: ProgressUpdate) => void {
+  const progressToken = extra._meta?.progressToken;
+
+  return (update) => {
+    if (progressToken === undefined) {
+      return;
     }
-    case 'ZodUnion': {
-      const unionDef = def as { options?: Array<{ _def: z.ZodTypeDef }> };
-      return {
-        oneOf: unionDef.options?.map(opt =>
-          convertZodDef(opt._def as z.ZodTypeDef & { typeName?: string })
-        ) || [],
-      };
+    extra.sendNotification({
+      method: 'notifications/progress',
+      params: { progressToken, ...update },
+    }).catch((error: unknown) => {
+      logger.warn({ error: formatError(error) }, 'Failed to send progress notification');
+    });
+  };
+}
+
+/**
+ * Create a relay that sends chunks of streamed output as MCP notifications
+ *
+ * Chunks become log message notifications tagged with the request ID. The
+ * progress token is left to the tool's own progress updates, whose values
+ * must increase with each notification. Each send is awaited, so a slow
+ * client holds up the tool.
+ */
+function chunkRelay(
+  extra: RequestHandlerExtra<ServerRequest, ServerNotification>,
+  tool: string,
+  requestId: string,
+  logger: Logger
+): (chunk: unknown) => Promise<void> {
+  return async (chunk) => {
+    try {
+      await extra.sendNotification({
+        method: 'notifications/message',
+        params: { level: 'info', logger: tool, data: { requestId, chunk } },
+      });
+    } catch (error) {
+      logger.warn({ error: formatError(error) }, 'Failed to send stream chunk');
     }
-    default:
-      return {};
+  };
+}
+
+/**
+ * Get the JSON schema advertised for a tool's output
+ *
+ * MCP structured content must be an object, so only object output schemas
+ * are advertised.
+ */
+function outputJsonSchema(tool: ToolDefinition) {
+  if (!tool.outputSchema) {
+    return undefined;
   }
+  const schema = zodToJsonSchema(tool.outputSchema, { io: 'output' });
+  return schema['type'] === 'object'
+    ? { ...schema, type: 'object' as const }
+    : undefined;
+}
+
+/**
+ * Build a successful tool result
+ *
+ * Tools with an object output schema also return the data as structured
+ * content; the text block remains as a fallback for older clients.
+ */
+function successContent(tool: ToolDefinition, data: unknown) {
+  const structured = outputJsonSchema(tool) !== undefined
+    && typeof data === 'object' && data !== null && !Array.isArray(data);
+
+  return {
+    content: [
+      {
+        type: 'text' as const,
+        text: JSON.stringify(data ?? null, null, 2),
+      },
+    ],
+    ...(structured && { structuredContent: data as Record<string, unknown> }),
+  };
+}
+
+/**
+ * Build an error tool result
+ *
+ * Carries the `code`, `retryable`, `retryAfterMs` and `details` of the
+ * failure metadata.
+ */
+function errorContent(error: string | undefined, metadata: Record<string, unknown> = {}) {
+  const { code, retryable, retryAfterMs, details } = metadata;
+  return {
+    content: [
+      {
+        type: 'text' as const,
+        text: JSON.stringify({ error, code, retryable, retryAfterMs, details }, null, 2),
+      },
+    ],
+    isError: true,
+  };
+}
+
+/**
+ * Build an error tool result from a thrown error
+ */
+function failureContent(error: unknown) {
+  const formattedError = formatError(error);
+  return errorContent(formattedError.message, {
+    code: formattedError.code,
+    retryable: formattedError.retryable,
+    retryAfterMs: getRetryAfter(error),
+    details: error instanceof SubAgentError ? error.details : undefined,
+  });
 }
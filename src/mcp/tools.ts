@@ -1,5 +1,20 @@
-import { z, ZodType } from 'zod';
-import type { ToolContext, ToolResult, ToolDefinition } from '../types/index.js';
+import { z, ZodType, type ZodTypeDef } from 'zod';
+import type {
+  ToolContext,
+  ToolResult,
+  ToolDefinition,
+  ToolCacheOptions,
+  ExecutionPolicy,
+  HealthStatus,
+  ProcessRequest,
+  SubAgentCapability,
+  ToolAccessPolicy,
+  RateLimit,
+  InputLimits,
+} from '../types/index.js';
+import { SubAgentError, formatError, getRetryAfter } from '../utils/errors.js';
+import type { MetricsSnapshot } from '../utils/metrics.js';
+import { collectStream, isAsyncIterable } from '../utils/stream.js';
 
 /**
  * Tool handler function type
@@ -16,7 +31,29 @@ export interface CreateToolOptions<TInput, TOutput> {
   name: string;
   description: string;
   inputSchema: ZodType<TInput>;
-  handler: (input: TInput, context: ToolContext) => Promise<TOutput>;
+  /**
+   * Checked against the handler's output, which is replaced by the parsed
+   * value
+   */
+  outputSchema?: ZodType<unknown, ZodTypeDef, TOutput>;
+  /**
+   * Run the tool; return an async iterable to stream the output in chunks
+   */
+  handler: (input: TInput, context: ToolContext) => Promise<TOutput> | AsyncIterable<unknown>;
+  /**
+   * Build the output from streamed chunks (default: aggregateChunks)
+   */
+  aggregate?: (chunks: unknown[]) => TOutput;
+  policy?: Partial<ExecutionPolicy>;
+  maxConcurrent?: number;
+  cache?: ToolCacheOptions;
+  capability?: SubAgentCapability;
+  requestTypes?: string[];
+  mapRequest?: (request: ProcessRequest) => unknown;
+  access?: ToolAccessPolicy;
+  mutating?: boolean;
+  rateLimit?: RateLimit;
+  inputLimits?: InputLimits;
 }
 
 /**
@@ -29,6 +66,17 @@ export function createToolHandler<TInput, TOutput>(
     name: options.name,
     description: options.description,
     inputSchema: options.inputSchema,
+    outputSchema: options.outputSchema,
+    policy: options.policy,
+    maxConcurrent: options.maxConcurrent,
+    cache: options.cache,
+    capability: options.capability,
+    requestTypes: options.requestTypes,
+    mapRequest: options.mapRequest,
+    access: options.access,
+    mutating: options.mutating,
+    rateLimit: options.rateLimit,
+    inputLimits: options.inputLimits,
     handler: async (input: unknown, context: ToolContext): Promise<ToolResult> => {
       const { logger, requestId } = context;
 
@@ -42,18 +90,30 @@ export function createToolHandler<TInput, TOutput>(
           };
         }
 
-        // Execute handler
-        const output = await options.handler(parseResult.data, context);
+        // Execute handler, collecting streamed output
+        const result = options.handler(parseResult.data, context);
+        const output = isAsyncIterable(result)
+          ? await collectStream(result, context, options.aggregate)
+          : await result;
 
+        // The output is validated against outputSchema by the agent or
+        // server running the tool
         return {
           success: true,
           data: output,
         };
       } catch (error) {
         logger.error({ requestId, error }, 'Tool handler error');
+        const formattedError = formatError(error);
         return {
           success: false,
-          error: error instanceof Error ? error.message : String(error),
+          error: formattedError.message,
+          metadata: {
+            code: formattedError.code,
+            retryable: formattedError.retryable,
+            retryAfterMs: getRetryAfter(error),
+            details: error instanceof SubAgentError ? error.details : undefined,
+          },
         };
       }
     },
@@ -95,21 +155,26 @@ export function createProcessTool(
 
 /**
  * Create a health check tool
+ *
+ * Returns the health report, including per-check results when available.
+ * When `getMetrics` is given, callers can ask for a metrics snapshot
+ * alongside the health status.
  */
 export function createHealthTool(
-  getHealth: () => Promise<{
-    healthy: boolean;
-    version: string;
-    uptime: number;
-    errors?: string[];
-  }>
+  getHealth: () => Promise<Pick<HealthStatus, 'healthy' | 'version' | 'uptime'> & Partial<HealthStatus>>,
+  getMetrics?: () => MetricsSnapshot
 ): ToolDefinition {
   return createToolHandler({
     name: 'health',
     description: 'Check the health status of this sub-agent',
-    inputSchema: z.object({}),
-    handler: async () => {
-      return getHealth();
+    inputSchema: z.object({
+      includeMetrics: z.boolean().default(false).describe('Include a metrics snapshot'),
+    }),
+    handler: async (input) => {
+      const health = await getHealth();
+      return input.includeMetrics && getMetrics
+        ? { ...health, metrics: getMetrics() }
+        : health;
     },
   });
 }
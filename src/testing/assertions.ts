@@ -0,0 +1,85 @@
+import { AssertionError } from 'node:assert';
+import { z } from 'zod';
+import type { ProcessResponse, ToolResult } from '../types/index.js';
+import { ProcessResponseSchema } from '../types/index.js';
+import type { ToolCallOutcome } from './harness.js';
+
+const ToolResultSchema = z.object({
+  success: z.boolean(),
+  data: z.unknown().optional(),
+  error: z.string().optional(),
+  metadata: z.record(z.unknown()).optional(),
+});
+
+type Outcome = ProcessResponse | ToolResult | ToolCallOutcome;
+
+/**
+ * Assert that a value has the shape of a ProcessResponse
+ */
+export function assertProcessResponse(value: unknown): asserts value is ProcessResponse {
+  assertShape(ProcessResponseSchema, value, 'ProcessResponse');
+}
+
+/**
+ * Assert that a value has the shape of a ToolResult
+ */
+export function assertToolResult(value: unknown): asserts value is ToolResult {
+  assertShape(ToolResultSchema, value, 'ToolResult');
+}
+
+/**
+ * Assert that a response, tool result or MCP tool call succeeded
+ *
+ * Returns the results or data.
+ */
+export function expectSuccess<T = unknown>(outcome: Outcome): T {
+  if (!outcome.success) {
+    throw new AssertionError({
+      message: `Expected success but got error: ${outcome.error ?? 'unknown error'}`,
+      actual: outcome,
+      operator: 'expectSuccess',
+    });
+  }
+  return ('results' in outcome ? outcome.results : outcome.data) as T;
+}
+
+/**
+ * Assert that a response, tool result or MCP tool call failed
+ *
+ * When a code is given, the failure must carry that error code.
+ */
+export function expectFailure(
+  outcome: Outcome,
+  code?: string
+): { error?: string; code?: string } {
+  if (outcome.success) {
+    throw new AssertionError({
+      message: 'Expected failure but the call succeeded',
+      actual: outcome,
+      operator: 'expectFailure',
+    });
+  }
+
+  const metadataCode = 'result' in outcome ? outcome.code : outcome.metadata?.['code'];
+  const actualCode = typeof metadataCode === 'string' ? metadataCode : undefined;
+  if (code !== undefined && actualCode !== code) {
+    throw new AssertionError({
+      message: `Expected error code ${code} but got ${actualCode ?? 'none'}: ${outcome.error ?? ''}`,
+      actual: actualCode,
+      expected: code,
+      operator: 'expectFailure',
+    });
+  }
+  return { error: outcome.error, code: actualCode };
+}
+
+function assertShape(schema: z.ZodTypeAny, value: unknown, name: string): void {
+  const result = schema.safeParse(value);
+  if (!result.success) {
+    throw new AssertionError({
+      message: `Expected a ${name}: ${result.error.errors.map((e) => `${e.path.join('.') || '(root)'}: ${e.message}`).join(', ')}`,
+      actual: value,
+      operator: `assert${name}`,
+    });
+  }
+}
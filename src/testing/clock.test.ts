@@ -0,0 +1,155 @@
+import { describe, it, expect, afterEach } from 'vitest';
+import { z } from 'zod';
+import { FakeClock, installFakeClock, flushPromises } from './clock.js';
+import { expectFailure } from './assertions.js';
+import { BaseSubAgent } from '../base/BaseSubAgent.js';
+import { createToolHandler } from '../mcp/tools.js';
+
+let clock: FakeClock | undefined;
+
+afterEach(() => {
+  clock?.uninstall();
+  clock = undefined;
+});
+
+describe('FakeClock', () => {
+  it('drives Date.now() and fires timers in order', async () => {
+    clock = installFakeClock(1000);
+    const fired: string[] = [];
+    setTimeout(() => fired.push('b'), 20);
+    setTimeout(() => fired.push('a'), 10);
+    setTimeout(() => fired.push('c'), 30);
+
+    await clock.tick(20);
+    expect(fired).toEqual(['a', 'b']);
+    expect(Date.now()).toBe(1020);
+    expect(clock.pending).toBe(1);
+
+    await clock.tick(10);
+    expect(fired).toEqual(['a', 'b', 'c']);
+  });
+
+  it('passes timer arguments and honours clearTimeout', async () => {
+    clock = installFakeClock();
+    const fired: unknown[] = [];
+    setTimeout((value: unknown) => fired.push(value), 5, 'arg');
+    clearTimeout(setTimeout(() => fired.push('cleared'), 5));
+
+    await clock.tick(5);
+
+    expect(fired).toEqual(['arg']);
+  });
+
+  it('repeats intervals until cleared', async () => {
+    clock = installFakeClock();
+    let count = 0;
+    const interval = setInterval(() => count++, 10);
+
+    await clock.tick(35);
+    expect(count).toBe(3);
+
+    clearInterval(interval);
+    await clock.tick(50);
+    expect(count).toBe(3);
+  });
+
+  it('fires timers scheduled by code resumed during a tick', async () => {
+    clock = installFakeClock();
+    const sleep = (ms: number) => new Promise((resolve) => setTimeout(resolve, ms));
+    let done = false;
+    void (async () => {
+      await sleep(10);
+      await sleep(10);
+      done = true;
+    })();
+
+    await clock.tick(20);
+
+    expect(done).toBe(true);
+  });
+
+  it('restarts refreshed timers', async () => {
+    clock = installFakeClock();
+    let fired = false;
+    const timer = setTimeout(() => {
+      fired = true;
+    }, 10);
+
+    await clock.tick(5);
+    timer.refresh();
+    await clock.tick(5);
+    expect(fired).toBe(false);
+
+    await clock.tick(5);
+    expect(fired).toBe(true);
+  });
+
+  it('runs all pending timers', async () => {
+    clock = installFakeClock(0);
+    let fired = 0;
+    setTimeout(() => fired++, 100);
+    setTimeout(() => setTimeout(() => fired++, 100), 50);
+
+    await clock.runAll();
+
+    expect(fired).toBe(2);
+    expect(clock.now()).toBe(150);
+  });
+
+  it('stops runAll() when intervals keep firing', async () => {
+    clock = installFakeClock();
+    setInterval(() => {}, 10);
+
+    await expect(clock.runAll(5)).rejects.toThrow('without settling');
+  });
+
+  it('restores the real timers', async () => {
+    const realSetTimeout = globalThis.setTimeout;
+    clock = installFakeClock(0);
+    setTimeout(() => {}, 10);
+    clock.uninstall();
+
+    expect(globalThis.setTimeout).toBe(realSetTimeout);
+    expect(Date.now()).toBeGreaterThan(0);
+    expect(clock.pending).toBe(0);
+  });
+
+  it('leaves setImmediate real so promises can be flushed', async () => {
+    clock = installFakeClock();
+    let resolved = false;
+    void Promise.resolve().then(() => {
+      resolved = true;
+    });
+
+    await flushPromises();
+
+    expect(resolved).toBe(true);
+  });
+
+  it('times out tool calls without waiting', async () => {
+    class SlowAgent extends BaseSubAgent {
+      constructor() {
+        super(
+          { name: 'slow-agent', version: '1.0.0', description: 'Slow', capabilities: [] },
+          { logLevel: 'silent', timeout: 30_000, retryAttempts: 0 }
+        );
+        this.registerTool(createToolHandler({
+          name: 'slow',
+          description: 'Never finishes',
+          inputSchema: z.object({}),
+          handler: () => new Promise(() => {}),
+        }));
+      }
+    }
+    const agent = new SlowAgent();
+    await agent.start();
+    clock = installFakeClock();
+
+    const call = agent.executeTool('slow', {});
+    await clock.tick(30_000);
+
+    expectFailure(await call, 'TIMEOUT');
+    clock.uninstall();
+    await agent.stop();
+  });
+});
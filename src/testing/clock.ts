@@ -0,0 +1,227 @@
+/**
+ * Timer scheduled on a fake clock
+ */
+interface FakeTimer {
+  id: number;
+  at: number;
+  delay: number;
+  repeat: boolean;
+  callback: (...args: unknown[]) => void;
+  args: unknown[];
+}
+
+/**
+ * Handle returned by the fake setTimeout/setInterval
+ *
+ * Mirrors the parts of NodeJS.Timeout that library code commonly calls.
+ */
+class FakeTimeout {
+  constructor(readonly id: number, private clock: FakeClock) {}
+
+  ref(): this {
+    return this;
+  }
+
+  unref(): this {
+    return this;
+  }
+
+  hasRef(): boolean {
+    return true;
+  }
+
+  refresh(): this {
+    this.clock.refresh(this.id);
+    return this;
+  }
+
+  [Symbol.toPrimitive](): number {
+    return this.id;
+  }
+}
+
+/**
+ * Fake clock for timeout and retry tests
+ *
+ * While installed, setTimeout, setInterval, their clear functions and
+ * Date.now() are driven by tick() instead of real time. setImmediate and
+ * `new Date()` are left untouched.
+ *
+ * The testing utilities ship with the package and must work under any test
+ * runner, so this clock does not build on the fake timers of one, such as
+ * vitest's `vi.useFakeTimers()`, which works as well for vitest users.
+ */
+export class FakeClock {
+  private current: number;
+  private timers = new Map<number, FakeTimer>();
+  private nextId = 1;
+  private originals?: {
+    setTimeout: typeof globalThis.setTimeout;
+    clearTimeout: typeof globalThis.clearTimeout;
+    setInterval: typeof globalThis.setInterval;
+    clearInterval: typeof globalThis.clearInterval;
+    dateNow: typeof Date.now;
+  };
+
+  constructor(now: number = Date.now()) {
+    this.current = now;
+  }
+
+  /**
+   * Current fake time in milliseconds
+   */
+  now(): number {
+    return this.current;
+  }
+
+  /**
+   * Number of pending timers
+   */
+  get pending(): number {
+    return this.timers.size;
+  }
+
+  /**
+   * Replace the global timer functions
+   */
+  install(): this {
+    if (this.originals) {
+      return this;
+    }
+    this.originals = {
+      setTimeout: globalThis.setTimeout,
+      clearTimeout: globalThis.clearTimeout,
+      setInterval: globalThis.setInterval,
+      clearInterval: globalThis.clearInterval,
+      dateNow: Date.now,
+    };
+
+    const fakeSetTimeout = (callback: (...args: unknown[]) => void, ms?: number, ...args: unknown[]) =>
+      this.schedule(callback, ms, args);
+    const fakeSetInterval = (callback: (...args: unknown[]) => void, ms?: number, ...args: unknown[]) =>
+      this.schedule(callback, ms, args, true);
+    const fakeClear = (timer?: unknown) => {
+      if (timer !== undefined && timer !== null) {
+        this.timers.delete(Number(timer));
+      }
+    };
+
+    globalThis.setTimeout = fakeSetTimeout as unknown as typeof globalThis.setTimeout;
+    globalThis.setInterval = fakeSetInterval as unknown as typeof globalThis.setInterval;
+    globalThis.clearTimeout = fakeClear as typeof globalThis.clearTimeout;
+    globalThis.clearInterval = fakeClear as typeof globalThis.clearInterval;
+    Date.now = () => this.current;
+    return this;
+  }
+
+  /**
+   * Restore the real timer functions; pending fake timers are dropped
+   */
+  uninstall(): void {
+    if (!this.originals) {
+      return;
+    }
+    globalThis.setTimeout = this.originals.setTimeout;
+    globalThis.clearTimeout = this.originals.clearTimeout;
+    globalThis.setInterval = this.originals.setInterval;
+    globalThis.clearInterval = this.originals.clearInterval;
+    Date.now = this.originals.dateNow;
+    this.originals = undefined;
+    this.timers.clear();
+  }
+
+  /**
+   * Advance time, firing due timers in order
+   *
+   * Pending promise callbacks are flushed before each timer fires, so
+   * timers scheduled by code resumed along the way are honoured.
+   */
+  async tick(ms: number): Promise<void> {
+    const target = this.current + ms;
+    for (;;) {
+      await flushPromises();
+      const next = this.nextDue(target);
+      if (!next) {
+        break;
+      }
+      this.current = next.at;
+      this.fire(next);
+    }
+    this.current = target;
+    await flushPromises();
+  }
+
+  /**
+   * Fire pending timers until none are left
+   *
+   * Stops after `limit` timers to guard against intervals.
+   */
+  async runAll(limit: number = 1000): Promise<void> {
+    for (let fired = 0; fired < limit; fired++) {
+      await flushPromises();
+      const next = this.nextDue(Infinity);
+      if (!next) {
+        return;
+      }
+      this.current = Math.max(this.current, next.at);
+      this.fire(next);
+    }
+    throw new Error(`FakeClock.runAll() fired ${limit} timers without settling`);
+  }
+
+  /**
+   * Restart a timer's delay from the current time
+   */
+  refresh(id: number): void {
+    const timer = this.timers.get(id);
+    if (timer) {
+      this.timers.delete(id);
+      this.timers.set(id, { ...timer, at: this.current + timer.delay });
+    }
+  }
+
+  private schedule(
+    callback: (...args: unknown[]) => void,
+    ms: number | undefined,
+    args: unknown[],
+    repeat: boolean = false
+  ): FakeTimeout {
+    const id = this.nextId++;
+    const delay = Math.max(0, ms ?? 0);
+    this.timers.set(id, { id, at: this.current + delay, delay, repeat, callback, args });
+    return new FakeTimeout(id, this);
+  }
+
+  private nextDue(limit: number): FakeTimer | undefined {
+    let next: FakeTimer | undefined;
+    for (const timer of this.timers.values()) {
+      if (timer.at <= limit && (!next || timer.at < next.at)) {
+        next = timer;
+      }
+    }
+    return next;
+  }
+
+  private fire(timer: FakeTimer): void {
+    if (timer.repeat) {
+      timer.at += Math.max(1, timer.delay);
+    } else {
+      this.timers.delete(timer.id);
+    }
+    timer.callback(...timer.args);
+  }
+}
+
+/**
+ * Create and install a fake clock
+ */
+export function installFakeClock(now?: number): FakeClock {
+  return new FakeClock(now).install();
+}
+
+/**
+ * Let pending promise callbacks run
+ */
+export function flushPromises(): Promise<void> {
+  return new Promise((resolve) => setImmediate(resolve));
+}
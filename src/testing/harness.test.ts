@@ -0,0 +1,121 @@
+import { describe, it, expect, afterEach } from 'vitest';
+import { AssertionError } from 'node:assert';
+import { z } from 'zod';
+import { BaseSubAgent } from '../base/BaseSubAgent.js';
+import { createToolHandler } from '../mcp/tools.js';
+import { SubAgentError, ErrorCode } from '../utils/errors.js';
+import type { ProgressUpdate } from '../types/index.js';
+import { createTestHarness, type TestHarness } from './harness.js';
+import { expectSuccess, expectFailure, assertProcessResponse, assertToolResult } from './assertions.js';
+
+class EchoAgent extends BaseSubAgent {
+  constructor() {
+    super(
+      { name: 'echo-agent', version: '1.0.0', description: 'Echoes input', capabilities: [] },
+      { logLevel: 'silent', retryAttempts: 0 }
+    );
+    this.registerTool(createToolHandler({
+      name: 'echo',
+      description: 'Echo a message',
+      inputSchema: z.object({ message: z.string() }),
+      requestTypes: ['echo'],
+      handler: async ({ message }, context) => {
+        context.reportProgress(1, 2, 'halfway');
+        context.reportProgress(2, 2, 'done');
+        return { message };
+      },
+    }));
+    this.registerTool(createToolHandler({
+      name: 'fail',
+      description: 'Always fails',
+      inputSchema: z.object({}),
+      handler: async () => {
+        throw new SubAgentError('Nope', ErrorCode.PROCESSING_FAILED);
+      },
+    }));
+  }
+}
+
+let harness: TestHarness | undefined;
+
+afterEach(async () => {
+  await harness?.close();
+  harness = undefined;
+});
+
+describe('createTestHarness', () => {
+  it('lists the agent tools over MCP', async () => {
+    harness = await createTestHarness(new EchoAgent());
+
+    const names = (await harness.listTools()).map((tool) => tool.name);
+
+    expect(names).toEqual(expect.arrayContaining(['echo', 'fail']));
+  });
+
+  it('decodes successful tool calls', async () => {
+    harness = await createTestHarness(new EchoAgent());
+
+    const outcome = await harness.callTool('echo', { message: 'hi' });
+
+    expect(expectSuccess(outcome)).toEqual({ message: 'hi' });
+  });
+
+  it('decodes failed tool calls with their code', async () => {
+    harness = await createTestHarness(new EchoAgent());
+
+    const outcome = await harness.callTool('fail');
+
+    expect(expectFailure(outcome, ErrorCode.PROCESSING_FAILED).error).toContain('Nope');
+  });
+
+  it('forwards progress', async () => {
+    harness = await createTestHarness(new EchoAgent());
+    const updates: ProgressUpdate[] = [];
+
+    await harness.callTool('echo', { message: 'hi' }, { onProgress: (update) => updates.push(update) });
+
+    expect(updates).toEqual([
+      { progress: 1, total: 2, message: 'halfway' },
+      { progress: 2, total: 2, message: 'done' },
+    ]);
+  });
+
+  it('processes requests in-process', async () => {
+    harness = await createTestHarness(new EchoAgent());
+
+    const response = await harness.process({ type: 'echo', content: 'hi', options: { message: 'hi' } });
+
+    assertProcessResponse(response);
+    expect(expectSuccess(response)).toEqual({ message: 'hi' });
+  });
+
+  it('captures the agent logs', async () => {
+    harness = await createTestHarness(new EchoAgent());
+
+    await harness.process({ type: 'echo', content: 'hi', options: { message: 'hi' } });
+
+    expect(harness.logs.find('Sub-agent ready')).toBeDefined();
+    expect(harness.logs.find('Processing request')).toMatchObject({ level: 'info', type: 'echo' });
+  });
+});
+
+describe('assertions', () => {
+  it('reject outcomes of the wrong kind', () => {
+    expect(() => expectSuccess({ success: false, results: null, error: 'boom' }))
+      .toThrow(AssertionError);
+    expect(() => expectFailure({ success: true, results: 1 })).toThrow(AssertionError);
+  });
+
+  it('check the error code of failures', () => {
+    const response = { success: false, results: null, error: 'slow', metadata: { processingTimeMs: 1, code: 'TIMEOUT' } };
+
+    expect(expectFailure(response, 'TIMEOUT')).toEqual({ error: 'slow', code: 'TIMEOUT' });
+    expect(() => expectFailure(response, 'CANCELLED')).toThrow('Expected error code CANCELLED but got TIMEOUT');
+  });
+
+  it('check the shape of responses and tool results', () => {
+    expect(() => assertToolResult({ success: true, data: 1 })).not.toThrow();
+    expect(() => assertToolResult({ data: 1 })).toThrow('Expected a ToolResult');
+    expect(() => assertProcessResponse({ success: 'yes' })).toThrow('Expected a ProcessResponse');
+  });
+});
@@ -0,0 +1,183 @@
+import { Client } from '@modelcontextprotocol/sdk/client/index.js';
+import { InMemoryTransport } from '@modelcontextprotocol/sdk/inMemory.js';
+import { McpServer } from '@modelcontextprotocol/sdk/server/mcp.js';
+import type {
+  CallToolResult,
+  GetPromptResult,
+  Prompt,
+  ReadResourceResult,
+  Resource,
+  Tool,
+} from '@modelcontextprotocol/sdk/types.js';
+import type { BaseSubAgent } from '../base/BaseSubAgent.js';
+import type { ProcessRequest, ProcessResponse, ProgressUpdate } from '../types/index.js';
+import { registerTools, registerResources, registerPrompts } from '../mcp/server.js';
+import { decodeContent } from '../mcp/client.js';
+import { LogCapture } from './logs.js';
+
+/**
+ * Options for a test harness
+ */
+export interface TestHarnessOptions {
+  /**
+   * Minimum level of captured log lines (default: trace)
+   */
+  logLevel?: string;
+  /**
+   * Start the agent before connecting (default: true)
+   */
+  initialize?: boolean;
+}
+
+/**
+ * Options for a tool call made through the harness
+ */
+export interface HarnessCallOptions {
+  signal?: AbortSignal;
+  onProgress?: (update: ProgressUpdate) => void;
+  traceparent?: string;
+  /**
+   * Client-side request timeout in milliseconds
+   */
+  timeout?: number;
+}
+
+/**
+ * Result of an MCP tool call, decoded from the JSON text content
+ */
+export interface ToolCallOutcome {
+  success: boolean;
+  data?: unknown;
+  error?: string;
+  code?: string;
+  structuredContent?: Record<string, unknown>;
+  result: CallToolResult;
+}
+
+/**
+ * Sub-agent wired to an SDK client through a linked in-memory transport pair
+ */
+export class TestHarness {
+  readonly agent: BaseSubAgent;
+  readonly client: Client;
+  readonly server: McpServer;
+  readonly logs: LogCapture;
+
+  constructor(agent: BaseSubAgent, client: Client, server: McpServer, logs: LogCapture) {
+    this.agent = agent;
+    this.client = client;
+    this.server = server;
+    this.logs = logs;
+  }
+
+  async listTools(): Promise<Tool[]> {
+    return (await this.client.listTools()).tools;
+  }
+
+  /**
+   * Call a tool over MCP
+   */
+  async callTool(
+    name: string,
+    input: Record<string, unknown> = {},
+    options: HarnessCallOptions = {}
+  ): Promise<ToolCallOutcome> {
+    const result = await this.client.callTool(
+      {
+        name,
+        arguments: input,
+        ...(options.traceparent && { _meta: { traceparent: options.traceparent } }),
+      },
+      undefined,
+      {
+        signal: options.signal,
+        timeout: options.timeout,
+        onprogress: options.onProgress
+          && ((progress) => options.onProgress?.({
+            progress: progress.progress,
+            total: progress.total,
+            message: progress.message,
+          })),
+      }
+    ) as CallToolResult;
+
+    const payload = decodeContent(result);
+    if (result.isError) {
+      const failure = (payload ?? {}) as { error?: string; code?: string };
+      return { success: false, error: failure.error, code: failure.code, result };
+    }
+    return {
+      success: true,
+      data: payload,
+      structuredContent: result.structuredContent,
+      result,
+    };
+  }
+
+  async listResources(): Promise<Resource[]> {
+    return (await this.client.listResources()).resources;
+  }
+
+  async readResource(uri: string): Promise<ReadResourceResult> {
+    return this.client.readResource({ uri });
+  }
+
+  async listPrompts(): Promise<Prompt[]> {
+    return (await this.client.listPrompts()).prompts;
+  }
+
+  async getPrompt(name: string, args?: Record<string, string>): Promise<GetPromptResult> {
+    return this.client.getPrompt({ name, arguments: args });
+  }
+
+  /**
+   * Process a request in-process
+   */
+  process(request: ProcessRequest): Promise<ProcessResponse> {
+    return this.agent.process(request);
+  }
+
+  /**
+   * Close the client and server and stop the agent
+   */
+  async close(): Promise<void> {
+    await this.client.close();
+    await this.server.close();
+    await this.agent.stop();
+  }
+}
+
+/**
+ * Create a test harness for an agent
+ *
+ * The agent's tools, resources and prompts are registered on a fresh MCP
+ * server, and its logger is replaced by one that captures output.
+ */
+export async function createTestHarness(
+  agent: BaseSubAgent,
+  options: TestHarnessOptions = {}
+): Promise<TestHarness> {
+  const metadata = agent.getMetadata();
+  const logs = new LogCapture(options.logLevel ?? 'trace', metadata.name);
+  agent.setLogger(logs.logger);
+
+  if (options.initialize ?? true) {
+    await agent.start();
+  }
+
+  const server = new McpServer({ name: metadata.name, version: metadata.version });
+  registerTools(server, agent, logs.logger);
+  if (agent.getResources().size > 0) {
+    registerResources(server, agent, logs.logger);
+  }
+  if (agent.getPrompts().size > 0) {
+    registerPrompts(server, agent, logs.logger);
+  }
+
+  const [clientTransport, serverTransport] = InMemoryTransport.createLinkedPair();
+  const client = new Client({ name: `${metadata.name}-test-client`, version: metadata.version });
+  await server.connect(serverTransport);
+  await client.connect(clientTransport);
+
+  return new TestHarness(agent, client, server, logs);
+}
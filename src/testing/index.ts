@@ -0,0 +1,22 @@
+/**
+ * XORNG Template Base testing utilities
+ *
+ * In-memory harness, fake clock, log capture and assertions for testing
+ * sub-agents without spawning them.
+ */
+
+export {
+  createTestHarness,
+  TestHarness,
+  type TestHarnessOptions,
+  type HarnessCallOptions,
+  type ToolCallOutcome,
+} from './harness.js';
+export { FakeClock, installFakeClock, flushPromises } from './clock.js';
+export { LogCapture, type LogEntry } from './logs.js';
+export {
+  expectSuccess,
+  expectFailure,
+  assertProcessResponse,
+  assertToolResult,
+} from './assertions.js';
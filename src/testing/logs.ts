@@ -0,0 +1,50 @@
+import { createLogger, MemoryLogSink, type Logger } from '../utils/logger.js';
+
+/**
+ * Parsed log line
+ */
+export interface LogEntry {
+  level: string;
+  msg?: string;
+  [key: string]: unknown;
+}
+
+/**
+ * Logger that keeps its output in memory
+ *
+ * Output is redacted and scrubbed like that of any other logger.
+ */
+export class LogCapture {
+  readonly logger: Logger;
+  private sink = new MemoryLogSink();
+
+  constructor(level: string = 'trace', name?: string) {
+    this.logger = createLogger(level, name, this.sink);
+  }
+
+  get entries(): LogEntry[] {
+    return this.sink.entries as LogEntry[];
+  }
+
+  /**
+   * Find the first entry with the given message, or matching a predicate
+   */
+  find(match: string | ((entry: LogEntry) => boolean)): LogEntry | undefined {
+    return this.entries.find(toPredicate(match));
+  }
+
+  /**
+   * Get all entries with the given message, or matching a predicate
+   */
+  filter(match: string | ((entry: LogEntry) => boolean)): LogEntry[] {
+    return this.entries.filter(toPredicate(match));
+  }
+
+  clear(): void {
+    this.sink.clear();
+  }
+}
+
+function toPredicate(match: string | ((entry: LogEntry) => boolean)): (entry: LogEntry) => boolean {
+  return typeof match === 'string' ? (entry) => entry.msg === match : match;
+}
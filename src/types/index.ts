@@ -1,4 +1,8 @@
 import { z } from 'zod';
+import type { CacheStatus, CacheStore } from '../utils/cache.js';
+import type { Logger } from '../utils/logger.js';
+import type { ToolMetrics } from '../utils/metrics.js';
+import type { Span } from '../utils/tracing.js';
 
 /**
  * Sub-agent capability types
@@ -31,7 +35,180 @@ export interface ToolDefinition {
   name: string;
   description: string;
   inputSchema: z.ZodType<unknown>;
-  handler: (input: unknown, context: ToolContext) => Promise<ToolResult>;
+  outputSchema?: z.ZodType<unknown>;
+  /**
+   * Run the tool; returning an async iterable streams its output in chunks,
+   * which are aggregated into the result's data
+   */
+  handler: (input: unknown, context: ToolContext) => Promise<ToolResult> | AsyncIterable<unknown>;
+  /**
+   * Build the result data from streamed chunks (default: strings are
+   * concatenated, anything else is returned as an array)
+   */
+  aggregate?: (chunks: unknown[]) => unknown;
+  policy?: Partial<ExecutionPolicy>;
+  maxConcurrent?: number;
+  /**
+   * Cache successful results; only for tools that are pure functions of their input
+   */
+  cache?: ToolCacheOptions;
+  /**
+   * Capability this tool provides; process() requests of that type are
+   * routed to it by the default handleRequest()
+   */
+  capability?: SubAgentCapability;
+  /**
+   * Request types routed to this tool by the default handleRequest()
+   */
+  requestTypes?: string[];
+  /**
+   * Build the tool input from a routed request
+   * (default: `{ content, ...options }`)
+   */
+  mapRequest?: (request: ProcessRequest) => unknown;
+  /**
+   * Principals and roles allowed to call this tool (default: anyone)
+   */
+  access?: ToolAccessPolicy;
+  /**
+   * Whether the tool changes state; denied to read-only principals
+   */
+  mutating?: boolean;
+  /**
+   * Token-bucket limit on calls to this tool
+   */
+  rateLimit?: RateLimit;
+  /**
+   * Overrides of the agent's input limits for this tool
+   */
+  inputLimits?: InputLimits;
+}
+
+/**
+ * Size and shape limits checked before input validation
+ */
+export interface InputLimits {
+  /**
+   * Largest payload, measured as JSON, in bytes
+   */
+  maxBytes?: number;
+  /**
+   * Deepest nesting of objects and arrays
+   */
+  maxDepth?: number;
+  /**
+   * Longest string anywhere in the payload
+   */
+  maxStringLength?: number;
+  /**
+   * Most items in an array or keys in an object
+   */
+  maxItems?: number;
+}
+
+export const InputLimitsSchema = z.object({
+  maxBytes: z.number().int().positive().optional(),
+  maxDepth: z.number().int().positive().optional(),
+  maxStringLength: z.number().int().nonnegative().optional(),
+  maxItems: z.number().int().nonnegative().optional(),
+});
+
+/**
+ * What a rate limit keeps a separate bucket for
+ */
+export type RateLimitScope = 'caller' | 'tool' | 'caller-tool';
+
+/**
+ * Token-bucket rate limit; each call takes one token
+ */
+export interface RateLimit {
+  /**
+   * Tokens added per interval
+   */
+  rate: number;
+  /**
+   * Refill interval in milliseconds (default: 1000)
+   */
+  interval?: number;
+  /**
+   * Bucket capacity, i.e. the largest burst (default: rate)
+   */
+  burst?: number;
+  /**
+   * Bucket per caller, per tool or per caller and tool (default: caller)
+   */
+  by?: RateLimitScope;
+}
+
+export const RateLimitSchema = z.object({
+  rate: z.number().positive(),
+  interval: z.number().positive().optional(),
+  burst: z.number().positive().optional(),
+  by: z.enum(['caller', 'tool', 'caller-tool']).optional(),
+});
+
+/**
+ * Authenticated caller of a tool
+ */
+export interface Principal {
+  id: string;
+  roles: string[];
+  /**
+   * Only allowed to call tools that are not mutating
+   */
+  readOnly?: boolean;
+  /**
+   * Claims of the credential the principal was authenticated from
+   */
+  claims?: Record<string, unknown>;
+}
+
+/**
+ * Who may call a tool; a principal matching either list is allowed
+ */
+export interface ToolAccessPolicy {
+  principals?: string[];
+  roles?: string[];
+}
+
+/**
+ * Result caching options for a tool
+ */
+export interface ToolCacheOptions {
+  /**
+   * Time to live in milliseconds (default: no expiry)
+   */
+  ttl?: number;
+  /**
+   * Maximum entries kept by the default in-memory store (default: 1000)
+   */
+  maxEntries?: number;
+  /**
+   * Storage backend (default: in-memory LRU store)
+   */
+  store?: CacheStore;
+  /**
+   * Derive the cache key from the validated input and the caller (default:
+   * stable hash of the input and the principal's id)
+   */
+  key?: (input: unknown, principal?: Principal) => string;
+}
+
+/**
+ * Timeout and retry policy for tool calls and requests
+ */
+export interface ExecutionPolicy {
+  timeout: number;
+  retryAttempts: number;
+  retryDelay: number;
+  backoffMultiplier: number;
+  maxRetryDelay: number;
+  jitter: number;
+  /**
+   * Retry attempts that timed out, although they may still be running
+   * (default: true, or false for mutating tools)
+   */
+  retryTimeouts?: boolean;
 }
 
 /**
@@ -39,8 +216,105 @@ export interface ToolDefinition {
  */
 export interface ToolContext {
   requestId: string;
-  logger: import('../utils/logger.js').Logger;
+  logger: Logger;
   metadata: SubAgentMetadata;
+  /**
+   * Aborted when the call times out, is cancelled, or the agent shuts down
+   */
+  signal: AbortSignal;
+  /**
+   * Report progress to the caller; a no-op when nobody is listening
+   */
+  reportProgress: (progress: number, total?: number, message?: string) => void;
+  /**
+   * Deliver a chunk of streamed output to the caller, resolving when it is
+   * ready for more; done for each chunk of a returned async iterable
+   */
+  emit: (chunk: unknown) => Promise<void>;
+  /**
+   * Record custom counters alongside the built-in metrics
+   */
+  metrics: ToolMetrics;
+  /**
+   * Span of the current call; start child spans from it
+   */
+  span: Span;
+  /**
+   * Authenticated caller, when authentication is configured
+   */
+  principal?: Principal;
+}
+
+/**
+ * Progress update reported by a tool
+ */
+export interface ProgressUpdate {
+  progress: number;
+  total?: number;
+  message?: string;
+}
+
+/**
+ * Options for in-process tool execution
+ */
+export interface ExecuteToolOptions {
+  /**
+   * Cancels the call when aborted
+   */
+  signal?: AbortSignal;
+  /**
+   * Receives progress reported by the tool
+   */
+  onProgress?: (update: ProgressUpdate) => void;
+  /**
+   * Receives chunks of streamed output; the tool waits for a returned
+   * promise before producing more
+   */
+  onChunk?: (chunk: unknown) => void | Promise<void>;
+  /**
+   * W3C traceparent of the caller's span
+   */
+  traceparent?: string;
+  /**
+   * Caller on whose behalf the tool runs (default: the principal of the
+   * request the call belongs to)
+   */
+  principal?: Principal;
+  /**
+   * Credentials to authenticate the caller with the agent's authenticator
+   */
+  credentials?: string;
+  /**
+   * Caller identity for rate limiting when there is no principal, e.g. a
+   * client id the embedding application trusts
+   */
+  caller?: string;
+}
+
+/**
+ * Tool call in a batch
+ */
+export interface BatchCall {
+  tool: string;
+  input: unknown;
+  /**
+   * Request id of the call (default: a new one per call)
+   */
+  requestId?: string;
+}
+
+/**
+ * Options for batch tool execution, applied to every call
+ */
+export interface BatchOptions extends Omit<ExecuteToolOptions, 'onChunk'> {
+  /**
+   * Calls running at a time (default: the agent's maxConcurrent)
+   */
+  concurrency?: number;
+  /**
+   * Skip the calls not yet started once one fails (default: false)
+   */
+  stopOnError?: boolean;
 }
 
 /**
@@ -53,6 +327,95 @@ export interface ToolResult {
   metadata?: Record<string, unknown>;
 }
 
+/**
+ * Tool call seen by middleware
+ */
+export interface ToolCall {
+  tool: ToolDefinition;
+  /**
+   * Validated input; middleware may replace it before calling next()
+   */
+  input: unknown;
+  context: ToolContext;
+}
+
+/**
+ * Middleware around tool execution
+ *
+ * Call `next()` to run the rest of the chain and the handler, or return a
+ * result without calling it to short-circuit.
+ */
+export type ToolMiddleware = (
+  call: ToolCall,
+  next: () => Promise<ToolResult>
+) => Promise<ToolResult>;
+
+/**
+ * Contents of a resource
+ */
+export interface ResourceContent {
+  uri: string;
+  mimeType?: string;
+  text?: string;
+  /**
+   * Base64-encoded binary contents
+   */
+  blob?: string;
+}
+
+/**
+ * A concrete resource listed for a URI template
+ */
+export interface ResourceInfo {
+  uri: string;
+  name: string;
+  description?: string;
+  mimeType?: string;
+}
+
+/**
+ * Resource definition for sub-agents
+ *
+ * The URI is either a static URI or an RFC 6570 URI template such as
+ * `docs://{collection}/{id}`, whose variables are passed to `read`.
+ */
+export interface ResourceDefinition {
+  name: string;
+  uri: string;
+  description?: string;
+  mimeType?: string;
+  /**
+   * List the concrete resources of a URI template
+   */
+  list?: (context: ToolContext) => Promise<ResourceInfo[]>;
+  read: (
+    uri: URL,
+    variables: Record<string, string | string[]>,
+    context: ToolContext
+  ) => Promise<ResourceContent | ResourceContent[]>;
+}
+
+/**
+ * Message produced by a prompt
+ */
+export interface PromptMessage {
+  role: 'user' | 'assistant';
+  content: string;
+}
+
+/**
+ * Prompt definition for sub-agents
+ *
+ * MCP prompt arguments are strings, so the argument schema should be an
+ * object of string fields.
+ */
+export interface PromptDefinition {
+  name: string;
+  description?: string;
+  argsSchema?: z.AnyZodObject;
+  handler: (args: unknown, context: ToolContext) => Promise<PromptMessage[]>;
+}
+
 /**
  * Processing request
  */
@@ -72,6 +435,11 @@ export interface ProcessResponse {
   metadata?: {
     processingTimeMs: number;
     tokensUsed?: number;
+    attempts?: number;
+    /**
+     * How a cached tool call was served
+     */
+    cache?: CacheStatus;
     [key: string]: unknown;
   };
   error?: string;
@@ -93,19 +461,114 @@ export const ProcessResponseSchema = z.object({
   metadata: z.object({
     processingTimeMs: z.number(),
     tokensUsed: z.number().optional(),
+    attempts: z.number().optional(),
+    cache: z.enum(['hit', 'miss', 'coalesced']).optional(),
   }).passthrough().optional(),
   error: z.string().optional(),
 });
 
+/**
+ * Lifecycle state of a sub-agent
+ *
+ * created → initializing → ready → draining → stopped
+ */
+export type LifecycleState = 'created' | 'initializing' | 'ready' | 'draining' | 'stopped';
+
+/**
+ * Overall health of a sub-agent
+ *
+ * An agent is degraded when only non-critical checks fail.
+ */
+export type HealthState = 'healthy' | 'degraded' | 'unhealthy';
+
+/**
+ * Kind of health check
+ *
+ * Failing liveness checks mean the process should be restarted; failing
+ * readiness checks mean it should not receive calls for now.
+ */
+export type HealthCheckKind = 'liveness' | 'readiness';
+
+/**
+ * Named health check registered with an agent
+ */
+export interface HealthCheckDefinition {
+  name: string;
+  /**
+   * Resolves when healthy, throws otherwise
+   */
+  check: (signal: AbortSignal) => Promise<void>;
+  /**
+   * Timeout in milliseconds (default: 5000)
+   */
+  timeout?: number;
+  /**
+   * Whether a failure makes the agent unhealthy rather than degraded
+   * (default: true)
+   */
+  critical?: boolean;
+  /**
+   * Kind of check (default: readiness)
+   */
+  kind?: HealthCheckKind;
+}
+
+/**
+ * Result of one health check
+ */
+export interface HealthCheckResult {
+  name: string;
+  kind: HealthCheckKind;
+  critical: boolean;
+  healthy: boolean;
+  latencyMs: number;
+  /**
+   * ISO timestamp of the last passing run
+   */
+  lastSuccess?: string;
+  error?: string;
+}
+
 /**
  * Health check response
  */
 export interface HealthStatus {
+  /**
+   * False only when the agent is unhealthy; degraded agents are healthy
+   */
   healthy: boolean;
+  status?: HealthState;
+  /**
+   * Whether the process is alive: not stopped and no critical liveness
+   * check failing
+   */
+  live?: boolean;
+  /**
+   * Whether the agent can serve calls: ready and no critical check failing
+   */
+  ready?: boolean;
   version: string;
   uptime: number;
+  state?: LifecycleState;
   capabilities: SubAgentCapability[];
+  checks?: HealthCheckResult[];
   errors?: string[];
+  load?: LoadStatus;
+}
+
+/**
+ * Concurrency and queue statistics
+ */
+export interface LoadStatus {
+  active: number;
+  queued: number;
+  maxConcurrent: number;
+  maxQueueSize: number;
+  rejected: number;
+  averageWaitMs: number;
+  maxWaitMs: number;
+  saturated: boolean;
+  tools: Record<string, { active: number; queued: number; limit?: number }>;
 }
 
 /**
@@ -113,16 +576,50 @@ export interface HealthStatus {
  */
 export interface SubAgentConfig {
   logLevel?: string;
+  /**
+   * Where logs are written (default: pretty, or stdout in production)
+   */
+  logSink?: 'stdout' | 'stderr' | 'pretty' | 'file';
+  /**
+   * Log file, rotated at 10 MiB; implies the file sink
+   */
+  logFile?: string;
+  /**
+   * Additional paths of logged values to redact, e.g. `input.apiKey`
+   */
+  logRedact?: string[];
   timeout?: number;
   maxConcurrent?: number;
+  maxQueueSize?: number;
+  queueTimeout?: number;
   retryAttempts?: number;
   retryDelay?: number;
+  /**
+   * Time to wait for in-flight calls when stopping, in milliseconds
+   */
+  drainTimeout?: number;
+  /**
+   * Limit on calls to any of the agent's tools
+   */
+  rateLimit?: RateLimit;
+  /**
+   * Limits on tool inputs and requests (default: 1 MiB, 32 levels deep)
+   */
+  inputLimits?: InputLimits;
 }
 
 export const SubAgentConfigSchema = z.object({
   logLevel: z.string().optional().default('info'),
+  logSink: z.enum(['stdout', 'stderr', 'pretty', 'file']).optional(),
+  logFile: z.string().optional(),
+  logRedact: z.array(z.string()).optional(),
   timeout: z.number().optional().default(30000),
   maxConcurrent: z.number().optional().default(5),
+  maxQueueSize: z.number().optional().default(100),
+  queueTimeout: z.number().optional().default(30000),
   retryAttempts: z.number().optional().default(3),
   retryDelay: z.number().optional().default(1000),
+  drainTimeout: z.number().optional().default(30000),
+  rateLimit: RateLimitSchema.optional(),
+  inputLimits: InputLimitsSchema.optional(),
 });
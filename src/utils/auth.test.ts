@@ -0,0 +1,155 @@
+import { describe, it, expect } from 'vitest';
+import { createHmac } from 'node:crypto';
+import { z } from 'zod';
+import {
+  ApiKeyAuthenticator,
+  HmacTokenAuthenticator,
+  composeAuthenticators,
+  authenticate,
+  authorize,
+  bearerCredentials,
+} from './auth.js';
+import { ErrorCode } from './errors.js';
+import { createToolHandler } from '../mcp/tools.js';
+import type { Principal, ToolDefinition } from '../types/index.js';
+
+const alice: Principal = { id: 'alice', roles: ['admin'] };
+const bob: Principal = { id: 'bob', roles: ['viewer'], readOnly: true };
+
+function tool(options: Pick<ToolDefinition, 'access' | 'mutating'> = {}): ToolDefinition {
+  return createToolHandler({
+    name: 'deploy',
+    description: 'Deploy',
+    inputSchema: z.object({}),
+    handler: async () => 'deployed',
+    ...options,
+  });
+}
+
+describe('ApiKeyAuthenticator', () => {
+  it('resolves known keys and ignores unknown ones', async () => {
+    const authenticator = new ApiKeyAuthenticator({ 'key-1': alice });
+
+    expect(await authenticator.authenticate('key-1')).toBe(alice);
+    expect(await authenticator.authenticate('key-2')).toBeUndefined();
+  });
+});
+
+describe('HmacTokenAuthenticator', () => {
+  const authenticator = new HmacTokenAuthenticator({ secret: 'shh', issuer: 'xorng', audience: 'agents' });
+
+  it('round-trips signed principals', async () => {
+    const principal = await authenticator.authenticate(authenticator.sign(bob));
+
+    expect(principal).toMatchObject({ id: 'bob', roles: ['viewer'], readOnly: true });
+    expect(principal?.claims).toMatchObject({ iss: 'xorng', aud: 'agents' });
+  });
+
+  it('ignores credentials that are not tokens', async () => {
+    expect(await authenticator.authenticate('not-a-token')).toBeUndefined();
+    expect(await authenticator.authenticate('key.with.dots')).toBeUndefined();
+  });
+
+  it('rejects tampered and foreign tokens', async () => {
+    const [header, , signature] = authenticator.sign(bob).split('.');
+    const forged = Buffer.from(JSON.stringify({ sub: 'bob', roles: ['admin'] })).toString('base64url');
+    const foreign = new HmacTokenAuthenticator({ secret: 'other' }).sign(bob);
+
+    await expect(authenticator.authenticate(`${header}.${forged}.${signature}`))
+      .rejects.toMatchObject({ code: ErrorCode.ACCESS_DENIED, details: { reason: 'invalid token signature' } });
+    await expect(authenticator.authenticate(foreign))
+      .rejects.toMatchObject({ code: ErrorCode.ACCESS_DENIED });
+  });
+
+  it('rejects tokens with another algorithm', async () => {
+    const header = Buffer.from(JSON.stringify({ alg: 'none' })).toString('base64url');
+    const payload = Buffer.from(JSON.stringify({ sub: 'bob' })).toString('base64url');
+    const signature = createHmac('sha256', 'shh').update(`${header}.${payload}`).digest('base64url');
+
+    await expect(authenticator.authenticate(`${header}.${payload}.${signature}`))
+      .rejects.toMatchObject({ details: { reason: 'unsupported token algorithm' } });
+  });
+
+  it('rejects expired tokens unless within the clock tolerance', async () => {
+    const token = authenticator.sign(bob, { expiresIn: -1000 });
+    const tolerant = new HmacTokenAuthenticator({
+      secret: 'shh', issuer: 'xorng', audience: 'agents', clockTolerance: 60_000,
+    });
+
+    await expect(authenticator.authenticate(token))
+      .rejects.toMatchObject({ details: { reason: 'token expired', principal: 'bob' } });
+    expect(await tolerant.authenticate(token)).toMatchObject({ id: 'bob' });
+  });
+
+  it('checks the issuer and audience', async () => {
+    const strict = new HmacTokenAuthenticator({ secret: 'shh', issuer: 'other', audience: 'agents' });
+    const picky = new HmacTokenAuthenticator({ secret: 'shh', audience: 'tools' });
+    const token = authenticator.sign(bob);
+
+    await expect(strict.authenticate(token)).rejects.toMatchObject({ details: { reason: 'unexpected token issuer' } });
+    await expect(picky.authenticate(token)).rejects.toMatchObject({ details: { reason: 'unexpected token audience' } });
+  });
+});
+
+describe('composeAuthenticators', () => {
+  it('uses the first authenticator that recognizes the credentials', async () => {
+    const tokens = new HmacTokenAuthenticator({ secret: 'shh' });
+    const authenticator = composeAuthenticators(tokens, new ApiKeyAuthenticator({ 'key-1': alice }));
+
+    expect(await authenticator.authenticate('key-1')).toBe(alice);
+    expect(await authenticator.authenticate(tokens.sign(bob))).toMatchObject({ id: 'bob' });
+    expect(await authenticator.authenticate('key-2')).toBeUndefined();
+  });
+
+  it('passes API keys with dots on past the token authenticator', async () => {
+    const authenticator = composeAuthenticators(
+      new HmacTokenAuthenticator({ secret: 'shh' }),
+      new ApiKeyAuthenticator({ 'ci.deploy.key': alice })
+    );
+
+    expect(await authenticator.authenticate('ci.deploy.key')).toBe(alice);
+  });
+});
+
+describe('authenticate', () => {
+  const authenticator = new ApiKeyAuthenticator({ 'key-1': alice });
+
+  it('requires credentials by default', async () => {
+    await expect(authenticate({ authenticator }, undefined))
+      .rejects.toMatchObject({ code: ErrorCode.ACCESS_DENIED, details: { reason: 'authentication required' } });
+    expect(await authenticate({ authenticator, required: false }, '')).toBeUndefined();
+  });
+
+  it('rejects unrecognized credentials even when optional', async () => {
+    await expect(authenticate({ authenticator, required: false }, 'key-2'))
+      .rejects.toMatchObject({ details: { reason: 'invalid credentials' } });
+    expect(await authenticate({ authenticator }, 'key-1')).toBe(alice);
+  });
+});
+
+describe('authorize', () => {
+  it('allows anyone without an access policy', () => {
+    expect(() => authorize(tool(), undefined)).not.toThrow();
+  });
+
+  it('matches principals and roles', () => {
+    expect(() => authorize(tool({ access: { principals: ['bob'] } }), bob)).not.toThrow();
+    expect(() => authorize(tool({ access: { roles: ['admin'] } }), alice)).not.toThrow();
+    expect(() => authorize(tool({ access: { roles: ['admin'] } }), bob)).toThrow("principal 'bob' may not call");
+    expect(() => authorize(tool({ access: { roles: ['admin'] } }), undefined)).toThrow('requires an authenticated caller');
+  });
+
+  it('keeps read-only principals away from mutating tools', () => {
+    expect(() => authorize(tool({ mutating: true }), bob)).toThrow('is read-only');
+    expect(() => authorize(tool({ mutating: true }), alice)).not.toThrow();
+  });
+});
+
+describe('bearerCredentials', () => {
+  it('strips the Bearer scheme', () => {
+    expect(bearerCredentials('Bearer abc')).toBe('abc');
+    expect(bearerCredentials('bearer  abc ')).toBe('abc');
+    expect(bearerCredentials('abc')).toBe('abc');
+    expect(bearerCredentials(undefined)).toBeUndefined();
+  });
+});
@@ -0,0 +1,259 @@
+import { createHash, createHmac, timingSafeEqual } from 'node:crypto';
+import type { Principal, ToolDefinition } from '../types/index.js';
+import { accessDeniedError } from './errors.js';
+
+/**
+ * Turns credentials into a principal
+ *
+ * Resolves to undefined for credentials it does not recognize and throws an
+ * ACCESS_DENIED error for recognized credentials that are invalid, e.g. an
+ * expired token.
+ */
+export interface Authenticator {
+  authenticate(credentials: string): Promise<Principal | undefined>;
+}
+
+/**
+ * Authentication settings of an agent or MCP server
+ */
+export interface AuthOptions {
+  authenticator: Authenticator;
+  /**
+   * Reject calls without credentials (default: true)
+   */
+  required?: boolean;
+}
+
+/**
+ * Authenticates static API keys
+ *
+ * Keys are only held as SHA-256 hashes.
+ */
+export class ApiKeyAuthenticator implements Authenticator {
+  private keys = new Map<string, Principal>();
+
+  /**
+   * @param keys - Principal of each API key, by key
+   */
+  constructor(keys: Record<string, Principal>) {
+    for (const [key, principal] of Object.entries(keys)) {
+      this.keys.set(hashKey(key), principal);
+    }
+  }
+
+  async authenticate(credentials: string): Promise<Principal | undefined> {
+    return this.keys.get(hashKey(credentials));
+  }
+}
+
+/**
+ * Options for HMAC-signed tokens
+ */
+export interface HmacTokenOptions {
+  secret: string | Buffer;
+  /**
+   * Required `iss` claim
+   */
+  issuer?: string;
+  /**
+   * Required `aud` claim
+   */
+  audience?: string;
+  /**
+   * Allowed clock skew when checking `exp` and `nbf`, in milliseconds
+   * (default: 0)
+   */
+  clockTolerance?: number;
+}
+
+/**
+ * Issues and verifies HS256 JSON web tokens
+ *
+ * The `sub` claim becomes the principal id, `roles` its roles and
+ * `readOnly` marks a read-only principal. Credentials that are not JWTs
+ * are left to the next authenticator.
+ */
+export class HmacTokenAuthenticator implements Authenticator {
+  private options: HmacTokenOptions;
+
+  constructor(options: HmacTokenOptions) {
+    this.options = options;
+  }
+
+  /**
+   * Issue a token for a principal
+   *
+   * @param options.expiresIn - Lifetime in milliseconds (default: no expiry)
+   */
+  sign(principal: Principal, options: { expiresIn?: number } = {}): string {
+    const now = Math.floor(Date.now() / 1000);
+    const payload: Record<string, unknown> = {
+      ...principal.claims,
+      sub: principal.id,
+      roles: principal.roles,
+      ...(principal.readOnly && { readOnly: true }),
+      ...(this.options.issuer && { iss: this.options.issuer }),
+      ...(this.options.audience && { aud: this.options.audience }),
+      iat: now,
+      ...(options.expiresIn !== undefined && { exp: now + Math.ceil(options.expiresIn / 1000) }),
+    };
+    const unsigned = `${encodeSegment({ alg: 'HS256', typ: 'JWT' })}.${encodeSegment(payload)}`;
+    return `${unsigned}.${this.signature(unsigned).toString('base64url')}`;
+  }
+
+  async authenticate(credentials: string): Promise<Principal | undefined> {
+    const parts = credentials.split('.');
+    if (parts.length !== 3) {
+      return undefined;
+    }
+    const [header, payload, signature] = parts as [string, string, string];
+    const alg = decodeSegment(header)?.['alg'];
+    if (typeof alg !== 'string') {
+      return undefined;
+    }
+
+    const expected = this.signature(`${header}.${payload}`);
+    const actual = Buffer.from(signature, 'base64url');
+    if (actual.length !== expected.length || !timingSafeEqual(actual, expected)) {
+      throw accessDeniedError('invalid token signature');
+    }
+    if (alg !== 'HS256') {
+      throw accessDeniedError('unsupported token algorithm');
+    }
+
+    const claims = decodeSegment(payload);
+    if (!claims || typeof claims['sub'] !== 'string') {
+      throw accessDeniedError('malformed token');
+    }
+
+    const now = Date.now();
+    const tolerance = this.options.clockTolerance ?? 0;
+    if (typeof claims['exp'] === 'number' && claims['exp'] * 1000 + tolerance <= now) {
+      throw accessDeniedError('token expired', { principal: claims['sub'] });
+    }
+    if (typeof claims['nbf'] === 'number' && claims['nbf'] * 1000 - tolerance > now) {
+      throw accessDeniedError('token not yet valid', { principal: claims['sub'] });
+    }
+    if (this.options.issuer !== undefined && claims['iss'] !== this.options.issuer) {
+      throw accessDeniedError('unexpected token issuer', { principal: claims['sub'] });
+    }
+    if (this.options.audience !== undefined && !matchesAudience(claims['aud'], this.options.audience)) {
+      throw accessDeniedError('unexpected token audience', { principal: claims['sub'] });
+    }
+
+    const roles = claims['roles'];
+    return {
+      id: claims['sub'],
+      roles: Array.isArray(roles) ? roles.filter((role): role is string => typeof role === 'string') : [],
+      readOnly: claims['readOnly'] === true,
+      claims,
+    };
+  }
+
+  private signature(unsigned: string): Buffer {
+    return createHmac('sha256', this.options.secret).update(unsigned).digest();
+  }
+}
+
+/**
+ * Try authenticators in order, using the first principal returned
+ */
+export function composeAuthenticators(...authenticators: Authenticator[]): Authenticator {
+  return {
+    async authenticate(credentials) {
+      for (const authenticator of authenticators) {
+        const principal = await authenticator.authenticate(credentials);
+        if (principal) {
+          return principal;
+        }
+      }
+      return undefined;
+    },
+  };
+}
+
+/**
+ * Authenticate the caller of a call
+ *
+ * Resolves to undefined for anonymous calls when authentication is
+ * optional; throws an ACCESS_DENIED error otherwise.
+ */
+export async function authenticate(
+  options: AuthOptions,
+  credentials: string | undefined
+): Promise<Principal | undefined> {
+  if (credentials === undefined || credentials === '') {
+    if (options.required ?? true) {
+      throw accessDeniedError('authentication required');
+    }
+    return undefined;
+  }
+
+  const principal = await options.authenticator.authenticate(credentials);
+  if (!principal) {
+    throw accessDeniedError('invalid credentials');
+  }
+  return principal;
+}
+
+/**
+ * Check a tool's access policy, throwing an ACCESS_DENIED error on denial
+ */
+export function authorize(tool: ToolDefinition, principal: Principal | undefined): void {
+  const access = tool.access;
+  if (access && (access.principals || access.roles)) {
+    if (!principal) {
+      throw accessDeniedError(`tool '${tool.name}' requires an authenticated caller`, { tool: tool.name });
+    }
+    const allowed = access.principals?.includes(principal.id)
+      || principal.roles.some((role) => access.roles?.includes(role));
+    if (!allowed) {
+      throw accessDeniedError(
+        `principal '${principal.id}' may not call tool '${tool.name}'`,
+        { tool: tool.name, principal: principal.id }
+      );
+    }
+  }
+
+  if (tool.mutating && principal?.readOnly) {
+    throw accessDeniedError(
+      `tool '${tool.name}' is mutating and principal '${principal.id}' is read-only`,
+      { tool: tool.name, principal: principal.id }
+    );
+  }
+}
+
+/**
+ * Get the credentials from an Authorization header value, stripping the
+ * Bearer scheme
+ */
+export function bearerCredentials(header: string | undefined): string | undefined {
+  if (!header) {
+    return undefined;
+  }
+  const match = /^Bearer\s+(.+)$/i.exec(header.trim());
+  return match ? match[1] : header.trim();
+}
+
+function hashKey(key: string): string {
+  return createHash('sha256').update(key).digest('hex');
+}
+
+function encodeSegment(value: Record<string, unknown>): string {
+  return Buffer.from(JSON.stringify(value)).toString('base64url');
+}
+
+function decodeSegment(segment: string): Record<string, unknown> | undefined {
+  try {
+    const value: unknown = JSON.parse(Buffer.from(segment, 'base64url').toString('utf8'));
+    return typeof value === 'object' && value !== null && !Array.isArray(value)
+      ? value as Record<string, unknown>
+      : undefined;
+  } catch {
+    return undefined;
+  }
+}
+
+function matchesAudience(aud: unknown, audience: string): boolean {
+  return Array.isArray(aud) ? aud.includes(audience) : aud === audience;
+}
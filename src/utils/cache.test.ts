@@ -0,0 +1,165 @@
+import { describe, it, expect, afterEach } from 'vitest';
+import { mkdtemp, rm } from 'node:fs/promises';
+import { tmpdir } from 'node:os';
+import { join } from 'node:path';
+import { MemoryCacheStore, FileCacheStore, ResultCache, stableHash } from './cache.js';
+
+function deferred<T>() {
+  let resolve!: (value: T) => void;
+  let reject!: (error: unknown) => void;
+  const promise = new Promise<T>((res, rej) => {
+    resolve = res;
+    reject = rej;
+  });
+  return { promise, resolve, reject };
+}
+
+describe('stableHash', () => {
+  it('ignores object key order and undefined values', () => {
+    expect(stableHash({ a: 1, b: [1, 2], c: undefined })).toBe(stableHash({ b: [1, 2], a: 1 }));
+  });
+
+  it('distinguishes different values', () => {
+    expect(stableHash({ a: 1 })).not.toBe(stableHash({ a: '1' }));
+    expect(stableHash([1, 2])).not.toBe(stableHash([2, 1]));
+  });
+});
+
+describe('MemoryCacheStore', () => {
+  it('evicts the least recently used entry', async () => {
+    const store = new MemoryCacheStore({ maxEntries: 2 });
+    await store.set('a', { value: 1 });
+    await store.set('b', { value: 2 });
+    await store.get('a');
+    await store.set('c', { value: 3 });
+
+    expect(await store.get('a')).toEqual({ value: 1 });
+    expect(await store.get('b')).toBeUndefined();
+    expect(store.size).toBe(2);
+  });
+});
+
+describe('FileCacheStore', () => {
+  let directory: string | undefined;
+
+  afterEach(async () => {
+    if (directory) {
+      await rm(directory, { recursive: true, force: true });
+      directory = undefined;
+    }
+  });
+
+  it('stores, deletes and clears entries', async () => {
+    directory = await mkdtemp(join(tmpdir(), 'cache-test-'));
+    const store = new FileCacheStore(join(directory, 'nested'));
+
+    expect(await store.get('missing')).toBeUndefined();
+    await store.set('a', { value: { n: 1 }, expiresAt: 10 });
+    await store.set('b', { value: 2 });
+    expect(await store.get('a')).toEqual({ value: { n: 1 }, expiresAt: 10 });
+
+    await store.delete('a');
+    expect(await store.get('a')).toBeUndefined();
+    await store.clear();
+    expect(await store.get('b')).toBeUndefined();
+  });
+});
+
+describe('ResultCache', () => {
+  it('computes a value once and then serves hits', async () => {
+    const cache = new ResultCache();
+    let calls = 0;
+    const compute = async () => ++calls;
+
+    expect(await cache.run('k', compute)).toEqual({ value: 1, status: 'miss' });
+    expect(await cache.run('k', compute)).toEqual({ value: 1, status: 'hit' });
+    expect(calls).toBe(1);
+  });
+
+  it('expires values after the ttl', async () => {
+    const cache = new ResultCache({ ttl: 10 });
+    let calls = 0;
+    await cache.run('k', async () => ++calls);
+    await new Promise((resolve) => setTimeout(resolve, 20));
+
+    expect(await cache.run('k', async () => ++calls)).toEqual({ value: 2, status: 'miss' });
+  });
+
+  it('only stores cacheable values', async () => {
+    const cache = new ResultCache();
+    await cache.run('k', async () => 'bad', (value) => value !== 'bad');
+
+    expect((await cache.run('k', async () => 'good')).status).toBe('miss');
+  });
+
+  it('treats store failures as misses', async () => {
+    const cache = new ResultCache({
+      store: {
+        get: async () => { throw new Error('down'); },
+        set: async () => { throw new Error('down'); },
+        delete: async () => {},
+        clear: async () => {},
+      },
+    });
+
+    expect(await cache.run('k', async () => 1)).toEqual({ value: 1, status: 'miss' });
+  });
+
+  it('coalesces concurrent computations of a key', async () => {
+    const cache = new ResultCache();
+    const gate = deferred<string>();
+    let calls = 0;
+    const compute = () => {
+      calls++;
+      return gate.promise;
+    };
+
+    const first = cache.run('k', compute);
+    const second = cache.run('k', compute);
+    gate.resolve('value');
+
+    expect(await first).toEqual({ value: 'value', status: 'miss' });
+    expect(await second).toEqual({ value: 'value', status: 'coalesced' });
+    expect(calls).toBe(1);
+  });
+
+  it('shares failures of a computation', async () => {
+    const cache = new ResultCache();
+    const gate = deferred<string>();
+
+    const first = cache.run('k', () => gate.promise);
+    const second = cache.run('k', async () => 'unused');
+    gate.reject(new Error('failed'));
+
+    await expect(first).rejects.toThrow('failed');
+    await expect(second).rejects.toThrow('failed');
+  });
+
+  it('recomputes for waiting calls when the running call is aborted', async () => {
+    const cache = new ResultCache();
+    const controller = new AbortController();
+    const stuck = deferred<string>();
+
+    const first = cache.run('k', () => stuck.promise, undefined, undefined, controller.signal);
+    first.catch(() => {});
+    const second = cache.run('k', async () => 'recomputed', undefined, undefined, new AbortController().signal);
+    controller.abort();
+
+    expect(await second).toEqual({ value: 'recomputed', status: 'miss' });
+    expect(await cache.run('k', async () => 'unused')).toEqual({ value: 'recomputed', status: 'hit' });
+  });
+
+  it('recomputes when a computation fails because its call was aborted', async () => {
+    const cache = new ResultCache();
+    const controller = new AbortController();
+    const gate = deferred<string>();
+
+    const first = cache.run('k', () => gate.promise, undefined, undefined, controller.signal);
+    const second = cache.run('k', async () => 'recomputed');
+    controller.abort();
+    gate.reject(new Error('cancelled'));
+
+    await expect(first).rejects.toThrow('cancelled');
+    expect((await second).value).toBe('recomputed');
+  });
+});
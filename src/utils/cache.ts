@@ -0,0 +1,326 @@
+import { createHash } from 'node:crypto';
+import { mkdir, readFile, readdir, rename, rm, writeFile } from 'node:fs/promises';
+import { join } from 'node:path';
+import type { ToolCacheOptions, ToolDefinition } from '../types/index.js';
+import type { Logger } from './logger.js';
+import { formatError } from './errors.js';
+
+/**
+ * Cached value with its expiry time (epoch milliseconds)
+ */
+export interface CacheEntry {
+  value: unknown;
+  expiresAt?: number;
+}
+
+/**
+ * Storage backend for cached results
+ */
+export interface CacheStore {
+  get(key: string): Promise<CacheEntry | undefined>;
+  set(key: string, entry: CacheEntry): Promise<void>;
+  delete(key: string): Promise<void>;
+  clear(): Promise<void>;
+}
+
+/**
+ * How a cached call was served
+ */
+export type CacheStatus = 'hit' | 'miss' | 'coalesced';
+
+/**
+ * Computation shared by concurrent calls for a key
+ */
+interface PendingComputation {
+  promise: Promise<unknown>;
+  /**
+   * Signal of the call running the computation
+   */
+  signal?: AbortSignal;
+}
+
+/**
+ * In-memory store evicting the least recently used entry when full
+ */
+export class MemoryCacheStore implements CacheStore {
+  private entries = new Map<string, CacheEntry>();
+  private maxEntries: number;
+
+  constructor(options: { maxEntries?: number } = {}) {
+    this.maxEntries = options.maxEntries ?? 1000;
+  }
+
+  get size(): number {
+    return this.entries.size;
+  }
+
+  async get(key: string): Promise<CacheEntry | undefined> {
+    const entry = this.entries.get(key);
+    if (entry) {
+      // Move to the most recently used position
+      this.entries.delete(key);
+      this.entries.set(key, entry);
+    }
+    return entry;
+  }
+
+  async set(key: string, entry: CacheEntry): Promise<void> {
+    this.entries.delete(key);
+    this.entries.set(key, entry);
+    while (this.entries.size > this.maxEntries) {
+      const oldest = this.entries.keys().next().value as string;
+      this.entries.delete(oldest);
+    }
+  }
+
+  async delete(key: string): Promise<void> {
+    this.entries.delete(key);
+  }
+
+  async clear(): Promise<void> {
+    this.entries.clear();
+  }
+}
+
+/**
+ * Store keeping one JSON file per entry in a directory
+ *
+ * Values must be JSON-serializable. The store does not limit the number of
+ * entries; expired entries are removed when read.
+ */
+export class FileCacheStore implements CacheStore {
+  private directory: string;
+
+  constructor(directory: string) {
+    this.directory = directory;
+  }
+
+  async get(key: string): Promise<CacheEntry | undefined> {
+    try {
+      const entry = JSON.parse(await readFile(this.pathFor(key), 'utf8')) as CacheEntry & { key: string };
+      return entry.key === key ? { value: entry.value, expiresAt: entry.expiresAt } : undefined;
+    } catch (error) {
+      if (isNotFound(error)) {
+        return undefined;
+      }
+      throw error;
+    }
+  }
+
+  async set(key: string, entry: CacheEntry): Promise<void> {
+    await mkdir(this.directory, { recursive: true });
+    const path = this.pathFor(key);
+    const temporaryPath = `${path}.${process.pid}.${Date.now()}.tmp`;
+    await writeFile(temporaryPath, JSON.stringify({ key, ...entry }), 'utf8');
+    await rename(temporaryPath, path);
+  }
+
+  async delete(key: string): Promise<void> {
+    await rm(this.pathFor(key), { force: true });
+  }
+
+  async clear(): Promise<void> {
+    let files: string[];
+    try {
+      files = await readdir(this.directory);
+    } catch (error) {
+      if (isNotFound(error)) {
+        return;
+      }
+      throw error;
+    }
+    await Promise.all(
+      files
+        .filter((file) => file.endsWith('.json'))
+        .map((file) => rm(join(this.directory, file), { force: true }))
+    );
+  }
+
+  private pathFor(key: string): string {
+    return join(this.directory, `${createHash('sha256').update(key).digest('hex')}.json`);
+  }
+}
+
+/**
+ * Cache with TTL expiry and coalescing of identical in-flight computations
+ *
+ * Store failures are logged and treated as misses, so a broken store never
+ * fails a call.
+ */
+export class ResultCache {
+  private store: CacheStore;
+  private ttl?: number;
+  private pending = new Map<string, PendingComputation>();
+
+  constructor(options: ToolCacheOptions = {}) {
+    this.store = options.store ?? new MemoryCacheStore({ maxEntries: options.maxEntries });
+    this.ttl = options.ttl;
+  }
+
+  /**
+   * Get a cached value or compute it
+   *
+   * Concurrent calls for the same key share one computation. When the call
+   * running it is aborted through `signal`, the others stop waiting for it
+   * and one of them computes the value again. Only values accepted by
+   * `cacheable` are stored.
+   */
+  async run<T>(
+    key: string,
+    compute: () => Promise<T>,
+    cacheable: (value: T) => boolean = () => true,
+    logger?: Logger,
+    signal?: AbortSignal
+  ): Promise<{ value: T; status: CacheStatus }> {
+    for (let inFlight = this.pending.get(key); inFlight; inFlight = this.pending.get(key)) {
+      const joined = await joinComputation(inFlight);
+      if (joined) {
+        return { value: joined.value as T, status: 'coalesced' };
+      }
+      if (this.pending.get(key) === inFlight) {
+        this.pending.delete(key);
+      }
+    }
+
+    const promise = this.lookupOrCompute(key, compute, cacheable, logger);
+    const computation: PendingComputation = { promise: promise.then(({ value }) => value), signal };
+    computation.promise.catch(() => {});
+    this.pending.set(key, computation);
+    try {
+      return await promise;
+    } finally {
+      if (this.pending.get(key) === computation) {
+        this.pending.delete(key);
+      }
+    }
+  }
+
+  /**
+   * Remove all cached values
+   */
+  clear(): Promise<void> {
+    return this.store.clear();
+  }
+
+  private async lookupOrCompute<T>(
+    key: string,
+    compute: () => Promise<T>,
+    cacheable: (value: T) => boolean,
+    logger?: Logger
+  ): Promise<{ value: T; status: CacheStatus }> {
+    try {
+      const entry = await this.store.get(key);
+      if (entry && (entry.expiresAt === undefined || entry.expiresAt > Date.now())) {
+        return { value: entry.value as T, status: 'hit' };
+      }
+      if (entry) {
+        await this.store.delete(key);
+      }
+    } catch (error) {
+      logger?.warn({ error: formatError(error) }, 'Cache lookup failed');
+    }
+
+    const value = await compute();
+    if (cacheable(value)) {
+      try {
+        await this.store.set(key, {
+          value,
+          expiresAt: this.ttl !== undefined ? Date.now() + this.ttl : undefined,
+        });
+      } catch (error) {
+        logger?.warn({ error: formatError(error) }, 'Cache write failed');
+      }
+    }
+    return { value, status: 'miss' };
+  }
+}
+
+/**
+ * Wait for a shared computation
+ *
+ * Resolves undefined once the call running it is aborted, whether or not
+ * the computation settles.
+ */
+function joinComputation(computation: PendingComputation): Promise<{ value: unknown } | undefined> {
+  const { promise, signal } = computation;
+  if (!signal) {
+    return promise.then((value) => ({ value }));
+  }
+  if (signal.aborted) {
+    return Promise.resolve(undefined);
+  }
+  return new Promise((resolve, reject) => {
+    const onAbort = () => resolve(undefined);
+    signal.addEventListener('abort', onAbort, { once: true });
+    promise.then(
+      (value) => {
+        signal.removeEventListener('abort', onAbort);
+        resolve({ value });
+      },
+      (error: unknown) => {
+        signal.removeEventListener('abort', onAbort);
+        if (signal.aborted) {
+          resolve(undefined);
+        } else {
+          reject(error);
+        }
+      }
+    );
+  });
+}
+
+const toolCaches = new WeakMap<ToolDefinition, ResultCache>();
+
+/**
+ * Get the result cache of a tool, creating it on first use
+ *
+ * Returns undefined for tools without caching enabled.
+ */
+export function getToolCache(tool: ToolDefinition): ResultCache | undefined {
+  if (!tool.cache) {
+    return undefined;
+  }
+  let cache = toolCaches.get(tool);
+  if (!cache) {
+    cache = new ResultCache(tool.cache);
+    toolCaches.set(tool, cache);
+  }
+  return cache;
+}
+
+/**
+ * Hash a value independently of object key order
+ */
+export function stableHash(value: unknown): string {
+  return createHash('sha256').update(stableStringify(value)).digest('hex');
+}
+
+function stableStringify(value: unknown): string {
+  if (value === null || typeof value !== 'object') {
+    if (typeof value === 'bigint') return `${value}n`;
+    if (typeof value === 'number' && !Number.isFinite(value)) return String(value);
+    return JSON.stringify(value) ?? 'null';
+  }
+  if (value instanceof Date) {
+    return JSON.stringify(value.toISOString());
+  }
+  if (Array.isArray(value)) {
+    return `[${value.map(stableStringify).join(',')}]`;
+  }
+  if (value instanceof Map) {
+    const entries = Array.from(value.entries(), ([key, entry]) => `${stableStringify(key)}:${stableStringify(entry)}`);
+    return `Map{${entries.sort().join(',')}}`;
+  }
+  if (value instanceof Set) {
+    return `Set[${Array.from(value, stableStringify).sort().join(',')}]`;
+  }
+  const entries = Object.keys(value)
+    .sort()
+    .filter((key) => (value as Record<string, unknown>)[key] !== undefined)
+    .map((key) => `${JSON.stringify(key)}:${stableStringify((value as Record<string, unknown>)[key])}`);
+  return `{${entries.join(',')}}`;
+}
+
+function isNotFound(error: unknown): boolean {
+  return error instanceof Error && (error as NodeJS.ErrnoException).code === 'ENOENT';
+}
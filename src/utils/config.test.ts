@@ -0,0 +1,180 @@
+import { mkdtempSync, rmSync, writeFileSync } from 'node:fs';
+import { tmpdir } from 'node:os';
+import { join } from 'node:path';
+import { describe, it, expect, beforeEach, afterEach } from 'vitest';
+import { z } from 'zod';
+import { SubAgentConfigSchema } from '../types/index.js';
+import { loadConfig, loadConfigWithSources, watchConfig, type ConfigWatcher } from './config.js';
+import { SubAgentError, ErrorCode } from './errors.js';
+
+let dir: string;
+let file: string;
+
+beforeEach(() => {
+  dir = mkdtempSync(join(tmpdir(), 'config-'));
+  file = join(dir, 'agent.json');
+});
+
+afterEach(() => {
+  rmSync(dir, { recursive: true, force: true });
+});
+
+function writeConfig(content: unknown): void {
+  writeFileSync(file, typeof content === 'string' ? content : JSON.stringify(content));
+}
+
+/**
+ * Load a config that is expected to fail and return its issues
+ */
+function issuesOf(load: () => unknown) {
+  try {
+    load();
+  } catch (error) {
+    expect(error).toBeInstanceOf(SubAgentError);
+    expect((error as SubAgentError).code).toBe(ErrorCode.INVALID_CONFIG);
+    return ((error as SubAgentError).details as { issues: unknown[] }).issues;
+  }
+  throw new Error('Expected the config to be invalid');
+}
+
+describe('loadConfigWithSources', () => {
+  it('layers defaults, file, environment, flags and overrides', () => {
+    writeConfig({ timeout: 1000, maxConcurrent: 2, retryAttempts: 1, logLevel: 'warn' });
+
+    const { config, sources } = loadConfigWithSources({
+      file,
+      env: { XORNG_MAX_CONCURRENT: '4', XORNG_RETRY_ATTEMPTS: '2', XORNG_LOG_LEVEL: 'error' },
+      argv: ['--retry-attempts', '5', '--log-level=debug'],
+      overrides: { logLevel: 'silent' },
+    });
+
+    expect(config).toMatchObject({
+      queueTimeout: 30000,
+      timeout: 1000,
+      maxConcurrent: 4,
+      retryAttempts: 5,
+      logLevel: 'silent',
+    });
+    expect(sources).toMatchObject({
+      queueTimeout: 'default',
+      timeout: 'file',
+      maxConcurrent: 'env',
+      retryAttempts: 'args',
+      logLevel: 'overrides',
+    });
+  });
+
+  it('reads the file named by --config or the environment', () => {
+    writeConfig({ timeout: 1000 });
+
+    expect(loadConfig({ env: {}, argv: ['--config', file] }).timeout).toBe(1000);
+    expect(loadConfig({ env: { XORNG_CONFIG: file }, argv: [] }).timeout).toBe(1000);
+  });
+
+  it('coerces values from the environment and flags to the schema type', () => {
+    const schema = SubAgentConfigSchema.extend({
+      verbose: z.boolean().default(false),
+      languages: z.array(z.string()).default([]),
+      ports: z.array(z.number()).default([]),
+    });
+
+    const config = loadConfig({
+      schema,
+      env: { XORNG_LANGUAGES: 'python, go', XORNG_PORTS: '[80, 443]', XORNG_RATE_LIMIT: '{"rate":5,"burst":10}' },
+      argv: ['--verbose'],
+    });
+
+    expect(config).toMatchObject({
+      verbose: true,
+      languages: ['python', 'go'],
+      ports: [80, 443],
+      rateLimit: { rate: 5, burst: 10 },
+    });
+  });
+
+  it('reports every value that fails to coerce with its variable or flag', () => {
+    const issues = issuesOf(() => loadConfig({
+      env: { XORNG_MAX_CONCURRENT: 'many', XORNG_RATE_LIMIT: '{' },
+      argv: ['--timeout'],
+    }));
+
+    expect(issues).toEqual([
+      { key: 'maxConcurrent', source: 'env', origin: 'XORNG_MAX_CONCURRENT', message: `Expected a number, received 'many'` },
+      { key: 'rateLimit', source: 'env', origin: 'XORNG_RATE_LIMIT', message: 'Expected JSON' },
+      { key: 'timeout', source: 'args', origin: '--timeout', message: 'Missing value' },
+    ]);
+  });
+
+  it('reports values the schema rejects with the layer they came from', () => {
+    writeConfig({ maxConcurrent: 'two' });
+
+    expect(issuesOf(() => loadConfig({ file, env: {}, argv: [] }))).toEqual([
+      { key: 'maxConcurrent', source: 'file', origin: file, message: 'Expected number, received string' },
+    ]);
+  });
+
+  it('reports unknown keys in the file', () => {
+    writeConfig({ $schema: './config.schema.json', maxConcurent: 2, timeout: 1000 });
+
+    expect(issuesOf(() => loadConfig({ file, env: {}, argv: [] }))).toEqual([
+      { key: 'maxConcurent', source: 'file', origin: file, message: 'Unknown key' },
+    ]);
+  });
+
+  it('reports files that are not a JSON object', () => {
+    writeConfig('[1, 2]');
+
+    expect(issuesOf(() => loadConfig({ file, env: {}, argv: [] }))).toEqual([
+      { key: '(file)', source: 'file', origin: file, message: 'Expected a JSON object' },
+    ]);
+  });
+});
+
+describe('watchConfig', () => {
+  let watcher: ConfigWatcher | undefined;
+
+  afterEach(() => {
+    watcher?.close();
+    watcher = undefined;
+  });
+
+  function waitFor<T>(register: (resolve: (value: T) => void) => void): Promise<T> {
+    return new Promise((resolve, reject) => {
+      const timer = setTimeout(() => reject(new Error('Timed out waiting for a reload')), 5000);
+      register((value) => {
+        clearTimeout(timer);
+        resolve(value);
+      });
+    });
+  }
+
+  it('reloads the configuration when the file changes', async () => {
+    writeConfig({ timeout: 1000 });
+    const reloaded = waitFor<number>((resolve) => {
+      watcher = watchConfig({ file, env: {}, argv: [] }, (config) => resolve(config.timeout));
+    });
+
+    writeConfig({ timeout: 2000 });
+
+    expect(await reloaded).toBe(2000);
+  });
+
+  it('passes invalid reloads to onError instead of onChange', async () => {
+    writeConfig({ timeout: 1000 });
+    const changes: unknown[] = [];
+    const failed = waitFor<SubAgentError>((resolve) => {
+      watcher = watchConfig({ file, env: {}, argv: [] }, (config) => changes.push(config), resolve);
+    });
+
+    writeConfig({ timeout: 'soon' });
+
+    const error = await failed;
+    expect(error.code).toBe(ErrorCode.INVALID_CONFIG);
+    expect(error.message).toContain('timeout');
+    expect(changes).toEqual([]);
+  });
+
+  it('requires a config file', () => {
+    expect(() => watchConfig({ env: {}, argv: [] }, () => {})).toThrow('No config file to watch');
+  });
+});
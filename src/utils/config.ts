@@ -0,0 +1,395 @@
+import { readFileSync, watch, type FSWatcher } from 'node:fs';
+import { basename, dirname, resolve } from 'node:path';
+import { z, ZodFirstPartyTypeKind } from 'zod';
+import { SubAgentConfigSchema, type SubAgentConfig } from '../types/index.js';
+import { SubAgentError, ErrorCode, formatError } from './errors.js';
+
+/**
+ * Config fields that can be changed while an agent is running
+ */
+export const RELOADABLE_CONFIG_KEYS = [
+  'logLevel',
+  'timeout',
+  'retryAttempts',
+  'retryDelay',
+  'drainTimeout',
+  'rateLimit',
+  'inputLimits',
+] as const satisfies ReadonlyArray<keyof SubAgentConfig>;
+
+/**
+ * Layer a configuration value came from, in increasing precedence
+ */
+export type ConfigSource = 'default' | 'file' | 'env' | 'args' | 'overrides';
+
+/**
+ * Problem found while loading configuration
+ */
+export interface ConfigIssue {
+  key: string;
+  source: ConfigSource;
+  /**
+   * Where the value was read from, e.g. the variable name or flag
+   */
+  origin?: string;
+  message: string;
+}
+
+/**
+ * Options for loading configuration
+ */
+export interface LoadConfigOptions<S extends z.AnyZodObject = typeof SubAgentConfigSchema> {
+  /**
+   * Schema to validate against; extend SubAgentConfigSchema to add fields
+   */
+  schema?: S;
+  /**
+   * JSON config file (default: --config flag, then the XORNG_CONFIG variable)
+   */
+  file?: string;
+  /**
+   * Environment to read (default: process.env)
+   */
+  env?: Record<string, string | undefined>;
+  /**
+   * Prefix of environment variables (default: XORNG_)
+   */
+  envPrefix?: string;
+  /**
+   * Command-line arguments (default: process.argv.slice(2))
+   */
+  argv?: string[];
+  /**
+   * Values applied over every other layer
+   */
+  overrides?: Partial<z.input<S>>;
+}
+
+/**
+ * Loaded configuration with the layer each field came from
+ */
+export interface LoadedConfig<T> {
+  config: T;
+  sources: Record<string, ConfigSource>;
+  file?: string;
+}
+
+/**
+ * Handle for a config file watcher
+ */
+export interface ConfigWatcher {
+  close(): void;
+}
+
+/**
+ * Load configuration from defaults, a JSON file, environment variables and
+ * command-line flags
+ *
+ * Later layers win: schema defaults, then the file, then `XORNG_*`
+ * variables (`XORNG_MAX_CONCURRENT` sets `maxConcurrent`), then flags
+ * (`--max-concurrent 10`, `--log-level=debug`, `--no-<flag>` for booleans),
+ * then `overrides`. Values from the environment and flags are coerced to the
+ * schema's type; arrays accept JSON or comma-separated lists.
+ *
+ * Throws a SubAgentError with ErrorCode.INVALID_CONFIG listing every
+ * problem, with its source, in `details.issues`. Keys in the file that are
+ * not in the schema are problems too, except `$schema`.
+ */
+export function loadConfig<S extends z.AnyZodObject = typeof SubAgentConfigSchema>(
+  options: LoadConfigOptions<S> = {}
+): z.infer<S> {
+  return loadConfigWithSources(options).config;
+}
+
+/**
+ * Load configuration, also reporting the layer each field came from
+ */
+export function loadConfigWithSources<S extends z.AnyZodObject = typeof SubAgentConfigSchema>(
+  options: LoadConfigOptions<S> = {}
+): LoadedConfig<z.infer<S>> {
+  const schema = (options.schema ?? SubAgentConfigSchema) as S;
+  const shape = schema.shape as Record<string, z.ZodTypeAny>;
+  const env = options.env ?? process.env;
+  const prefix = options.envPrefix ?? 'XORNG_';
+  const argv = options.argv ?? process.argv.slice(2);
+
+  const values: Record<string, unknown> = {};
+  const sources: Record<string, ConfigSource> = {};
+  const origins: Record<string, string> = {};
+  const issues: ConfigIssue[] = [];
+
+  const set = (key: string, value: unknown, source: ConfigSource, origin?: string) => {
+    values[key] = value;
+    sources[key] = source;
+    if (origin !== undefined) {
+      origins[key] = origin;
+    } else {
+      delete origins[key];
+    }
+  };
+
+  // Config file
+  const args = parseArgs(argv);
+  const fileArg = args.get('config');
+  const file = options.file ?? (typeof fileArg === 'string' ? fileArg : undefined) ?? env[`${prefix}CONFIG`];
+  if (file !== undefined) {
+    const path = resolve(file);
+    try {
+      const content = JSON.parse(readFileSync(path, 'utf8')) as unknown;
+      if (content === null || typeof content !== 'object' || Array.isArray(content)) {
+        issues.push({ key: '(file)', source: 'file', origin: path, message: 'Expected a JSON object' });
+      } else {
+        for (const [key, value] of Object.entries(content)) {
+          if (key in shape) {
+            set(key, value, 'file', path);
+          } else if (key !== '$schema') {
+            // Misspelled keys would otherwise silently fall back to defaults
+            issues.push({ key, source: 'file', origin: path, message: 'Unknown key' });
+          }
+        }
+      }
+    } catch (error) {
+      issues.push({ key: '(file)', source: 'file', origin: path, message: formatError(error).message });
+    }
+  }
+
+  // Environment variables
+  for (const key of Object.keys(shape)) {
+    const name = `${prefix}${toConstantCase(key)}`;
+    const raw = env[name];
+    if (raw === undefined) {
+      continue;
+    }
+    const coerced = coerce(raw, shape[key]);
+    if (coerced.success) {
+      set(key, coerced.value, 'env', name);
+    } else {
+      issues.push({ key, source: 'env', origin: name, message: coerced.message });
+    }
+  }
+
+  // Command-line flags
+  for (const key of Object.keys(shape)) {
+    const flag = toKebabCase(key);
+    const raw = args.get(flag);
+    if (raw === undefined) {
+      continue;
+    }
+    const coerced = typeof raw === 'boolean'
+      ? isBoolean(shape[key])
+        ? { success: true as const, value: raw }
+        : { success: false as const, message: 'Missing value' }
+      : coerce(raw, shape[key]);
+    if (coerced.success) {
+      set(key, coerced.value, 'args', `--${flag}`);
+    } else {
+      issues.push({ key, source: 'args', origin: `--${flag}`, message: coerced.message });
+    }
+  }
+
+  for (const [key, value] of Object.entries(options.overrides ?? {})) {
+    if (value !== undefined) {
+      set(key, value, 'overrides');
+    }
+  }
+
+  // Fields that failed to coerce are reported once, not again by the schema
+  const failed = new Set(issues.map((issue) => issue.key));
+  const result = schema.safeParse(values);
+  if (!result.success) {
+    for (const error of result.error.errors) {
+      const key = String(error.path[0] ?? '(root)');
+      if (failed.has(key)) {
+        continue;
+      }
+      issues.push({
+        key: error.path.join('.') || key,
+        source: sources[key] ?? 'default',
+        origin: origins[key],
+        message: error.message,
+      });
+    }
+  }
+
+  if (issues.length > 0 || !result.success) {
+    throw new SubAgentError(
+      `Invalid configuration: ${issues.map(formatIssue).join('; ')}`,
+      ErrorCode.INVALID_CONFIG,
+      { issues }
+    );
+  }
+
+  for (const key of Object.keys(shape)) {
+    sources[key] ??= 'default';
+  }
+  return { config: result.data as z.infer<S>, sources, file: file && resolve(file) };
+}
+
+/**
+ * Reload configuration whenever its file changes
+ *
+ * Invalid configurations are passed to onError and otherwise ignored, so
+ * the last valid configuration stays in effect.
+ */
+export function watchConfig<S extends z.AnyZodObject = typeof SubAgentConfigSchema>(
+  options: LoadConfigOptions<S>,
+  onChange: (config: z.infer<S>) => void,
+  onError: (error: SubAgentError) => void = () => {}
+): ConfigWatcher {
+  const { file } = loadConfigWithSources(options);
+  if (file === undefined) {
+    throw new SubAgentError('No config file to watch', ErrorCode.INVALID_CONFIG);
+  }
+
+  let timer: NodeJS.Timeout | undefined;
+  const reload = () => {
+    timer = undefined;
+    try {
+      onChange(loadConfig({ ...options, file }));
+    } catch (error) {
+      onError(error instanceof SubAgentError
+        ? error
+        : new SubAgentError(formatError(error).message, ErrorCode.INVALID_CONFIG));
+    }
+  };
+
+  // Watch the directory, as editors often replace the file on save and emit
+  // several events for one change
+  const name = basename(file);
+  const watcher: FSWatcher = watch(dirname(file), (_event, changed) => {
+    if (changed !== null && changed.toString() !== name) {
+      return;
+    }
+    clearTimeout(timer);
+    timer = setTimeout(reload, 100);
+  });
+  watcher.unref();
+
+  return {
+    close: () => {
+      clearTimeout(timer);
+      watcher.close();
+    },
+  };
+}
+
+function formatIssue(issue: ConfigIssue): string {
+  const origin = issue.origin ? ` ${issue.origin}` : '';
+  return `${issue.key} (${issue.source}${origin}): ${issue.message}`;
+}
+
+/**
+ * Parse `--name value`, `--name=value`, `--flag` and `--no-flag` arguments
+ */
+function parseArgs(argv: string[]): Map<string, string | boolean> {
+  const args = new Map<string, string | boolean>();
+  for (let i = 0; i < argv.length; i++) {
+    const arg = argv[i];
+    if (arg === '--') {
+      break;
+    }
+    if (!arg.startsWith('--')) {
+      continue;
+    }
+
+    const equals = arg.indexOf('=');
+    if (equals !== -1) {
+      args.set(arg.slice(2, equals), arg.slice(equals + 1));
+    } else if (arg.startsWith('--no-')) {
+      args.set(arg.slice(5), false);
+    } else if (i + 1 < argv.length && !argv[i + 1].startsWith('--')) {
+      args.set(arg.slice(2), argv[++i]);
+    } else {
+      args.set(arg.slice(2), true);
+    }
+  }
+  return args;
+}
+
+type Coerced = { success: true; value: unknown } | { success: false; message: string };
+
+/**
+ * Convert a string from the environment or command line to a schema's type
+ */
+function coerce(raw: string, schema: z.ZodTypeAny): Coerced {
+  const inner = unwrap(schema);
+  switch ((inner._def as { typeName?: ZodFirstPartyTypeKind }).typeName) {
+    case ZodFirstPartyTypeKind.ZodNumber: {
+      const value = Number(raw);
+      return raw.trim() !== '' && !Number.isNaN(value)
+        ? { success: true, value }
+        : { success: false, message: `Expected a number, received '${raw}'` };
+    }
+    case ZodFirstPartyTypeKind.ZodBoolean: {
+      const value = raw.toLowerCase();
+      if (['true', '1', 'yes', 'on'].includes(value)) return { success: true, value: true };
+      if (['false', '0', 'no', 'off'].includes(value)) return { success: true, value: false };
+      return { success: false, message: `Expected a boolean, received '${raw}'` };
+    }
+    case ZodFirstPartyTypeKind.ZodArray: {
+      if (raw.trim().startsWith('[')) {
+        return parseJson(raw);
+      }
+      const element = (inner as z.ZodArray<z.ZodTypeAny>).element;
+      const items = raw.split(',').map((item) => item.trim()).filter((item) => item !== '');
+      const value: unknown[] = [];
+      for (const item of items) {
+        const coerced = coerce(item, element);
+        if (!coerced.success) {
+          return coerced;
+        }
+        value.push(coerced.value);
+      }
+      return { success: true, value };
+    }
+    case ZodFirstPartyTypeKind.ZodObject:
+    case ZodFirstPartyTypeKind.ZodRecord:
+    case ZodFirstPartyTypeKind.ZodTuple:
+      return parseJson(raw);
+    default:
+      return { success: true, value: raw };
+  }
+}
+
+function parseJson(raw: string): Coerced {
+  try {
+    return { success: true, value: JSON.parse(raw) as unknown };
+  } catch {
+    return { success: false, message: 'Expected JSON' };
+  }
+}
+
+function isBoolean(schema: z.ZodTypeAny): boolean {
+  return (unwrap(schema)._def as { typeName?: ZodFirstPartyTypeKind }).typeName
+    === ZodFirstPartyTypeKind.ZodBoolean;
+}
+
+/**
+ * Strip optional, nullable, default and effects wrappers
+ */
+function unwrap(schema: z.ZodTypeAny): z.ZodTypeAny {
+  let current = schema;
+  for (;;) {
+    const def = current._def as { typeName?: ZodFirstPartyTypeKind; innerType?: z.ZodTypeAny; schema?: z.ZodTypeAny };
+    switch (def.typeName) {
+      case ZodFirstPartyTypeKind.ZodOptional:
+      case ZodFirstPartyTypeKind.ZodNullable:
+      case ZodFirstPartyTypeKind.ZodDefault:
+        current = def.innerType as z.ZodTypeAny;
+        break;
+      case ZodFirstPartyTypeKind.ZodEffects:
+        current = def.schema as z.ZodTypeAny;
+        break;
+      default:
+        return current;
+    }
+  }
+}
+
+function toConstantCase(key: string): string {
+  return key.replace(/([a-z0-9])([A-Z])/g, '$1_$2').toUpperCase();
+}
+
+function toKebabCase(key: string): string {
+  return key.replace(/([a-z0-9])([A-Z])/g, '$1-$2').toLowerCase();
+}
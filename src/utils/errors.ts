@@ -6,12 +6,16 @@ export enum ErrorCode {
   UNKNOWN = 'UNKNOWN',
   INVALID_INPUT = 'INVALID_INPUT',
   TIMEOUT = 'TIMEOUT',
+  CANCELLED = 'CANCELLED',
   RATE_LIMITED = 'RATE_LIMITED',
+  NOT_READY = 'NOT_READY',
+  SHUTTING_DOWN = 'SHUTTING_DOWN',
 
   // Processing errors
   PROCESSING_FAILED = 'PROCESSING_FAILED',
   VALIDATION_FAILED = 'VALIDATION_FAILED',
   ANALYSIS_FAILED = 'ANALYSIS_FAILED',
+  UNSUPPORTED_REQUEST = 'UNSUPPORTED_REQUEST',
 
   // Resource errors
   NOT_FOUND = 'NOT_FOUND',
@@ -73,12 +77,22 @@ export function formatError(error: unknown): {
   message: string;
   code: ErrorCode;
   details?: Record<string, unknown>;
+  retryable: boolean;
 } {
   if (error instanceof SubAgentError) {
     return {
       message: error.message,
       code: error.code,
       details: error.details,
+      retryable: error.retryable,
+    };
+  }
+
+  if (error instanceof Error && error.name === 'AbortError') {
+    return {
+      message: error.message,
+      code: ErrorCode.CANCELLED,
+      retryable: false,
     };
   }
 
@@ -87,12 +101,14 @@ export function formatError(error: unknown): {
       message: error.message,
       code: ErrorCode.UNKNOWN,
       details: { stack: error.stack },
+      retryable: false,
     };
   }
 
   return {
     message: String(error),
     code: ErrorCode.UNKNOWN,
+    retryable: false,
   };
 }
 
@@ -131,3 +147,63 @@ export function timeoutError(
     true
   );
 }
+
+/**
+ * Create a cancellation error
+ */
+export function cancelledError(
+  operation: string,
+  reason: string = 'cancelled by caller'
+): SubAgentError {
+  return new SubAgentError(
+    `Operation '${operation}' was cancelled: ${reason}`,
+    ErrorCode.CANCELLED,
+    { operation, reason },
+    false
+  );
+}
+
+/**
+ * Create an access denied error
+ */
+export function accessDeniedError(
+  reason: string,
+  details?: Record<string, unknown>
+): SubAgentError {
+  return new SubAgentError(
+    `Access denied: ${reason}`,
+    ErrorCode.ACCESS_DENIED,
+    { reason, ...details },
+    false
+  );
+}
+
+/**
+ * Create a rate limit error telling the caller when to retry
+ */
+export function rateLimitedError(
+  retryAfterMs: number,
+  details?: Record<string, unknown>
+): SubAgentError {
+  return new SubAgentError(
+    `Rate limit exceeded, retry after ${retryAfterMs}ms`,
+    ErrorCode.RATE_LIMITED,
+    { ...details, retryAfterMs },
+    true
+  );
+}
+
+/**
+ * Get how long a rate limited caller was asked to wait, in milliseconds
+ */
+export function getRetryAfter(error: unknown): number | undefined {
+  const retryAfterMs = error instanceof SubAgentError ? error.details?.['retryAfterMs'] : undefined;
+  return typeof retryAfterMs === 'number' ? retryAfterMs : undefined;
+}
+
+/**
+ * Check whether an operation failed by timing out
+ */
+export function isTimeout(error: unknown): boolean {
+  return error instanceof SubAgentError && error.code === ErrorCode.TIMEOUT;
+}
@@ -0,0 +1,280 @@
+import { describe, it, expect } from 'vitest';
+import { z } from 'zod';
+import { zodToJsonSchema } from './jsonSchema.js';
+
+describe('zodToJsonSchema', () => {
+  describe('primitive types', () => {
+    it.each([
+      ['string', z.string(), { type: 'string' }],
+      ['number', z.number(), { type: 'number' }],
+      ['integer', z.number().int(), { type: 'integer' }],
+      ['bigint', z.bigint(), { type: 'integer', format: 'int64' }],
+      ['boolean', z.boolean(), { type: 'boolean' }],
+      ['date', z.date(), { type: 'string', format: 'date-time' }],
+      ['null', z.null(), { type: 'null' }],
+      ['never', z.never(), { not: {} }],
+      ['any', z.any(), {}],
+      ['unknown', z.unknown(), {}],
+    ])('converts %s', (_, schema, expected) => {
+      expect(zodToJsonSchema(schema)).toEqual(expected);
+    });
+  });
+
+  describe('literals and enums', () => {
+    it('converts literals', () => {
+      expect(zodToJsonSchema(z.literal('a'))).toEqual({ type: 'string', const: 'a' });
+      expect(zodToJsonSchema(z.literal(1))).toEqual({ type: 'number', const: 1 });
+      expect(zodToJsonSchema(z.literal(true))).toEqual({ type: 'boolean', const: true });
+      expect(zodToJsonSchema(z.literal(null))).toEqual({ type: 'null' });
+    });
+
+    it('converts enums', () => {
+      expect(zodToJsonSchema(z.enum(['a', 'b']))).toEqual({ type: 'string', enum: ['a', 'b'] });
+    });
+
+    it('converts native enums without reverse mappings', () => {
+      enum Numeric { A, B }
+      enum Mixed { A = 'a', B = 1 }
+
+      expect(zodToJsonSchema(z.nativeEnum(Numeric))).toEqual({ type: 'number', enum: [0, 1] });
+      expect(zodToJsonSchema(z.nativeEnum(Mixed))).toEqual({ type: ['string', 'number'], enum: ['a', 1] });
+    });
+  });
+
+  describe('constraints', () => {
+    it('carries string constraints and formats', () => {
+      expect(zodToJsonSchema(z.string().min(1).max(10))).toEqual({ type: 'string', minLength: 1, maxLength: 10 });
+      expect(zodToJsonSchema(z.string().length(3))).toEqual({ type: 'string', minLength: 3, maxLength: 3 });
+      expect(zodToJsonSchema(z.string().email())).toEqual({ type: 'string', format: 'email' });
+      expect(zodToJsonSchema(z.string().url())).toEqual({ type: 'string', format: 'uri' });
+      expect(zodToJsonSchema(z.string().uuid())).toEqual({ type: 'string', format: 'uuid' });
+      expect(zodToJsonSchema(z.string().datetime())).toEqual({ type: 'string', format: 'date-time' });
+      expect(zodToJsonSchema(z.string().ip({ version: 'v6' }))).toEqual({ type: 'string', format: 'ipv6' });
+    });
+
+    it('converts string patterns', () => {
+      expect(zodToJsonSchema(z.string().regex(/^[a-z]+$/))).toEqual({ type: 'string', pattern: '^[a-z]+$' });
+      expect(zodToJsonSchema(z.string().startsWith('a.').endsWith('!'))).toEqual({
+        type: 'string',
+        allOf: [{ pattern: '^a\\.' }, { pattern: '!$' }],
+      });
+    });
+
+    it('carries number constraints', () => {
+      expect(zodToJsonSchema(z.number().int().min(0).max(10).multipleOf(2))).toEqual({
+        type: 'integer',
+        minimum: 0,
+        maximum: 10,
+        multipleOf: 2,
+      });
+      expect(zodToJsonSchema(z.number().positive().lt(5))).toEqual({
+        type: 'number',
+        exclusiveMinimum: 0,
+        exclusiveMaximum: 5,
+      });
+      expect(zodToJsonSchema(z.bigint().min(1n))).toEqual({ type: 'integer', format: 'int64', minimum: 1 });
+    });
+
+    it('carries array and set sizes', () => {
+      expect(zodToJsonSchema(z.array(z.string()).min(1).max(3))).toEqual({
+        type: 'array',
+        items: { type: 'string' },
+        minItems: 1,
+        maxItems: 3,
+      });
+      expect(zodToJsonSchema(z.array(z.number()).length(2))).toMatchObject({ minItems: 2, maxItems: 2 });
+      expect(zodToJsonSchema(z.set(z.string()).max(4))).toEqual({
+        type: 'array',
+        uniqueItems: true,
+        items: { type: 'string' },
+        maxItems: 4,
+      });
+    });
+  });
+
+  describe('composite types', () => {
+    it('converts objects with required and optional fields', () => {
+      const schema = z.object({
+        name: z.string().describe('Name'),
+        age: z.number().optional(),
+        role: z.string().default('user'),
+      });
+
+      expect(zodToJsonSchema(schema)).toEqual({
+        type: 'object',
+        properties: {
+          name: { type: 'string', description: 'Name' },
+          age: { type: 'number' },
+          role: { type: 'string', default: 'user' },
+        },
+        required: ['name'],
+      });
+    });
+
+    it('converts strict objects and catchalls', () => {
+      expect(zodToJsonSchema(z.object({}).strict())).toEqual({
+        type: 'object',
+        properties: {},
+        additionalProperties: false,
+      });
+      expect(zodToJsonSchema(z.object({}).catchall(z.number()))).toEqual({
+        type: 'object',
+        properties: {},
+        additionalProperties: { type: 'number' },
+      });
+    });
+
+    it('converts tuples', () => {
+      expect(zodToJsonSchema(z.tuple([z.string(), z.number()]))).toEqual({
+        type: 'array',
+        prefixItems: [{ type: 'string' }, { type: 'number' }],
+        minItems: 2,
+        items: false,
+        maxItems: 2,
+      });
+      expect(zodToJsonSchema(z.tuple([z.string()]).rest(z.boolean()))).toEqual({
+        type: 'array',
+        prefixItems: [{ type: 'string' }],
+        minItems: 1,
+        items: { type: 'boolean' },
+      });
+    });
+
+    it('converts records and maps', () => {
+      expect(zodToJsonSchema(z.record(z.enum(['a', 'b']), z.number()))).toEqual({
+        type: 'object',
+        additionalProperties: { type: 'number' },
+        propertyNames: { enum: ['a', 'b'] },
+      });
+      expect(zodToJsonSchema(z.map(z.string(), z.number()))).toEqual({
+        type: 'array',
+        items: {
+          type: 'array',
+          prefixItems: [{ type: 'string' }, { type: 'number' }],
+          minItems: 2,
+          maxItems: 2,
+        },
+      });
+    });
+
+    it('converts unions and intersections', () => {
+      expect(zodToJsonSchema(z.union([z.string(), z.number()]))).toEqual({
+        anyOf: [{ type: 'string' }, { type: 'number' }],
+      });
+      expect(zodToJsonSchema(z.discriminatedUnion('kind', [
+        z.object({ kind: z.literal('a') }),
+        z.object({ kind: z.literal('b') }),
+      ]))).toMatchObject({ anyOf: [{ type: 'object' }, { type: 'object' }] });
+      expect(zodToJsonSchema(z.intersection(z.object({ a: z.string() }), z.object({ b: z.number() })))).toMatchObject({
+        allOf: [{ required: ['a'] }, { required: ['b'] }],
+      });
+    });
+
+    it('converts nullable types', () => {
+      expect(zodToJsonSchema(z.string().nullable())).toEqual({ type: ['string', 'null'] });
+      expect(zodToJsonSchema(z.enum(['a']).nullable())).toEqual({
+        anyOf: [{ type: 'string', enum: ['a'] }, { type: 'null' }],
+      });
+    });
+
+    it('unwraps wrapper types', () => {
+      expect(zodToJsonSchema(z.string().catch('x'))).toEqual({ type: 'string' });
+      expect(zodToJsonSchema(z.string().brand('Id'))).toEqual({ type: 'string' });
+      expect(zodToJsonSchema(z.string().refine((s) => s.length > 0))).toEqual({ type: 'string' });
+      expect(zodToJsonSchema(z.promise(z.number()))).toEqual({ type: 'number' });
+      expect(zodToJsonSchema(z.array(z.string()).readonly())).toEqual({
+        type: 'array',
+        items: { type: 'string' },
+        readOnly: true,
+      });
+    });
+  });
+
+  describe('recursion', () => {
+    interface Category {
+      name: string;
+      children: Category[];
+    }
+
+    it('references a recursive root schema with #', () => {
+      const category: z.ZodType<Category> = z.lazy(() => z.object({
+        name: z.string(),
+        children: z.array(category),
+      }));
+
+      expect(zodToJsonSchema(category)).toEqual({
+        type: 'object',
+        properties: {
+          name: { type: 'string' },
+          children: { type: 'array', items: { $ref: '#' } },
+        },
+        required: ['name', 'children'],
+      });
+    });
+
+    it('emits nested recursive schemas as $defs', () => {
+      const category: z.ZodType<Category> = z.lazy(() => z.object({
+        name: z.string(),
+        children: z.array(category),
+      }));
+      const schema = z.object({ root: category, other: category.optional() });
+
+      expect(zodToJsonSchema(schema)).toEqual({
+        type: 'object',
+        properties: {
+          root: { $ref: '#/$defs/Lazy1' },
+          other: { $ref: '#/$defs/Lazy1' },
+        },
+        required: ['root'],
+        $defs: {
+          Lazy1: {
+            type: 'object',
+            properties: {
+              name: { type: 'string' },
+              children: { type: 'array', items: { $ref: '#/$defs/Lazy1' } },
+            },
+            required: ['name', 'children'],
+          },
+        },
+      });
+    });
+
+    it('inlines lazy schemas that are not recursive', () => {
+      const schema = z.object({ value: z.lazy(() => z.string()) });
+
+      expect(zodToJsonSchema(schema)).toEqual({
+        type: 'object',
+        properties: { value: { type: 'string' } },
+        required: ['value'],
+      });
+    });
+  });
+
+  describe('output mode', () => {
+    it('requires fields with defaults', () => {
+      const schema = z.object({ role: z.string().default('user'), note: z.string().optional() });
+
+      expect(zodToJsonSchema(schema, { io: 'output' })).toMatchObject({ required: ['role'] });
+      expect(zodToJsonSchema(schema)).not.toHaveProperty('required');
+    });
+
+    it('uses the output side of pipelines', () => {
+      const schema = z.string().pipe(z.coerce.number());
+
+      expect(zodToJsonSchema(schema)).toEqual({ type: 'string' });
+      expect(zodToJsonSchema(schema, { io: 'output' })).toEqual({ type: 'number' });
+    });
+
+    it('accepts any value for transforms', () => {
+      const schema = z.string().transform((s) => s.length);
+
+      expect(zodToJsonSchema(schema)).toEqual({ type: 'string' });
+      expect(zodToJsonSchema(schema, { io: 'output' })).toEqual({});
+    });
+
+    it('keeps the schema of refinements and preprocessing', () => {
+      expect(zodToJsonSchema(z.number().refine((n) => n > 0), { io: 'output' })).toEqual({ type: 'number' });
+      expect(zodToJsonSchema(z.preprocess(Number, z.number()), { io: 'output' })).toEqual({ type: 'number' });
+    });
+  });
+});
@@ -0,0 +1,392 @@
+import { z, ZodFirstPartyTypeKind } from 'zod';
+
+/**
+ * JSON schema document
+ */
+export type JsonSchema = Record<string, unknown>;
+
+/**
+ * Options for converting a schema
+ */
+export interface JsonSchemaOptions {
+  /**
+   * Describe the schema's input (default) or its parsed output. In output
+   * mode fields with defaults are required, pipelines use their output and
+   * transforms accept any value.
+   */
+  io?: 'input' | 'output';
+}
+
+/**
+ * Conversion state shared across a single schema
+ */
+interface ConversionState {
+  io: 'input' | 'output';
+  root: z.ZodTypeAny;
+  defs: Record<string, JsonSchema>;
+  lazyNames: Map<z.ZodTypeAny, string>;
+  referenced: Set<string>;
+  lazyCount: number;
+}
+
+const STRING_FORMATS: Record<string, string> = {
+  email: 'email',
+  url: 'uri',
+  uuid: 'uuid',
+  datetime: 'date-time',
+  date: 'date',
+  time: 'time',
+  duration: 'duration',
+};
+
+/**
+ * Convert a Zod schema to a JSON schema (draft 2020-12)
+ *
+ * Descriptions, defaults and constraints are carried over. Recursive
+ * schemas built with z.lazy() are emitted as $defs entries referenced
+ * through $ref; a recursive reference to the root schema uses "#".
+ */
+export function zodToJsonSchema(
+  schema: z.ZodTypeAny,
+  options: JsonSchemaOptions = {}
+): JsonSchema {
+  const state: ConversionState = {
+    io: options.io ?? 'input',
+    root: schema,
+    defs: {},
+    lazyNames: new Map(),
+    referenced: new Set(),
+    lazyCount: 0,
+  };
+
+  const result = convert(schema, state);
+
+  return Object.keys(state.defs).length > 0
+    ? { ...result, $defs: state.defs }
+    : result;
+}
+
+function convert(schema: z.ZodTypeAny, state: ConversionState): JsonSchema {
+  const result = convertType(schema, state);
+  return schema.description !== undefined
+    ? { ...result, description: schema.description }
+    : result;
+}
+
+function convertType(schema: z.ZodTypeAny, state: ConversionState): JsonSchema {
+  const def = schema._def as { typeName?: ZodFirstPartyTypeKind };
+
+  switch (def.typeName) {
+    case ZodFirstPartyTypeKind.ZodString:
+      return convertString(schema as z.ZodString);
+    case ZodFirstPartyTypeKind.ZodNumber:
+      return convertNumber(schema as z.ZodNumber);
+    case ZodFirstPartyTypeKind.ZodBigInt:
+      return convertBigInt(schema as z.ZodBigInt);
+    case ZodFirstPartyTypeKind.ZodBoolean:
+      return { type: 'boolean' };
+    case ZodFirstPartyTypeKind.ZodDate:
+      return { type: 'string', format: 'date-time' };
+    case ZodFirstPartyTypeKind.ZodNull:
+      return { type: 'null' };
+    case ZodFirstPartyTypeKind.ZodNever:
+      return { not: {} };
+    case ZodFirstPartyTypeKind.ZodLiteral:
+      return convertLiteral((schema as z.ZodLiteral<unknown>)._def.value);
+    case ZodFirstPartyTypeKind.ZodEnum:
+      return { type: 'string', enum: (schema as z.ZodEnum<[string, ...string[]]>)._def.values };
+    case ZodFirstPartyTypeKind.ZodNativeEnum:
+      return convertNativeEnum(schema as z.ZodNativeEnum<z.EnumLike>);
+    case ZodFirstPartyTypeKind.ZodArray:
+      return convertArray(schema as z.ZodArray<z.ZodTypeAny>, state);
+    case ZodFirstPartyTypeKind.ZodSet: {
+      const setDef = (schema as z.ZodSet<z.ZodTypeAny>)._def;
+      return {
+        type: 'array',
+        uniqueItems: true,
+        items: convert(setDef.valueType, state),
+        ...(setDef.minSize && { minItems: setDef.minSize.value }),
+        ...(setDef.maxSize && { maxItems: setDef.maxSize.value }),
+      };
+    }
+    case ZodFirstPartyTypeKind.ZodTuple: {
+      const tupleDef = (schema as z.ZodTuple)._def;
+      const prefixItems = tupleDef.items.map((item: z.ZodTypeAny) => convert(item, state));
+      return {
+        type: 'array',
+        prefixItems,
+        minItems: prefixItems.length,
+        ...(tupleDef.rest
+          ? { items: convert(tupleDef.rest, state) }
+          : { items: false, maxItems: prefixItems.length }),
+      };
+    }
+    case ZodFirstPartyTypeKind.ZodObject:
+      return convertObject(schema as z.AnyZodObject, state);
+    case ZodFirstPartyTypeKind.ZodRecord: {
+      const recordDef = (schema as z.ZodRecord)._def;
+      const keySchema = convert(recordDef.keyType, state);
+      return {
+        type: 'object',
+        additionalProperties: convert(recordDef.valueType, state),
+        ...(keySchema['pattern'] !== undefined && { propertyNames: { pattern: keySchema['pattern'] } }),
+        ...(keySchema['enum'] !== undefined && { propertyNames: { enum: keySchema['enum'] } }),
+      };
+    }
+    case ZodFirstPartyTypeKind.ZodMap: {
+      const mapDef = (schema as z.ZodMap)._def;
+      return {
+        type: 'array',
+        items: {
+          type: 'array',
+          prefixItems: [convert(mapDef.keyType, state), convert(mapDef.valueType, state)],
+          minItems: 2,
+          maxItems: 2,
+        },
+      };
+    }
+    case ZodFirstPartyTypeKind.ZodUnion:
+    case ZodFirstPartyTypeKind.ZodDiscriminatedUnion: {
+      const options = (schema as z.ZodUnion<[z.ZodTypeAny, ...z.ZodTypeAny[]]>)._def.options;
+      return { anyOf: Array.from(options, (option) => convert(option, state)) };
+    }
+    case ZodFirstPartyTypeKind.ZodIntersection: {
+      const intersectionDef = (schema as z.ZodIntersection<z.ZodTypeAny, z.ZodTypeAny>)._def;
+      return { allOf: [convert(intersectionDef.left, state), convert(intersectionDef.right, state)] };
+    }
+    case ZodFirstPartyTypeKind.ZodOptional:
+      return convert((schema as z.ZodOptional<z.ZodTypeAny>)._def.innerType, state);
+    case ZodFirstPartyTypeKind.ZodNullable:
+      return convertNullable(convert((schema as z.ZodNullable<z.ZodTypeAny>)._def.innerType, state));
+    case ZodFirstPartyTypeKind.ZodDefault: {
+      const defaultDef = (schema as z.ZodDefault<z.ZodTypeAny>)._def;
+      return { ...convert(defaultDef.innerType, state), default: defaultDef.defaultValue() };
+    }
+    case ZodFirstPartyTypeKind.ZodCatch:
+      return convert((schema as z.ZodCatch<z.ZodTypeAny>)._def.innerType, state);
+    case ZodFirstPartyTypeKind.ZodReadonly:
+      return { ...convert((schema as z.ZodReadonly<z.ZodTypeAny>)._def.innerType, state), readOnly: true };
+    case ZodFirstPartyTypeKind.ZodBranded:
+      return convert((schema as z.ZodBranded<z.ZodTypeAny, string>)._def.type, state);
+    case ZodFirstPartyTypeKind.ZodEffects: {
+      const effectsDef = (schema as z.ZodEffects<z.ZodTypeAny>)._def;
+      // The output of a transform is only known at runtime
+      if (state.io === 'output' && effectsDef.effect.type === 'transform') {
+        return {};
+      }
+      return convert(effectsDef.schema, state);
+    }
+    case ZodFirstPartyTypeKind.ZodPipeline: {
+      const pipelineDef = (schema as z.ZodPipeline<z.ZodTypeAny, z.ZodTypeAny>)._def;
+      return convert(state.io === 'output' ? pipelineDef.out : pipelineDef.in, state);
+    }
+    case ZodFirstPartyTypeKind.ZodPromise:
+      return convert((schema as z.ZodPromise<z.ZodTypeAny>)._def.type, state);
+    case ZodFirstPartyTypeKind.ZodLazy:
+      return convertLazy(schema as z.ZodLazy<z.ZodTypeAny>, state);
+    default:
+      // ZodAny, ZodUnknown, ZodUndefined, ZodVoid and other types without a JSON representation
+      return {};
+  }
+}
+
+function convertString(schema: z.ZodString): JsonSchema {
+  const result: JsonSchema = { type: 'string' };
+  const patterns: string[] = [];
+
+  for (const check of schema._def.checks) {
+    switch (check.kind) {
+      case 'min':
+        result['minLength'] = check.value;
+        break;
+      case 'max':
+        result['maxLength'] = check.value;
+        break;
+      case 'length':
+        result['minLength'] = check.value;
+        result['maxLength'] = check.value;
+        break;
+      case 'regex':
+        patterns.push(check.regex.source);
+        break;
+      case 'startsWith':
+        patterns.push(`^${escapeRegex(check.value)}`);
+        break;
+      case 'endsWith':
+        patterns.push(`${escapeRegex(check.value)}$`);
+        break;
+      case 'includes':
+        patterns.push(escapeRegex(check.value));
+        break;
+      case 'ip':
+        result['format'] = check.version === 'v6' ? 'ipv6' : 'ipv4';
+        break;
+      default:
+        if (STRING_FORMATS[check.kind]) {
+          result['format'] = STRING_FORMATS[check.kind];
+        }
+    }
+  }
+
+  if (patterns.length === 1) {
+    result['pattern'] = patterns[0];
+  } else if (patterns.length > 1) {
+    result['allOf'] = patterns.map((pattern) => ({ pattern }));
+  }
+
+  return result;
+}
+
+function convertNumber(schema: z.ZodNumber): JsonSchema {
+  const result: JsonSchema = { type: 'number' };
+
+  for (const check of schema._def.checks) {
+    switch (check.kind) {
+      case 'int':
+        result['type'] = 'integer';
+        break;
+      case 'min':
+        result[check.inclusive ? 'minimum' : 'exclusiveMinimum'] = check.value;
+        break;
+      case 'max':
+        result[check.inclusive ? 'maximum' : 'exclusiveMaximum'] = check.value;
+        break;
+      case 'multipleOf':
+        result['multipleOf'] = check.value;
+        break;
+    }
+  }
+
+  return result;
+}
+
+function convertBigInt(schema: z.ZodBigInt): JsonSchema {
+  const result: JsonSchema = { type: 'integer', format: 'int64' };
+
+  for (const check of schema._def.checks) {
+    switch (check.kind) {
+      case 'min':
+        result[check.inclusive ? 'minimum' : 'exclusiveMinimum'] = Number(check.value);
+        break;
+      case 'max':
+        result[check.inclusive ? 'maximum' : 'exclusiveMaximum'] = Number(check.value);
+        break;
+      case 'multipleOf':
+        result['multipleOf'] = Number(check.value);
+        break;
+    }
+  }
+
+  return result;
+}
+
+function convertLiteral(value: unknown): JsonSchema {
+  switch (typeof value) {
+    case 'string':
+    case 'number':
+    case 'boolean':
+      return { type: typeof value, const: value };
+    case 'bigint':
+      return { type: 'integer', const: Number(value) };
+    default:
+      return value === null ? { type: 'null' } : {};
+  }
+}
+
+function convertNativeEnum(schema: z.ZodNativeEnum<z.EnumLike>): JsonSchema {
+  const object = schema._def.values;
+  // Numeric enums carry a reverse mapping from value to name
+  const values = Object.keys(object)
+    .filter((key) => typeof object[object[key] as string] !== 'number')
+    .map((key) => object[key]);
+  const types = Array.from(new Set(values.map((value) => typeof value)));
+
+  return {
+    type: types.length === 1 ? types[0] : types,
+    enum: values,
+  };
+}
+
+function convertArray(schema: z.ZodArray<z.ZodTypeAny>, state: ConversionState): JsonSchema {
+  const arrayDef = schema._def;
+  return {
+    type: 'array',
+    items: convert(arrayDef.type, state),
+    ...(arrayDef.minLength && { minItems: arrayDef.minLength.value }),
+    ...(arrayDef.maxLength && { maxItems: arrayDef.maxLength.value }),
+    ...(arrayDef.exactLength && {
+      minItems: arrayDef.exactLength.value,
+      maxItems: arrayDef.exactLength.value,
+    }),
+  };
+}
+
+function convertObject(schema: z.AnyZodObject, state: ConversionState): JsonSchema {
+  const properties: Record<string, JsonSchema> = {};
+  const required: string[] = [];
+
+  for (const [key, value] of Object.entries(schema.shape as z.ZodRawShape)) {
+    properties[key] = convert(value, state);
+    const optional = state.io === 'output'
+      ? value.isOptional() && !(value instanceof z.ZodDefault)
+      : value.isOptional();
+    if (!optional) {
+      required.push(key);
+    }
+  }
+
+  const catchall = schema._def.catchall as z.ZodTypeAny;
+  let additionalProperties: boolean | JsonSchema | undefined;
+  if (!(catchall instanceof z.ZodNever)) {
+    additionalProperties = convert(catchall, state);
+  } else if (schema._def.unknownKeys === 'strict') {
+    additionalProperties = false;
+  }
+
+  return {
+    type: 'object',
+    properties,
+    ...(required.length > 0 && { required }),
+    ...(additionalProperties !== undefined && { additionalProperties }),
+  };
+}
+
+function convertNullable(inner: JsonSchema): JsonSchema {
+  const { type, description, ...rest } = inner;
+  if (typeof type === 'string' && rest['enum'] === undefined && rest['const'] === undefined) {
+    return {
+      ...rest,
+      type: [type, 'null'],
+      ...(description !== undefined && { description }),
+    };
+  }
+  return { anyOf: [inner, { type: 'null' }] };
+}
+
+function convertLazy(schema: z.ZodLazy<z.ZodTypeAny>, state: ConversionState): JsonSchema {
+  const existing = state.lazyNames.get(schema);
+  if (existing !== undefined) {
+    state.referenced.add(existing);
+    return { $ref: existing === '#' ? '#' : `#/$defs/${existing}` };
+  }
+
+  const name = schema === state.root ? '#' : `Lazy${++state.lazyCount}`;
+  state.lazyNames.set(schema, name);
+
+  const resolved = convert(schema._def.getter(), state);
+  if (name === '#') {
+    return resolved;
+  }
+  if (!state.referenced.has(name)) {
+    // Not recursive: inline the definition
+    state.lazyNames.delete(schema);
+    return resolved;
+  }
+
+  state.defs[name] = resolved;
+  return { $ref: `#/$defs/${name}` };
+}
+
+function escapeRegex(value: string): string {
+  return value.replace(/[.*+?^${}()|[\]\\]/g, '\\$&');
+}
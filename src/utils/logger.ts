@@ -1,27 +1,371 @@
+import { closeSync, existsSync, fstatSync, mkdirSync, openSync, renameSync, rmSync, writeSync } from 'node:fs';
+import { createRequire } from 'node:module';
+import { dirname, resolve } from 'node:path';
 import pino from 'pino';
+import type { SubAgentConfig } from '../types/index.js';
+import { SubAgentError, ErrorCode } from './errors.js';
+import { getActiveSpan } from './tracing.js';
 
 export type Logger = pino.Logger;
 
+/**
+ * Where log lines are written
+ *
+ * - `stdout`, `stderr`: JSON lines
+ * - `pretty`: human-readable lines on stderr, or JSON lines when
+ *   pino-pretty is not installed
+ * - `file`: JSON lines in a file rotated by size
+ * - any destination stream, e.g. a MemoryLogSink
+ */
+export type LogSink =
+  | 'stdout'
+  | 'stderr'
+  | 'pretty'
+  | ({ type: 'file' } & FileSinkOptions)
+  | pino.DestinationStream;
+
+/**
+ * Options for a rotating log file
+ */
+export interface FileSinkOptions {
+  path: string;
+  /**
+   * Size at which the file is rotated, in bytes (default: 10 MiB)
+   */
+  maxBytes?: number;
+  /**
+   * Rotated files to keep, as `<path>.1` (newest) to `<path>.<maxFiles>`
+   * (default: 5)
+   */
+  maxFiles?: number;
+}
+
+/**
+ * Pattern of a secret scrubbed from log lines
+ */
+export interface SecretPattern {
+  name: string;
+  /**
+   * Global expression matching within a JSON string, i.e. never across a
+   * quote or backslash
+   */
+  pattern: RegExp;
+  /**
+   * Replacement, which may use the expression's groups (default: [REDACTED])
+   */
+  replacement?: string;
+}
+
+/**
+ * Logger settings
+ */
+export interface LoggerOptions {
+  /**
+   * Default: `pretty`, or `stdout` when NODE_ENV is production
+   */
+  sink?: LogSink;
+  /**
+   * Paths of values to redact, in addition to DEFAULT_REDACT_PATHS, e.g.
+   * `input.apiKey` or `*.cookie`
+   */
+  redact?: string[];
+  /**
+   * Scrub SECRET_PATTERNS from every line (default: true)
+   */
+  scrub?: boolean;
+  /**
+   * Patterns to scrub in addition to SECRET_PATTERNS
+   */
+  patterns?: SecretPattern[];
+}
+
+export const REDACTED = '[REDACTED]';
+
+const SECRET_KEYS = [
+  'password',
+  'passwd',
+  'secret',
+  'clientSecret',
+  'token',
+  'accessToken',
+  'refreshToken',
+  'apiKey',
+  'api_key',
+  'authorization',
+  'credentials',
+  'cookie',
+  'privateKey',
+];
+
+/**
+ * Values redacted by every logger: secret-named fields at the top level and
+ * one level down
+ */
+export const DEFAULT_REDACT_PATHS: readonly string[] = [
+  ...SECRET_KEYS,
+  ...SECRET_KEYS.map((key) => `*.${key}`),
+];
+
+/**
+ * Common secret formats scrubbed from log lines, including messages and
+ * error stacks
+ */
+export const SECRET_PATTERNS: readonly SecretPattern[] = [
+  {
+    name: 'private-key',
+    pattern: /-----BEGIN [A-Z ]*PRIVATE KEY-----(?:[A-Za-z0-9+/=\s]|\\[rn])*?-----END [A-Z ]*PRIVATE KEY-----/g,
+  },
+  {
+    name: 'bearer-token',
+    pattern: /\b(Bearer|Basic)\s+[A-Za-z0-9\-._~+/]+=*/gi,
+    replacement: `$1 ${REDACTED}`,
+  },
+  { name: 'jwt', pattern: /\beyJ[A-Za-z0-9_-]+\.eyJ[A-Za-z0-9_-]+\.[A-Za-z0-9_-]*/g },
+  { name: 'aws-access-key', pattern: /\b(?:AKIA|ASIA)[0-9A-Z]{16}\b/g },
+  { name: 'github-token', pattern: /\b(?:gh[pousr]_[A-Za-z0-9]{36,}|github_pat_[A-Za-z0-9_]{22,})\b/g },
+  { name: 'slack-token', pattern: /\bxox[abprs]-[A-Za-z0-9-]{10,}/g },
+  { name: 'api-key', pattern: /\bsk-[A-Za-z0-9_-]{20,}/g },
+  {
+    name: 'url-credentials',
+    pattern: /\b([a-z][a-z0-9+.-]*:\/\/)[^\s:@/"\\]+:[^\s@/"\\]+@/gi,
+    replacement: `$1${REDACTED}@`,
+  },
+  {
+    name: 'assignment',
+    pattern: /\b(password|passwd|secret|token|api[_-]?key|access[_-]?key)=[^\s&,;"\\]+/gi,
+    replacement: `$1=${REDACTED}`,
+  },
+];
+
+/**
+ * Replace secrets in a string
+ */
+export function scrubSecrets(text: string, patterns: readonly SecretPattern[] = SECRET_PATTERNS): string {
+  let result = text;
+  for (const { pattern, replacement } of patterns) {
+    result = result.replace(pattern, replacement ?? REDACTED);
+  }
+  return result;
+}
+
+let stdoutReserved = false;
+let prettyFallbackReported = false;
+
+/**
+ * File sinks by path, shared so that loggers of one file rotate it together
+ */
+const fileSinks = new Map<string, RotatingFileSink>();
+
+/**
+ * Send every log line meant for stdout to stderr from now on
+ *
+ * Called when serving MCP over stdio, where stdout carries the protocol.
+ * Applies to loggers created before the call as well.
+ */
+export function reserveStdout(): void {
+  stdoutReserved = true;
+}
+
+/**
+ * Check whether stdout is reserved for a protocol
+ */
+export function isStdoutReserved(): boolean {
+  return stdoutReserved;
+}
+
+/**
+ * Keeps log lines in memory, e.g. to inspect them in tests
+ */
+export class MemoryLogSink implements pino.DestinationStream {
+  readonly entries: Record<string, unknown>[] = [];
+  private maxEntries: number;
+
+  /**
+   * @param options.maxEntries - Oldest entries are dropped beyond this (default: unbounded)
+   */
+  constructor(options: { maxEntries?: number } = {}) {
+    this.maxEntries = options.maxEntries ?? Infinity;
+  }
+
+  write(line: string): void {
+    this.entries.push(JSON.parse(line) as Record<string, unknown>);
+    if (this.entries.length > this.maxEntries) {
+      this.entries.shift();
+    }
+  }
+
+  clear(): void {
+    this.entries.length = 0;
+  }
+}
+
+/**
+ * Appends log lines to a file, rotating it by size
+ *
+ * Writes are synchronous so that no line is lost when the process exits.
+ */
+export class RotatingFileSink implements pino.DestinationStream {
+  private path: string;
+  private maxBytes: number;
+  private maxFiles: number;
+  private fd: number;
+  private size: number;
+
+  constructor(options: FileSinkOptions) {
+    this.path = options.path;
+    this.maxBytes = options.maxBytes ?? 10 * 1024 * 1024;
+    this.maxFiles = options.maxFiles ?? 5;
+    mkdirSync(dirname(this.path), { recursive: true });
+    this.fd = openSync(this.path, 'a');
+    this.size = fstatSync(this.fd).size;
+  }
+
+  write(line: string): void {
+    const bytes = Buffer.byteLength(line);
+    if (this.size > 0 && this.size + bytes > this.maxBytes) {
+      this.rotate();
+    }
+    writeSync(this.fd, line);
+    this.size += bytes;
+  }
+
+  close(): void {
+    closeSync(this.fd);
+  }
+
+  private rotate(): void {
+    closeSync(this.fd);
+    if (this.maxFiles > 0) {
+      rmSync(`${this.path}.${this.maxFiles}`, { force: true });
+      for (let index = this.maxFiles - 1; index >= 1; index--) {
+        if (existsSync(`${this.path}.${index}`)) {
+          renameSync(`${this.path}.${index}`, `${this.path}.${index + 1}`);
+        }
+      }
+      renameSync(this.path, `${this.path}.1`);
+    } else {
+      rmSync(this.path, { force: true });
+    }
+    this.fd = openSync(this.path, 'a');
+    this.size = 0;
+  }
+}
+
 /**
  * Create a configured logger instance
+ *
+ * Lines logged while a span is active carry its trace and span ids. Values
+ * at DEFAULT_REDACT_PATHS and the given paths are replaced by [REDACTED],
+ * and SECRET_PATTERNS are scrubbed from the whole line. Lines meant for
+ * stdout go to stderr once stdout is reserved for the stdio transport.
+ *
+ * @param options - Logger settings, or just the destination of JSON lines
  */
-export function createLogger(level: string = 'info', name?: string): Logger {
-  return pino({
+export function createLogger(
+  level: string = 'info',
+  name?: string,
+  options: LoggerOptions | pino.DestinationStream = {}
+): Logger {
+  const settings: LoggerOptions = isDestination(options) ? { sink: options } : options;
+  const patterns = [
+    ...(settings.scrub ?? true ? SECRET_PATTERNS : []),
+    ...(settings.patterns ?? []),
+  ];
+  const { destination, fallback } = openSink(settings.sink);
+
+  const logger = pino({
     name: name || 'xorng-subagent',
     level,
-    transport: process.env['NODE_ENV'] !== 'production'
-      ? {
-          target: 'pino-pretty',
-          options: {
-            colorize: true,
-            translateTime: 'SYS:standard',
-            ignore: 'pid,hostname',
-          },
-        }
-      : undefined,
+    redact: { paths: [...DEFAULT_REDACT_PATHS, ...(settings.redact ?? [])], censor: REDACTED },
+    // Redaction copies objects by their enumerable fields, which would drop
+    // an error's message and stack
+    serializers: { err: pino.stdSerializers.err, error: pino.stdSerializers.err },
+    hooks: patterns.length > 0 ? { streamWrite: (line) => scrubSecrets(line, patterns) } : {},
     formatters: {
       level: (label) => ({ level: label }),
     },
+    mixin: () => {
+      const span = getActiveSpan();
+      return span ? { traceId: span.context.traceId, spanId: span.context.spanId } : {};
+    },
     timestamp: pino.stdTimeFunctions.isoTime,
+  }, destination);
+
+  if (fallback && !prettyFallbackReported) {
+    prettyFallbackReported = true;
+    logger.info('pino-pretty is not installed; logging JSON lines to stderr');
+  }
+  return logger;
+}
+
+/**
+ * Logger settings of an agent's configuration
+ */
+export function loggerOptionsFromConfig(config: SubAgentConfig): LoggerOptions {
+  const type = config.logSink ?? (config.logFile ? 'file' : undefined);
+  if (type === 'file' && !config.logFile) {
+    throw new SubAgentError(
+      'Invalid configuration: logSink \'file\' requires logFile',
+      ErrorCode.INVALID_CONFIG,
+      { logSink: type }
+    );
+  }
+  return {
+    sink: type === 'file' ? { type, path: config.logFile! } : type,
+    redact: config.logRedact,
+  };
+}
+
+function isDestination(value: object): value is pino.DestinationStream {
+  return typeof (value as pino.DestinationStream).write === 'function';
+}
+
+function openSink(sink: LogSink | undefined): { destination: pino.DestinationStream; fallback?: boolean } {
+  const type = sink ?? (process.env['NODE_ENV'] === 'production' ? 'stdout' : 'pretty');
+  if (type === 'stdout' || type === process.stdout) {
+    return { destination: stdoutDestination() };
+  }
+  if (type === 'stderr') {
+    return { destination: pino.destination({ dest: 2, sync: true }) };
+  }
+  if (type === 'pretty') {
+    const pretty = prettyDestination();
+    return pretty
+      ? { destination: pretty }
+      : { destination: pino.destination({ dest: 2, sync: true }), fallback: true };
+  }
+  if (isDestination(type)) {
+    return { destination: type };
+  }
+  const path = resolve(type.path);
+  let file = fileSinks.get(path);
+  if (!file) {
+    file = new RotatingFileSink({ ...type, path });
+    fileSinks.set(path, file);
+  }
+  return { destination: file };
+}
+
+function stdoutDestination(): pino.DestinationStream {
+  const stdout = pino.destination({ dest: 1, sync: true });
+  const stderr = pino.destination({ dest: 2, sync: true });
+  return {
+    write: (line: string) => (stdoutReserved ? stderr : stdout).write(line),
+  };
+}
+
+function prettyDestination(): pino.DestinationStream | undefined {
+  let pretty: (options: Record<string, unknown>) => pino.DestinationStream;
+  try {
+    pretty = createRequire(import.meta.url)('pino-pretty') as typeof pretty;
+  } catch {
+    return undefined;
+  }
+  return pretty({
+    colorize: process.stderr.isTTY ?? false,
+    translateTime: 'SYS:standard',
+    ignore: 'pid,hostname',
+    destination: 2,
+    sync: true,
   });
 }
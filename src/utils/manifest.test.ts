@@ -0,0 +1,276 @@
+import { describe, it, expect } from 'vitest';
+import { z } from 'zod';
+import { zodToJsonSchema } from './jsonSchema.js';
+import {
+  diffManifests,
+  validateManifest,
+  MANIFEST_VERSION,
+  type AgentManifest,
+  type ManifestChange,
+} from './manifest.js';
+
+interface ToolSchemas {
+  input: z.ZodTypeAny;
+  output?: z.ZodTypeAny;
+}
+
+function manifest(
+  tools: Record<string, ToolSchemas>,
+  configSchema: z.ZodTypeAny = z.object({ name: z.string() })
+): AgentManifest {
+  return {
+    manifestVersion: MANIFEST_VERSION,
+    name: 'agent',
+    version: '1.0.0',
+    description: 'Test agent',
+    capabilities: [],
+    tools: Object.entries(tools).map(([name, schemas]) => ({
+      name,
+      description: name,
+      inputSchema: zodToJsonSchema(schemas.input),
+      ...(schemas.output && { outputSchema: zodToJsonSchema(schemas.output, { io: 'output' }) }),
+    })),
+    resources: [],
+    prompts: [],
+    configSchema: zodToJsonSchema(configSchema),
+  };
+}
+
+/**
+ * Diff a single tool's schemas between versions
+ */
+function diffTool(previous: ToolSchemas, next: ToolSchemas): ManifestChange[] {
+  return diffManifests(manifest({ tool: previous }), manifest({ tool: next })).changes;
+}
+
+function summarize(changes: ManifestChange[]) {
+  return changes.map(({ type, path, breaking }) => ({ type, path, breaking }));
+}
+
+const Tree: z.ZodType<unknown> = z.lazy(() => z.object({
+  value: z.string(),
+  children: z.array(Tree),
+}));
+
+describe('diffManifests', () => {
+  it('reports no changes between equal manifests', () => {
+    const tools = {
+      tool: {
+        input: z.object({
+          tree: Tree,
+          shape: z.union([z.object({ radius: z.number() }), z.string()]),
+          both: z.intersection(z.object({ a: z.string() }), z.object({ b: z.number() })),
+        }),
+        output: z.object({ score: z.number().min(0).max(1) }),
+      },
+    };
+
+    expect(diffManifests(manifest(tools), manifest(tools))).toEqual({
+      compatible: true,
+      breaking: [],
+      changes: [],
+    });
+  });
+
+  it('reports removed tools as breaking and added tools as compatible', () => {
+    const input = z.object({});
+    const diff = diffManifests(manifest({ old: { input } }), manifest({ added: { input } }));
+
+    expect(summarize(diff.changes)).toEqual([
+      { type: 'tool-removed', path: 'tools.old', breaking: true },
+      { type: 'tool-added', path: 'tools.added', breaking: false },
+    ]);
+    expect(diff.compatible).toBe(false);
+  });
+
+  describe('unions', () => {
+    const previous = z.object({ value: z.union([z.string(), z.number()]) });
+    const narrowed = z.object({ value: z.string() });
+    const widened = z.object({ value: z.union([z.string(), z.number(), z.boolean()]) });
+
+    it('reports variants removed from an input as breaking', () => {
+      expect(summarize(diffTool({ input: previous }, { input: narrowed }))).toEqual([
+        { type: 'variant-removed', path: 'tools.tool.input.value', breaking: true },
+      ]);
+    });
+
+    it('reports variants added to an input as compatible', () => {
+      expect(summarize(diffTool({ input: previous }, { input: widened }))).toEqual([
+        { type: 'variant-added', path: 'tools.tool.input.value', breaking: false },
+      ]);
+    });
+
+    it('reports variants added to an output as breaking', () => {
+      const input = z.object({});
+      expect(summarize(diffTool({ input, output: previous }, { input, output: widened }))).toEqual([
+        { type: 'variant-added', path: 'tools.tool.output.value', breaking: true },
+      ]);
+    });
+
+    it('reports outputs that became nullable as breaking', () => {
+      const input = z.object({});
+      const changes = diffTool(
+        { input, output: z.object({ status: z.enum(['ok', 'failed']) }) },
+        { input, output: z.object({ status: z.enum(['ok', 'failed']).nullable() }) }
+      );
+
+      expect(summarize(changes)).toEqual([
+        { type: 'variant-added', path: 'tools.tool.output.status', breaking: true },
+      ]);
+    });
+
+    it('compares discriminated variants with their counterpart', () => {
+      const shape = (radius: z.ZodTypeAny) => z.object({
+        shape: z.discriminatedUnion('kind', [
+          z.object({ kind: z.literal('square'), side: z.number() }),
+          z.object({ kind: z.literal('circle'), radius }),
+        ]),
+      });
+
+      expect(summarize(diffTool(
+        { input: shape(z.number().optional()) },
+        { input: shape(z.number()) }
+      ))).toEqual([
+        { type: 'input-required', path: 'tools.tool.input.shape.anyOf[1].radius', breaking: true },
+      ]);
+    });
+  });
+
+  it('compares the parts of intersections', () => {
+    const both = (b: z.ZodTypeAny) => z.object({
+      both: z.intersection(z.object({ a: z.string() }), z.object({ b })),
+    });
+
+    expect(summarize(diffTool({ input: both(z.number()) }, { input: both(z.number().min(1)) }))).toEqual([
+      { type: 'constraint-tightened', path: 'tools.tool.input.both.allOf[1].b', breaking: true },
+    ]);
+  });
+
+  it('follows $ref pointers into recursive definitions', () => {
+    const NumericTree: z.ZodType<unknown> = z.lazy(() => z.object({
+      value: z.number(),
+      children: z.array(NumericTree),
+    }));
+
+    const diff = diffManifests(
+      manifest({ tool: { input: z.object({ tree: Tree }) } }),
+      manifest({ tool: { input: z.object({ tree: NumericTree }) } })
+    );
+
+    expect(summarize(diff.changes)).toEqual([
+      { type: 'type-changed', path: 'tools.tool.input.tree.value', breaking: true },
+    ]);
+  });
+
+  describe('constraints', () => {
+    it.each([
+      ['a raised minimum', z.number().min(1), z.number().min(5), 'constraint-tightened', true],
+      ['a lowered minimum', z.number().min(5), z.number().min(1), 'constraint-loosened', false],
+      ['a new maximum', z.number(), z.number().max(10), 'constraint-tightened', true],
+      ['a shorter maxLength', z.string().max(10), z.string().max(5), 'constraint-tightened', true],
+      ['a longer minLength', z.string().min(1), z.string().min(3), 'constraint-tightened', true],
+      ['a removed maxItems', z.array(z.string()).max(3), z.array(z.string()), 'constraint-loosened', false],
+      ['a changed pattern', z.string().regex(/^a/), z.string().regex(/^b/), 'constraint-changed', true],
+      ['a new format', z.string(), z.string().email(), 'constraint-tightened', true],
+    ])('classifies %s of an input', (_, previous, next, type, breaking) => {
+      expect(summarize(diffTool(
+        { input: z.object({ value: previous }) },
+        { input: z.object({ value: next }) }
+      ))).toEqual([{ type, path: 'tools.tool.input.value', breaking }]);
+    });
+
+    it.each([
+      ['a raised maximum', z.number().max(1), z.number().max(5), 'constraint-loosened', true],
+      ['a lowered maximum', z.number().max(5), z.number().max(1), 'constraint-tightened', false],
+    ])('classifies %s of an output', (_, previous, next, type, breaking) => {
+      const input = z.object({});
+      expect(summarize(diffTool(
+        { input, output: z.object({ value: previous }) },
+        { input, output: z.object({ value: next }) }
+      ))).toEqual([{ type, path: 'tools.tool.output.value', breaking }]);
+    });
+
+    it('reports inputs that became strict as breaking', () => {
+      expect(summarize(diffTool(
+        { input: z.object({ a: z.string() }) },
+        { input: z.object({ a: z.string() }).strict() }
+      ))).toEqual([
+        { type: 'constraint-tightened', path: 'tools.tool.input', breaking: true },
+      ]);
+    });
+  });
+
+  describe('enums', () => {
+    it('reports values removed from an input as breaking', () => {
+      const changes = diffTool(
+        { input: z.object({ mode: z.enum(['fast', 'slow']) }) },
+        { input: z.object({ mode: z.enum(['fast']) }) }
+      );
+
+      expect(changes).toEqual([{
+        type: 'enum-changed',
+        path: 'tools.tool.input.mode',
+        breaking: true,
+        message: `Allowed values of 'tools.tool.input.mode' changed; removed ["slow"]`,
+      }]);
+    });
+
+    it('reports values added to an output as breaking', () => {
+      const input = z.object({});
+      expect(summarize(diffTool(
+        { input, output: z.object({ mode: z.enum(['fast']) }) },
+        { input, output: z.object({ mode: z.enum(['fast', 'slow']) }) }
+      ))).toEqual([{ type: 'enum-changed', path: 'tools.tool.output.mode', breaking: true }]);
+    });
+  });
+
+  describe('config schema', () => {
+    const diffConfig = (previous: z.ZodTypeAny, next: z.ZodTypeAny) =>
+      diffManifests(manifest({}, previous), manifest({}, next));
+
+    it('reports new required keys as breaking', () => {
+      const diff = diffConfig(z.object({ name: z.string() }), z.object({ name: z.string(), token: z.string() }));
+
+      expect(diff.compatible).toBe(false);
+      expect(summarize(diff.changes)).toEqual([
+        { type: 'input-required', path: 'config.token', breaking: true },
+      ]);
+    });
+
+    it('reports new optional keys as compatible', () => {
+      const diff = diffConfig(
+        z.object({ name: z.string() }),
+        z.object({ name: z.string(), timeout: z.number().optional() })
+      );
+
+      expect(diff.compatible).toBe(true);
+      expect(summarize(diff.changes)).toEqual([
+        { type: 'input-added', path: 'config.timeout', breaking: false },
+      ]);
+    });
+
+    it('reports tighter limits as breaking', () => {
+      const diff = diffConfig(
+        z.object({ maxConcurrent: z.number().max(100) }),
+        z.object({ maxConcurrent: z.number().max(10) })
+      );
+
+      expect(diff.breaking.map((change) => change.path)).toEqual(['config.maxConcurrent']);
+    });
+  });
+});
+
+describe('validateManifest', () => {
+  it('accepts generated manifests', () => {
+    const document = manifest({ tool: { input: z.object({ a: z.string() }) } });
+
+    expect(validateManifest(JSON.parse(JSON.stringify(document)))).toEqual({ success: true, data: document });
+  });
+
+  it('rejects duplicate names', () => {
+    const document = manifest({ tool: { input: z.object({}) } });
+    document.tools.push({ ...document.tools[0]! });
+
+    expect(validateManifest(document)).toEqual({ success: false, errors: [`tools: duplicate name 'tool'`] });
+  });
+});
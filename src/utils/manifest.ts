@@ -0,0 +1,721 @@
+import { z } from 'zod';
+import type { BaseSubAgent } from '../base/BaseSubAgent.js';
+import type { SubAgentCapability } from '../types/index.js';
+import { SubAgentConfigSchema } from '../types/index.js';
+import { zodToJsonSchema, type JsonSchema } from './jsonSchema.js';
+import { validateSchema } from './validation.js';
+
+/**
+ * Version of the manifest format
+ */
+export const MANIFEST_VERSION = 1;
+
+/**
+ * Tool entry of a manifest
+ */
+export interface ToolManifest {
+  name: string;
+  description: string;
+  inputSchema: JsonSchema;
+  outputSchema?: JsonSchema;
+  capability?: SubAgentCapability;
+  requestTypes?: string[];
+}
+
+/**
+ * Resource entry of a manifest
+ */
+export interface ResourceManifest {
+  name: string;
+  uri: string;
+  description?: string;
+  mimeType?: string;
+}
+
+/**
+ * Prompt entry of a manifest
+ */
+export interface PromptManifest {
+  name: string;
+  description?: string;
+  argsSchema?: JsonSchema;
+}
+
+/**
+ * Machine-readable description of what a sub-agent offers
+ */
+export interface AgentManifest {
+  manifestVersion: typeof MANIFEST_VERSION;
+  name: string;
+  version: string;
+  description: string;
+  capabilities: SubAgentCapability[];
+  tools: ToolManifest[];
+  resources: ResourceManifest[];
+  prompts: PromptManifest[];
+  configSchema: JsonSchema;
+}
+
+const JsonSchemaSchema = z.record(z.unknown());
+const CapabilitySchema = z.enum(['validate', 'analyze', 'transform', 'generate', 'execute', 'retrieve', 'search']);
+
+/**
+ * Zod schema for manifest documents
+ */
+export const AgentManifestSchema = z.object({
+  manifestVersion: z.literal(MANIFEST_VERSION),
+  name: z.string().min(1),
+  version: z.string().min(1),
+  description: z.string(),
+  capabilities: z.array(CapabilitySchema),
+  tools: z.array(z.object({
+    name: z.string().min(1),
+    description: z.string(),
+    inputSchema: JsonSchemaSchema,
+    outputSchema: JsonSchemaSchema.optional(),
+    capability: CapabilitySchema.optional(),
+    requestTypes: z.array(z.string()).optional(),
+  })),
+  resources: z.array(z.object({
+    name: z.string().min(1),
+    uri: z.string().min(1),
+    description: z.string().optional(),
+    mimeType: z.string().optional(),
+  })),
+  prompts: z.array(z.object({
+    name: z.string().min(1),
+    description: z.string().optional(),
+    argsSchema: JsonSchemaSchema.optional(),
+  })),
+  configSchema: JsonSchemaSchema,
+});
+
+/**
+ * Options for generating a manifest
+ */
+export interface GenerateManifestOptions {
+  /**
+   * Config schema of the agent (default: SubAgentConfigSchema)
+   */
+  configSchema?: z.ZodTypeAny;
+}
+
+/**
+ * Kind of difference between two manifests
+ */
+export type ManifestChangeType =
+  | 'agent-renamed'
+  | 'capability-added'
+  | 'capability-removed'
+  | 'tool-added'
+  | 'tool-removed'
+  | 'request-type-removed'
+  | 'resource-added'
+  | 'resource-removed'
+  | 'prompt-added'
+  | 'prompt-removed'
+  | 'input-added'
+  | 'input-removed'
+  | 'input-required'
+  | 'input-optional'
+  | 'output-added'
+  | 'output-removed'
+  | 'output-optional'
+  | 'type-changed'
+  | 'enum-changed'
+  | 'variant-added'
+  | 'variant-removed'
+  | 'constraint-tightened'
+  | 'constraint-loosened'
+  | 'constraint-changed';
+
+/**
+ * Difference between two manifests
+ */
+export interface ManifestChange {
+  type: ManifestChangeType;
+  /**
+   * Location of the change, e.g. `tools.analyze.input.options.depth`
+   */
+  path: string;
+  breaking: boolean;
+  message: string;
+}
+
+type AddChange = (type: ManifestChangeType, path: string, breaking: boolean, message: string) => void;
+
+/**
+ * State of comparing one schema between versions
+ */
+interface SchemaComparison {
+  direction: 'input' | 'output';
+  /**
+   * Documents that `$ref` pointers resolve against
+   */
+  previousRoot: JsonSchema;
+  nextRoot: JsonSchema;
+  /**
+   * Pairs of `$ref` pointers already compared, so recursive schemas end
+   */
+  compared: Set<string>;
+  add: AddChange;
+}
+
+/**
+ * Result of comparing two manifests
+ */
+export interface ManifestDiff {
+  /**
+   * False when any change breaks existing callers
+   */
+  compatible: boolean;
+  breaking: ManifestChange[];
+  changes: ManifestChange[];
+}
+
+/**
+ * Generate the manifest of an agent
+ *
+ * Entries are sorted by name so the same agent always produces the same
+ * document; use serializeManifest() for stable JSON.
+ */
+export function generateManifest(
+  agent: BaseSubAgent,
+  options: GenerateManifestOptions = {}
+): AgentManifest {
+  const metadata = agent.getMetadata();
+
+  return {
+    manifestVersion: MANIFEST_VERSION,
+    name: metadata.name,
+    version: metadata.version,
+    description: metadata.description,
+    capabilities: [...metadata.capabilities].sort(),
+    tools: Array.from(agent.getTools().values(), (tool): ToolManifest => ({
+      name: tool.name,
+      description: tool.description,
+      inputSchema: zodToJsonSchema(tool.inputSchema),
+      ...(tool.outputSchema && { outputSchema: zodToJsonSchema(tool.outputSchema, { io: 'output' }) }),
+      ...(tool.capability !== undefined && { capability: tool.capability }),
+      ...(tool.requestTypes && { requestTypes: [...tool.requestTypes].sort() }),
+    })).sort(byName),
+    resources: Array.from(agent.getResources().values(), (resource): ResourceManifest => ({
+      name: resource.name,
+      uri: resource.uri,
+      ...(resource.description !== undefined && { description: resource.description }),
+      ...(resource.mimeType !== undefined && { mimeType: resource.mimeType }),
+    })).sort(byName),
+    prompts: Array.from(agent.getPrompts().values(), (prompt): PromptManifest => ({
+      name: prompt.name,
+      ...(prompt.description !== undefined && { description: prompt.description }),
+      ...(prompt.argsSchema && { argsSchema: zodToJsonSchema(prompt.argsSchema) }),
+    })).sort(byName),
+    configSchema: zodToJsonSchema(options.configSchema ?? SubAgentConfigSchema),
+  };
+}
+
+/**
+ * Serialize a manifest as JSON with sorted object keys
+ */
+export function serializeManifest(manifest: AgentManifest): string {
+  return `${JSON.stringify(sortKeys(manifest), null, 2)}\n`;
+}
+
+/**
+ * Validate a manifest document
+ */
+export function validateManifest(
+  value: unknown
+): { success: true; data: AgentManifest } | { success: false; errors: string[] } {
+  const result = validateSchema(AgentManifestSchema, value);
+  if (!result.success) {
+    return result;
+  }
+
+  const errors: string[] = [];
+  for (const key of ['tools', 'resources', 'prompts'] as const) {
+    const names = result.data[key].map((entry) => entry.name);
+    for (const name of new Set(names.filter((name, index) => names.indexOf(name) !== index))) {
+      errors.push(`${key}: duplicate name '${name}'`);
+    }
+  }
+  return errors.length > 0
+    ? { success: false, errors }
+    : { success: true, data: result.data as AgentManifest };
+}
+
+/**
+ * Compare two manifests of an agent
+ *
+ * Changes are breaking when callers of the previous version could fail
+ * against the next one: removed tools, request types, resources, prompts or
+ * capabilities, newly required or retyped inputs, inputs rejected by a
+ * strict schema or a tighter constraint, and outputs that were removed, made
+ * optional, retyped or loosened. The config schema is compared like an
+ * input, since existing config files must still load.
+ */
+export function diffManifests(previous: AgentManifest, next: AgentManifest): ManifestDiff {
+  const changes: ManifestChange[] = [];
+  const add: AddChange = (type, path, breaking, message) => {
+    changes.push({ type, path, breaking, message });
+  };
+
+  if (previous.name !== next.name) {
+    add('agent-renamed', 'name', true, `Agent renamed from '${previous.name}' to '${next.name}'`);
+  }
+
+  for (const capability of previous.capabilities) {
+    if (!next.capabilities.includes(capability)) {
+      add('capability-removed', `capabilities.${capability}`, true, `Capability '${capability}' removed`);
+    }
+  }
+  for (const capability of next.capabilities) {
+    if (!previous.capabilities.includes(capability)) {
+      add('capability-added', `capabilities.${capability}`, false, `Capability '${capability}' added`);
+    }
+  }
+
+  const nextTools = new Map(next.tools.map((tool) => [tool.name, tool]));
+  for (const tool of previous.tools) {
+    const nextTool = nextTools.get(tool.name);
+    if (!nextTool) {
+      add('tool-removed', `tools.${tool.name}`, true, `Tool '${tool.name}' removed`);
+      continue;
+    }
+    compareSchemaDocuments(tool.inputSchema, nextTool.inputSchema, `tools.${tool.name}.input`, 'input', add);
+    if (tool.outputSchema) {
+      compareSchemaDocuments(
+        tool.outputSchema,
+        nextTool.outputSchema ?? {},
+        `tools.${tool.name}.output`,
+        'output',
+        add
+      );
+    }
+  }
+  for (const tool of next.tools) {
+    if (!previous.tools.some((entry) => entry.name === tool.name)) {
+      add('tool-added', `tools.${tool.name}`, false, `Tool '${tool.name}' added`);
+    }
+  }
+
+  const routedTypes = (manifest: AgentManifest) => new Set(
+    manifest.tools.flatMap((tool) => [...(tool.requestTypes ?? []), ...(tool.capability ? [tool.capability] : [])])
+  );
+  const nextTypes = routedTypes(next);
+  for (const type of routedTypes(previous)) {
+    if (!nextTypes.has(type)) {
+      add('request-type-removed', `requestTypes.${type}`, true, `Request type '${type}' is no longer routed`);
+    }
+  }
+
+  const nextResources = new Map(next.resources.map((resource) => [resource.name, resource]));
+  for (const resource of previous.resources) {
+    const nextResource = nextResources.get(resource.name);
+    if (!nextResource || nextResource.uri !== resource.uri) {
+      add('resource-removed', `resources.${resource.name}`, true, `Resource '${resource.uri}' removed`);
+    }
+  }
+  for (const resource of next.resources) {
+    if (!previous.resources.some((entry) => entry.name === resource.name && entry.uri === resource.uri)) {
+      add('resource-added', `resources.${resource.name}`, false, `Resource '${resource.uri}' added`);
+    }
+  }
+
+  const nextPrompts = new Map(next.prompts.map((prompt) => [prompt.name, prompt]));
+  for (const prompt of previous.prompts) {
+    const nextPrompt = nextPrompts.get(prompt.name);
+    if (!nextPrompt) {
+      add('prompt-removed', `prompts.${prompt.name}`, true, `Prompt '${prompt.name}' removed`);
+      continue;
+    }
+    compareSchemaDocuments(
+      prompt.argsSchema ?? { type: 'object', properties: {} },
+      nextPrompt.argsSchema ?? { type: 'object', properties: {} },
+      `prompts.${prompt.name}.args`,
+      'input',
+      add
+    );
+  }
+  for (const prompt of next.prompts) {
+    if (!previous.prompts.some((entry) => entry.name === prompt.name)) {
+      add('prompt-added', `prompts.${prompt.name}`, false, `Prompt '${prompt.name}' added`);
+    }
+  }
+
+  compareSchemaDocuments(previous.configSchema, next.configSchema, 'config', 'input', add);
+
+  const breaking = changes.filter((change) => change.breaking);
+  return { compatible: breaking.length === 0, breaking, changes };
+}
+
+/**
+ * Compare a schema document between versions, resolving `$ref` pointers
+ * against the document they appear in
+ */
+function compareSchemaDocuments(
+  previous: JsonSchema,
+  next: JsonSchema,
+  path: string,
+  direction: 'input' | 'output',
+  add: AddChange
+): void {
+  compareSchemas(previous, next, path, {
+    direction,
+    previousRoot: previous,
+    nextRoot: next,
+    // The roots themselves are being compared
+    compared: new Set(['# #']),
+    add,
+  });
+}
+
+/**
+ * Compare a schema between versions, recursing into union variants,
+ * intersections, object properties and array items
+ *
+ * Inputs break when they accept less than before; outputs break when they
+ * guarantee less than before.
+ */
+function compareSchemas(
+  previousSchema: JsonSchema,
+  nextSchema: JsonSchema,
+  path: string,
+  comparison: SchemaComparison
+): void {
+  const { direction, add } = comparison;
+  if (previousSchema['$ref'] !== undefined || nextSchema['$ref'] !== undefined) {
+    const refs = `${String(previousSchema['$ref'] ?? '')} ${String(nextSchema['$ref'] ?? '')}`;
+    if (comparison.compared.has(refs)) {
+      return;
+    }
+    comparison.compared.add(refs);
+  }
+  const previous = resolveRef(previousSchema, comparison.previousRoot);
+  const next = resolveRef(nextSchema, comparison.nextRoot);
+
+  if (variantsOf(previous) || variantsOf(next)) {
+    compareVariants(previous, next, path, comparison);
+    return;
+  }
+
+  const previousTypes = typesOf(previous);
+  const nextTypes = typesOf(next);
+  if (formatTypes(previousTypes) !== formatTypes(nextTypes)) {
+    const breaking = direction === 'input'
+      ? !coversTypes(nextTypes, previousTypes)
+      : !coversTypes(previousTypes, nextTypes);
+    add('type-changed', path, breaking,
+      `Type of '${path}' changed from ${formatTypes(previousTypes)} to ${formatTypes(nextTypes)}`);
+    if (breaking) {
+      return;
+    }
+  }
+
+  const previousEnum = previous['enum'] as unknown[] | undefined;
+  const nextEnum = next['enum'] as unknown[] | undefined;
+  if (previousEnum && nextEnum) {
+    const removed = previousEnum.filter((value) => !nextEnum.some((entry) => sameValue(entry, value)));
+    const added = nextEnum.filter((value) => !previousEnum.some((entry) => sameValue(entry, value)));
+    if (removed.length > 0 || added.length > 0) {
+      const breaking = direction === 'input' ? removed.length > 0 : added.length > 0;
+      add('enum-changed', path, breaking, `Allowed values of '${path}' changed`
+        + (removed.length > 0 ? `; removed ${JSON.stringify(removed)}` : '')
+        + (added.length > 0 ? `; added ${JSON.stringify(added)}` : ''));
+    }
+  } else if (nextEnum && direction === 'input') {
+    add('enum-changed', path, true, `Values of '${path}' restricted to ${JSON.stringify(nextEnum)}`);
+  } else if (previousEnum && !nextEnum && direction === 'output') {
+    add('enum-changed', path, true, `Values of '${path}' are no longer restricted`);
+  }
+
+  compareConstraints(previous, next, path, comparison);
+
+  const previousParts = (previous['allOf'] ?? []) as JsonSchema[];
+  const nextParts = (next['allOf'] ?? []) as JsonSchema[];
+  for (let index = 0; index < Math.max(previousParts.length, nextParts.length); index++) {
+    const previousPart = previousParts[index];
+    const nextPart = nextParts[index];
+    if (previousPart && nextPart) {
+      compareSchemas(previousPart, nextPart, `${path}.allOf[${index}]`, comparison);
+    } else if (nextPart) {
+      add('constraint-tightened', path, direction === 'input', `Constraint added to '${path}'`);
+    } else {
+      add('constraint-loosened', path, direction === 'output', `Constraint removed from '${path}'`);
+    }
+  }
+
+  if (isSchema(previous['items']) && isSchema(next['items'])) {
+    compareSchemas(previous['items'], next['items'], `${path}[]`, comparison);
+  }
+  const previousItems = (previous['prefixItems'] ?? []) as JsonSchema[];
+  const nextItems = (next['prefixItems'] ?? []) as JsonSchema[];
+  for (let index = 0; index < Math.min(previousItems.length, nextItems.length); index++) {
+    compareSchemas(previousItems[index]!, nextItems[index]!, `${path}[${index}]`, comparison);
+  }
+
+  if (isSchema(previous['additionalProperties']) && isSchema(next['additionalProperties'])) {
+    compareSchemas(previous['additionalProperties'], next['additionalProperties'], `${path}.*`, comparison);
+  } else if (
+    direction === 'input'
+    && previous['additionalProperties'] !== false
+    && next['additionalProperties'] === false
+    && previous['type'] === 'object'
+  ) {
+    add('constraint-tightened', path, true, `Unknown keys of '${path}' are now rejected`);
+  }
+
+  const previousProperties = (previous['properties'] ?? {}) as Record<string, JsonSchema>;
+  const nextProperties = (next['properties'] ?? {}) as Record<string, JsonSchema>;
+  const previousRequired = new Set((previous['required'] ?? []) as string[]);
+  const nextRequired = new Set((next['required'] ?? []) as string[]);
+
+  for (const [key, schema] of Object.entries(previousProperties)) {
+    const propertyPath = `${path}.${key}`;
+    const nextSchema = nextProperties[key];
+    if (!nextSchema) {
+      const breaking = direction === 'output'
+        ? previousRequired.has(key)
+        : next['additionalProperties'] === false;
+      add(`${direction}-removed`, propertyPath, breaking, `'${propertyPath}' removed`);
+      continue;
+    }
+
+    if (direction === 'input' && !previousRequired.has(key) && nextRequired.has(key)) {
+      add('input-required', propertyPath, true, `'${propertyPath}' is now required`);
+    } else if (direction === 'input' && previousRequired.has(key) && !nextRequired.has(key)) {
+      add('input-optional', propertyPath, false, `'${propertyPath}' is now optional`);
+    } else if (direction === 'output' && previousRequired.has(key) && !nextRequired.has(key)) {
+      add('output-optional', propertyPath, true, `'${propertyPath}' is no longer always returned`);
+    }
+    compareSchemas(schema, nextSchema, propertyPath, comparison);
+  }
+
+  for (const key of Object.keys(nextProperties)) {
+    if (key in previousProperties) {
+      continue;
+    }
+    const propertyPath = `${path}.${key}`;
+    if (direction === 'input') {
+      const required = nextRequired.has(key);
+      add(required ? 'input-required' : 'input-added', propertyPath, required,
+        required ? `Required input '${propertyPath}' added` : `Optional input '${propertyPath}' added`);
+    } else {
+      add('output-added', propertyPath, false, `'${propertyPath}' added`);
+    }
+  }
+}
+
+/**
+ * Compare the variants of a union, treating a schema without anyOf or oneOf
+ * as a union of itself
+ *
+ * Variants are paired by equal JSON first, then by type and shared
+ * properties. Removed variants break inputs; added variants break outputs.
+ */
+function compareVariants(
+  previous: JsonSchema,
+  next: JsonSchema,
+  path: string,
+  comparison: SchemaComparison
+): void {
+  const { direction, add } = comparison;
+  const previousVariants = variantsOf(previous) ?? [previous];
+  const nextVariants = variantsOf(next) ?? [next];
+  const unmatched = new Set(nextVariants.keys());
+  const paired = new Set<number>();
+
+  previousVariants.forEach((variant, index) => {
+    const json = JSON.stringify(variant);
+    // Equal pointers can still resolve to changed definitions
+    if (json.includes('"$ref"')) {
+      return;
+    }
+    const match = Array.from(unmatched).find((candidate) => JSON.stringify(nextVariants[candidate]) === json);
+    if (match !== undefined) {
+      unmatched.delete(match);
+      paired.add(index);
+    }
+  });
+
+  previousVariants.forEach((variant, index) => {
+    if (paired.has(index)) {
+      return;
+    }
+    const resolved = resolveRef(variant, comparison.previousRoot);
+    const types = formatTypes(typesOf(resolved));
+    let match: number | undefined;
+    let bestScore = -1;
+    for (const candidate of unmatched) {
+      const candidateSchema = resolveRef(nextVariants[candidate]!, comparison.nextRoot);
+      if (formatTypes(typesOf(candidateSchema)) !== types) {
+        continue;
+      }
+      const score = similarity(resolved, candidateSchema);
+      if (score > bestScore) {
+        match = candidate;
+        bestScore = score;
+      }
+    }
+
+    if (match === undefined) {
+      add('variant-removed', path, direction === 'input',
+        `Variant ${describeVariant(resolved)} of '${path}' removed`);
+      return;
+    }
+    unmatched.delete(match);
+    compareSchemas(variant, nextVariants[match]!, `${path}.anyOf[${index}]`, comparison);
+  });
+
+  for (const index of unmatched) {
+    const resolved = resolveRef(nextVariants[index]!, comparison.nextRoot);
+    add('variant-added', path, direction === 'output',
+      `Variant ${describeVariant(resolved)} of '${path}' added`);
+  }
+}
+
+const LOWER_BOUNDS = ['minimum', 'exclusiveMinimum', 'minLength', 'minItems', 'minProperties'];
+const UPPER_BOUNDS = ['maximum', 'exclusiveMaximum', 'maxLength', 'maxItems', 'maxProperties'];
+const EXACT_CONSTRAINTS = ['const', 'pattern', 'format', 'multipleOf', 'uniqueItems'];
+
+/**
+ * Compare bounds, patterns, formats and constants of a schema
+ *
+ * Tighter constraints break inputs and looser ones break outputs; a changed
+ * pattern, format, multiple or constant breaks both.
+ */
+function compareConstraints(
+  previous: JsonSchema,
+  next: JsonSchema,
+  path: string,
+  comparison: SchemaComparison
+): void {
+  const { direction, add } = comparison;
+  const report = (key: string, change: 'tightened' | 'loosened' | 'changed') => {
+    const breaking = change === 'changed' || (change === 'tightened') === (direction === 'input');
+    add(`constraint-${change}`, path, breaking,
+      `${key} of '${path}' changed from ${formatConstraint(previous[key])} to ${formatConstraint(next[key])}`);
+  };
+
+  for (const key of [...LOWER_BOUNDS, ...UPPER_BOUNDS]) {
+    const previousBound = previous[key] as number | undefined;
+    const nextBound = next[key] as number | undefined;
+    if (previousBound === nextBound) {
+      continue;
+    }
+    const lower = LOWER_BOUNDS.includes(key);
+    const tightened = nextBound !== undefined
+      && (previousBound === undefined || (lower ? nextBound > previousBound : nextBound < previousBound));
+    report(key, tightened ? 'tightened' : 'loosened');
+  }
+
+  for (const key of EXACT_CONSTRAINTS) {
+    if (sameValue(previous[key], next[key])) {
+      continue;
+    }
+    report(key, previous[key] === undefined ? 'tightened' : next[key] === undefined ? 'loosened' : 'changed');
+  }
+}
+
+/**
+ * Resolve a local `$ref` pointer (`#` or `#/$defs/<name>`) against its
+ * document; unresolvable pointers allow anything
+ */
+function resolveRef(schema: JsonSchema, root: JsonSchema): JsonSchema {
+  const ref = schema['$ref'];
+  if (typeof ref !== 'string') {
+    return schema;
+  }
+  if (ref === '#') {
+    return root;
+  }
+  const defs = root['$defs'];
+  const name = ref.startsWith('#/$defs/') ? ref.slice('#/$defs/'.length) : undefined;
+  const resolved = name !== undefined && isSchema(defs) ? defs[name] : undefined;
+  return isSchema(resolved) ? resolved : {};
+}
+
+/**
+ * Get the variants of a union schema
+ */
+function variantsOf(schema: JsonSchema): JsonSchema[] | undefined {
+  const variants = schema['anyOf'] ?? schema['oneOf'];
+  return Array.isArray(variants) ? variants.filter(isSchema) : undefined;
+}
+
+/**
+ * Score how likely two variants of the same type are one variant changed:
+ * shared property names, and equal constants such as discriminators
+ */
+function similarity(previous: JsonSchema, next: JsonSchema): number {
+  const previousProperties = (previous['properties'] ?? {}) as Record<string, JsonSchema>;
+  const nextProperties = (next['properties'] ?? {}) as Record<string, JsonSchema>;
+  let score = previous['const'] !== undefined && sameValue(previous['const'], next['const']) ? 100 : 0;
+  for (const [key, schema] of Object.entries(previousProperties)) {
+    const nextSchema = nextProperties[key];
+    if (nextSchema) {
+      score += schema['const'] !== undefined && sameValue(schema['const'], nextSchema['const']) ? 100 : 1;
+    }
+  }
+  return score;
+}
+
+function describeVariant(schema: JsonSchema): string {
+  return schema['const'] !== undefined ? JSON.stringify(schema['const']) : formatTypes(typesOf(schema));
+}
+
+function formatConstraint(value: unknown): string {
+  return value === undefined ? 'none' : JSON.stringify(value);
+}
+
+/**
+ * Get the JSON types a schema allows; undefined allows any type
+ */
+function typesOf(schema: JsonSchema): string[] | undefined {
+  const type = schema['type'];
+  if (Array.isArray(type)) {
+    return (type as string[]).slice().sort();
+  }
+  return typeof type === 'string' ? [type] : undefined;
+}
+
+/**
+ * Whether every type in `narrower` is allowed by `wider`
+ */
+function coversTypes(wider: string[] | undefined, narrower: string[] | undefined): boolean {
+  if (wider === undefined) {
+    return true;
+  }
+  if (narrower === undefined) {
+    return false;
+  }
+  return narrower.every((type) => wider.includes(type) || (type === 'integer' && wider.includes('number')));
+}
+
+function formatTypes(types: string[] | undefined): string {
+  return types ? types.join('|') : 'any';
+}
+
+function isSchema(value: unknown): value is JsonSchema {
+  return typeof value === 'object' && value !== null && !Array.isArray(value);
+}
+
+function sameValue(a: unknown, b: unknown): boolean {
+  return JSON.stringify(a) === JSON.stringify(b);
+}
+
+function byName(a: { name: string }, b: { name: string }): number {
+  return a.name < b.name ? -1 : a.name > b.name ? 1 : 0;
+}
+
+function sortKeys(value: unknown): unknown {
+  if (Array.isArray(value)) {
+    return value.map(sortKeys);
+  }
+  if (isSchema(value)) {
+    return Object.fromEntries(
+      Object.keys(value).sort().map((key) => [key, sortKeys(value[key])])
+    );
+  }
+  return value;
+}
@@ -0,0 +1,117 @@
+import { describe, it, expect } from 'vitest';
+import { Counter, Gauge, Histogram, MetricsRegistry } from './metrics.js';
+import { ErrorCode } from './errors.js';
+
+describe('Counter', () => {
+  it('keeps one series per label set regardless of label order', () => {
+    const counter = new Counter('calls_total', 'Calls');
+
+    counter.inc({ tool: 'a', status: 'ok' });
+    counter.inc({ status: 'ok', tool: 'a' }, 2);
+    counter.inc({ tool: 'b', status: 'ok' });
+
+    expect(counter.get({ status: 'ok', tool: 'a' })).toBe(3);
+    expect(counter.get({ tool: 'b', status: 'ok' })).toBe(1);
+    expect(counter.get({ tool: 'c' })).toBe(0);
+  });
+
+  it('cannot be decreased', () => {
+    const counter = new Counter('calls_total', 'Calls');
+
+    expect(() => counter.inc({}, -1)).toThrow(expect.objectContaining({ code: ErrorCode.INVALID_INPUT }));
+  });
+
+  it('rejects invalid and reserved label names', () => {
+    const counter = new Counter('calls_total', 'Calls');
+
+    expect(() => counter.inc({ 'tool-name': 'a' })).toThrow(`Invalid label name 'tool-name'`);
+    expect(() => counter.inc({ le: '1' })).toThrow(`Invalid label name 'le'`);
+  });
+});
+
+describe('Gauge', () => {
+  it('goes up and down', () => {
+    const gauge = new Gauge('in_flight', 'Calls in flight');
+
+    gauge.inc();
+    gauge.inc({}, 2);
+    gauge.dec();
+    expect(gauge.get()).toBe(2);
+
+    gauge.set({}, 7);
+    expect(gauge.get()).toBe(7);
+  });
+});
+
+describe('Histogram', () => {
+  it('counts observations into cumulative buckets', () => {
+    const histogram = new Histogram('latency_seconds', 'Latency', [1, 0.1, 0.5]);
+
+    histogram.observe({}, 0.05);
+    histogram.observe({}, 0.3);
+    histogram.observe({}, 0.5);
+    histogram.observe({}, 4);
+
+    expect(histogram.snapshot().samples).toEqual([{
+      labels: {},
+      buckets: [{ le: 0.1, count: 1 }, { le: 0.5, count: 3 }, { le: 1, count: 3 }],
+      sum: 4.85,
+      count: 4,
+    }]);
+  });
+});
+
+describe('MetricsRegistry', () => {
+  it('shares metrics by name and rejects a second type', () => {
+    const registry = new MetricsRegistry();
+
+    expect(registry.counter('calls_total', 'Calls')).toBe(registry.counter('calls_total', 'Calls'));
+    expect(() => registry.gauge('calls_total', 'Calls')).toThrow(
+      `Metric 'calls_total' is already registered as a counter`
+    );
+    expect(() => registry.counter('calls-total', 'Calls')).toThrow(`Invalid metric name 'calls-total'`);
+  });
+
+  it('keeps registered metrics on reset', () => {
+    const registry = new MetricsRegistry();
+    registry.counter('calls_total', 'Calls').inc();
+
+    registry.reset();
+
+    expect(registry.toPrometheus()).toBe('# HELP calls_total Calls\n# TYPE calls_total counter\n');
+  });
+
+  it('renders the Prometheus text format', () => {
+    const registry = new MetricsRegistry();
+    const calls = registry.counter('calls_total', 'Tool calls\nby "tool" and status \\ outcome');
+    calls.inc({ tool: 'say "hi"', status: 'ok' }, 2);
+    calls.inc({ tool: 'path\\to\nfile', status: 'error' });
+    registry.gauge('in_flight', 'Calls in flight').set({}, -1.5);
+    const latency = registry.histogram('latency_seconds', 'Latency', [0.1, 1]);
+    latency.observe({ tool: 'a' }, 0.05);
+    latency.observe({ tool: 'a' }, 0.5);
+    latency.observe({ tool: 'a' }, 2);
+
+    expect(registry.toPrometheus()).toBe([
+      '# HELP calls_total Tool calls\\nby "tool" and status \\\\ outcome',
+      '# TYPE calls_total counter',
+      'calls_total{tool="say \\"hi\\"",status="ok"} 2',
+      'calls_total{tool="path\\\\to\\nfile",status="error"} 1',
+      '# HELP in_flight Calls in flight',
+      '# TYPE in_flight gauge',
+      'in_flight -1.5',
+      '# HELP latency_seconds Latency',
+      '# TYPE latency_seconds histogram',
+      'latency_seconds_bucket{tool="a",le="0.1"} 1',
+      'latency_seconds_bucket{tool="a",le="1"} 2',
+      'latency_seconds_bucket{tool="a",le="+Inf"} 3',
+      'latency_seconds_sum{tool="a"} 2.55',
+      'latency_seconds_count{tool="a"} 3',
+      '',
+    ].join('\n'));
+  });
+
+  it('renders an empty registry as an empty document', () => {
+    expect(new MetricsRegistry().toPrometheus()).toBe('');
+  });
+});
@@ -0,0 +1,351 @@
+import { SubAgentError, ErrorCode } from './errors.js';
+
+/**
+ * Label values of a metric sample
+ */
+export type MetricLabels = Record<string, string>;
+
+/**
+ * Kind of metric
+ */
+export type MetricType = 'counter' | 'gauge' | 'histogram';
+
+/**
+ * Counter or gauge sample
+ */
+export interface MetricSample {
+  labels: MetricLabels;
+  value: number;
+}
+
+/**
+ * Histogram sample with cumulative bucket counts
+ *
+ * The implicit +Inf bucket equals `count`.
+ */
+export interface HistogramSample {
+  labels: MetricLabels;
+  buckets: Array<{ le: number; count: number }>;
+  sum: number;
+  count: number;
+}
+
+/**
+ * Point-in-time view of a single metric
+ */
+export type MetricSnapshot =
+  | { name: string; help: string; type: 'counter' | 'gauge'; samples: MetricSample[] }
+  | { name: string; help: string; type: 'histogram'; samples: HistogramSample[] };
+
+/**
+ * Point-in-time view of all metrics in a registry
+ */
+export interface MetricsSnapshot {
+  timestamp: string;
+  metrics: MetricSnapshot[];
+}
+
+/**
+ * Custom metrics recorded by tools through their context
+ *
+ * Samples are labelled with the calling tool.
+ */
+export interface ToolMetrics {
+  increment(name: string, labels?: MetricLabels, value?: number): void;
+}
+
+/**
+ * Default histogram buckets for latencies, in seconds
+ */
+export const DEFAULT_LATENCY_BUCKETS = [
+  0.005, 0.01, 0.025, 0.05, 0.1, 0.25, 0.5, 1, 2.5, 5, 10, 30,
+];
+
+const METRIC_NAME = /^[a-zA-Z_:][a-zA-Z0-9_:]*$/;
+const LABEL_NAME = /^[a-zA-Z_][a-zA-Z0-9_]*$/;
+
+/**
+ * Base class for metrics holding one series per label set
+ */
+abstract class Metric<TSeries> {
+  readonly name: string;
+  readonly help: string;
+  abstract readonly type: MetricType;
+  protected series = new Map<string, { labels: MetricLabels; data: TSeries }>();
+
+  constructor(name: string, help: string) {
+    this.name = name;
+    this.help = help;
+  }
+
+  /**
+   * Drop all recorded series
+   */
+  reset(): void {
+    this.series.clear();
+  }
+
+  protected getSeries(labels: MetricLabels, create: () => TSeries): TSeries {
+    const key = labelKey(labels);
+    let entry = this.series.get(key);
+    if (!entry) {
+      for (const label of Object.keys(labels)) {
+        if (!LABEL_NAME.test(label) || label === 'le') {
+          throw new SubAgentError(
+            `Invalid label name '${label}' for metric '${this.name}'`,
+            ErrorCode.INVALID_INPUT,
+            { metric: this.name, label }
+          );
+        }
+      }
+      entry = { labels: { ...labels }, data: create() };
+      this.series.set(key, entry);
+    }
+    return entry.data;
+  }
+
+  abstract snapshot(): MetricSnapshot;
+}
+
+/**
+ * Monotonically increasing counter
+ */
+export class Counter extends Metric<{ value: number }> {
+  readonly type = 'counter' as const;
+
+  inc(labels: MetricLabels = {}, value: number = 1): void {
+    if (value < 0) {
+      throw new SubAgentError(
+        `Counter '${this.name}' cannot be decreased`,
+        ErrorCode.INVALID_INPUT,
+        { metric: this.name, value }
+      );
+    }
+    this.getSeries(labels, () => ({ value: 0 })).value += value;
+  }
+
+  get(labels: MetricLabels = {}): number {
+    return this.series.get(labelKey(labels))?.data.value ?? 0;
+  }
+
+  snapshot(): MetricSnapshot {
+    return {
+      name: this.name,
+      help: this.help,
+      type: this.type,
+      samples: Array.from(this.series.values(), ({ labels, data }) => ({ labels, value: data.value })),
+    };
+  }
+}
+
+/**
+ * Value that can go up and down
+ */
+export class Gauge extends Metric<{ value: number }> {
+  readonly type = 'gauge' as const;
+
+  set(labels: MetricLabels, value: number): void {
+    this.getSeries(labels, () => ({ value: 0 })).value = value;
+  }
+
+  inc(labels: MetricLabels = {}, value: number = 1): void {
+    this.getSeries(labels, () => ({ value: 0 })).value += value;
+  }
+
+  dec(labels: MetricLabels = {}, value: number = 1): void {
+    this.inc(labels, -value);
+  }
+
+  get(labels: MetricLabels = {}): number {
+    return this.series.get(labelKey(labels))?.data.value ?? 0;
+  }
+
+  snapshot(): MetricSnapshot {
+    return {
+      name: this.name,
+      help: this.help,
+      type: this.type,
+      samples: Array.from(this.series.values(), ({ labels, data }) => ({ labels, value: data.value })),
+    };
+  }
+}
+
+/**
+ * Distribution of observed values over fixed buckets
+ */
+export class Histogram extends Metric<{ counts: number[]; sum: number; count: number }> {
+  readonly type = 'histogram' as const;
+  readonly buckets: number[];
+
+  constructor(name: string, help: string, buckets: number[] = DEFAULT_LATENCY_BUCKETS) {
+    super(name, help);
+    this.buckets = [...buckets].sort((a, b) => a - b);
+  }
+
+  observe(labels: MetricLabels, value: number): void {
+    const series = this.getSeries(labels, () => ({
+      counts: this.buckets.map(() => 0),
+      sum: 0,
+      count: 0,
+    }));
+    this.buckets.forEach((le, index) => {
+      if (value <= le) series.counts[index]++;
+    });
+    series.sum += value;
+    series.count++;
+  }
+
+  /**
+   * Start timing; the returned function observes the elapsed seconds
+   */
+  startTimer(labels: MetricLabels = {}): () => number {
+    const start = performance.now();
+    return () => {
+      const seconds = (performance.now() - start) / 1000;
+      this.observe(labels, seconds);
+      return seconds;
+    };
+  }
+
+  snapshot(): MetricSnapshot {
+    return {
+      name: this.name,
+      help: this.help,
+      type: this.type,
+      samples: Array.from(this.series.values(), ({ labels, data }) => ({
+        labels,
+        buckets: this.buckets.map((le, index) => ({ le, count: data.counts[index] })),
+        sum: data.sum,
+        count: data.count,
+      })),
+    };
+  }
+}
+
+/**
+ * Registry of named metrics
+ *
+ * Metrics are created on first use and shared afterwards; asking for an
+ * existing name with a different type is an error.
+ */
+export class MetricsRegistry {
+  private metrics = new Map<string, Counter | Gauge | Histogram>();
+
+  counter(name: string, help: string): Counter {
+    return this.getOrCreate(name, 'counter', () => new Counter(name, help)) as Counter;
+  }
+
+  gauge(name: string, help: string): Gauge {
+    return this.getOrCreate(name, 'gauge', () => new Gauge(name, help)) as Gauge;
+  }
+
+  histogram(name: string, help: string, buckets?: number[]): Histogram {
+    return this.getOrCreate(name, 'histogram', () => new Histogram(name, help, buckets)) as Histogram;
+  }
+
+  /**
+   * Get a metric by name
+   */
+  get(name: string): Counter | Gauge | Histogram | undefined {
+    return this.metrics.get(name);
+  }
+
+  /**
+   * Drop all recorded samples, keeping the registered metrics
+   */
+  reset(): void {
+    for (const metric of this.metrics.values()) {
+      metric.reset();
+    }
+  }
+
+  /**
+   * Take a JSON-serializable snapshot of all metrics
+   */
+  snapshot(): MetricsSnapshot {
+    return {
+      timestamp: new Date().toISOString(),
+      metrics: Array.from(this.metrics.values(), (metric) => metric.snapshot()),
+    };
+  }
+
+  /**
+   * Render all metrics in the Prometheus text exposition format
+   */
+  toPrometheus(): string {
+    const lines: string[] = [];
+    for (const metric of this.snapshot().metrics) {
+      lines.push(`# HELP ${metric.name} ${escapeHelp(metric.help)}`);
+      lines.push(`# TYPE ${metric.name} ${metric.type}`);
+
+      if (metric.type !== 'histogram') {
+        for (const sample of metric.samples) {
+          lines.push(`${metric.name}${formatLabels(sample.labels)} ${formatValue(sample.value)}`);
+        }
+        continue;
+      }
+
+      for (const sample of metric.samples) {
+        for (const bucket of [...sample.buckets, { le: Infinity, count: sample.count }]) {
+          const labels = formatLabels({ ...sample.labels, le: formatValue(bucket.le) });
+          lines.push(`${metric.name}_bucket${labels} ${bucket.count}`);
+        }
+        lines.push(`${metric.name}_sum${formatLabels(sample.labels)} ${formatValue(sample.sum)}`);
+        lines.push(`${metric.name}_count${formatLabels(sample.labels)} ${sample.count}`);
+      }
+    }
+    return lines.length > 0 ? `${lines.join('\n')}\n` : '';
+  }
+
+  private getOrCreate(
+    name: string,
+    type: MetricType,
+    create: () => Counter | Gauge | Histogram
+  ): Counter | Gauge | Histogram {
+    const existing = this.metrics.get(name);
+    if (existing) {
+      if (existing.type !== type) {
+        throw new SubAgentError(
+          `Metric '${name}' is already registered as a ${existing.type}`,
+          ErrorCode.INVALID_INPUT,
+          { metric: name, type, existing: existing.type }
+        );
+      }
+      return existing;
+    }
+
+    if (!METRIC_NAME.test(name)) {
+      throw new SubAgentError(`Invalid metric name '${name}'`, ErrorCode.INVALID_INPUT, { metric: name });
+    }
+    const metric = create();
+    this.metrics.set(name, metric);
+    return metric;
+  }
+}
+
+function labelKey(labels: MetricLabels): string {
+  return JSON.stringify(Object.entries(labels).sort(([a], [b]) => (a < b ? -1 : a > b ? 1 : 0)));
+}
+
+function formatLabels(labels: MetricLabels): string {
+  const entries = Object.entries(labels);
+  if (entries.length === 0) {
+    return '';
+  }
+  const formatted = entries.map(([name, value]) => `${name}="${escapeLabelValue(value)}"`);
+  return `{${formatted.join(',')}}`;
+}
+
+function formatValue(value: number): string {
+  if (value === Infinity) return '+Inf';
+  if (value === -Infinity) return '-Inf';
+  return String(value);
+}
+
+function escapeHelp(help: string): string {
+  return help.replace(/\\/g, '\\\\').replace(/\n/g, '\\n');
+}
+
+function escapeLabelValue(value: string): string {
+  return value.replace(/\\/g, '\\\\').replace(/"/g, '\\"').replace(/\n/g, '\\n');
+}
@@ -0,0 +1,74 @@
+import type { ToolCall, ToolMiddleware, ToolResult } from '../types/index.js';
+import { SubAgentError, ErrorCode } from './errors.js';
+import { getToolCache, stableHash } from './cache.js';
+import { collectStream, isAsyncIterable } from './stream.js';
+
+/**
+ * Compose middleware around a tool handler
+ *
+ * Middleware runs in registration order; each one calls `next()` to
+ * continue down the chain, or returns a result without calling it to
+ * short-circuit. Changes to `call.input` made before `next()` are seen by
+ * the rest of the chain and the handler. Cached tools are looked up at the
+ * end of the chain, so middleware also runs for cache hits.
+ */
+export function composeMiddleware(
+  middleware: ToolMiddleware[]
+): (call: ToolCall) => Promise<ToolResult> {
+  return (call) => {
+    let index = -1;
+    const dispatch = async (position: number): Promise<ToolResult> => {
+      if (position <= index) {
+        throw new SubAgentError(
+          `Middleware for tool '${call.tool.name}' called next() more than once`,
+          ErrorCode.PROCESSING_FAILED,
+          { tool: call.tool.name }
+        );
+      }
+      index = position;
+
+      const current = middleware[position];
+      return current
+        ? current(call, () => dispatch(position + 1))
+        : invokeHandler(call);
+    };
+    return dispatch(0);
+  };
+}
+
+/**
+ * Call the tool handler, going through the tool's result cache if it has one
+ *
+ * Only successful results are cached, by default per principal. The cache
+ * status is reported in the result metadata; cache hits stream no chunks.
+ */
+async function invokeHandler(call: ToolCall): Promise<ToolResult> {
+  const { tool, input, context } = call;
+  const cache = getToolCache(tool);
+  if (!cache) {
+    return runHandler(call);
+  }
+
+  const { principal } = context;
+  const key = `${tool.name}:${tool.cache?.key
+    ? tool.cache.key(input, principal)
+    : stableHash({ input, principal: principal?.id })}`;
+  const { value, status } = await cache.run(
+    key,
+    () => runHandler(call),
+    (result) => result.success,
+    context.logger,
+    context.signal
+  );
+  return { ...value, metadata: { ...value.metadata, cache: status } };
+}
+
+/**
+ * Call the tool handler, aggregating streamed output into a result
+ */
+async function runHandler({ tool, input, context }: ToolCall): Promise<ToolResult> {
+  const output = tool.handler(input, context);
+  return isAsyncIterable(output)
+    ? { success: true, data: await collectStream(output, context, tool.aggregate) }
+    : output;
+}
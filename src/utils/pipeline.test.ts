@@ -0,0 +1,209 @@
+import { describe, it, expect, afterEach } from 'vitest';
+import { z } from 'zod';
+import { BaseSubAgent } from '../base/BaseSubAgent.js';
+import { SubAgentError, ErrorCode } from './errors.js';
+import type { ProgressUpdate } from '../types/index.js';
+import { createToolHandler } from '../mcp/tools.js';
+import { createPipeline, runPipeline, type ToolExecutor } from './pipeline.js';
+
+class MathAgent extends BaseSubAgent {
+  cancelled: string[] = [];
+
+  constructor() {
+    super(
+      { name: 'math-agent', version: '1.0.0', description: 'Does arithmetic', capabilities: [] },
+      { logLevel: 'silent', retryAttempts: 0 }
+    );
+    this.registerTool(createToolHandler({
+      name: 'double',
+      description: 'Doubles a number',
+      inputSchema: z.number(),
+      handler: async (value) => value * 2,
+    }));
+    this.registerTool(createToolHandler({
+      name: 'increment',
+      description: 'Adds one',
+      inputSchema: z.number(),
+      handler: async (value) => value + 1,
+    }));
+    this.registerTool(createToolHandler({
+      name: 'fail',
+      description: 'Fails',
+      inputSchema: z.unknown(),
+      handler: async () => {
+        throw new SubAgentError('Out of range', ErrorCode.PROCESSING_FAILED, { limit: 10 });
+      },
+    }));
+    this.registerTool(createToolHandler({
+      name: 'wait',
+      description: 'Waits until cancelled',
+      inputSchema: z.unknown(),
+      handler: (_input, context) => new Promise((_, reject) => {
+        context.signal.addEventListener('abort', () => {
+          this.cancelled.push(context.requestId);
+          reject(context.signal.reason);
+        }, { once: true });
+      }),
+    }));
+    this.registerTool(createPipeline(this, {
+      name: 'double-then-increment',
+      description: 'Doubles, then adds one',
+      inputSchema: z.number(),
+      steps: [{ tool: 'double' }, { tool: 'increment' }],
+    }));
+  }
+}
+
+let agent: MathAgent;
+
+async function startAgent(): Promise<MathAgent> {
+  agent = new MathAgent();
+  await agent.start();
+  return agent;
+}
+
+afterEach(async () => {
+  await agent?.stop();
+});
+
+describe('runPipeline', () => {
+  it('passes each step output to the next step', async () => {
+    await startAgent();
+
+    const result = await runPipeline(agent, [
+      { tool: 'double' },
+      { tool: 'increment' },
+      { map: (value, state) => ({ value, input: state.input, doubled: state.outputs['double'] }) },
+    ], 5);
+
+    expect(result).toEqual({ value: 11, input: 5, doubled: 10 });
+  });
+
+  it('builds tool inputs and checks step outputs', async () => {
+    await startAgent();
+
+    const result = await runPipeline(agent, [
+      { name: 'parse', map: (value) => Number(value), schema: z.number().int() },
+      { tool: 'double', input: (_value, state) => state.outputs['parse'] },
+    ], '21');
+
+    expect(result).toBe(42);
+    await expect(runPipeline(agent, [{ name: 'parse', map: Number, schema: z.number().int() }], '1.5'))
+      .rejects.toMatchObject({ code: ErrorCode.VALIDATION_FAILED, details: { step: 'parse' } });
+  });
+
+  it('fails with the error of a failing tool, naming the step', async () => {
+    await startAgent();
+
+    const error = await runPipeline(agent, [{ tool: 'double' }, { tool: 'fail' }], 1).catch((e: unknown) => e);
+
+    expect(error).toBeInstanceOf(SubAgentError);
+    expect(error).toMatchObject({
+      code: ErrorCode.PROCESSING_FAILED,
+      details: { step: 'fail', tool: 'fail', limit: 10 },
+    });
+    expect((error as Error).message).toContain("Pipeline step 'fail' failed");
+  });
+
+  it('falls back to PROCESSING_FAILED for unknown error codes', async () => {
+    const executor: ToolExecutor = {
+      executeTool: async () => ({
+        success: false,
+        results: null,
+        error: 'Teapot',
+        metadata: { processingTimeMs: 0, code: 'TEAPOT', retryable: true },
+      }),
+    };
+
+    await expect(runPipeline(executor, [{ tool: 'brew' }], 1)).rejects.toMatchObject({
+      code: ErrorCode.PROCESSING_FAILED,
+      retryable: true,
+      details: { step: 'brew', tool: 'brew' },
+    });
+  });
+
+  it('wraps errors thrown by mapping functions', async () => {
+    await startAgent();
+
+    await expect(runPipeline(agent, [{ map: () => { throw new Error('bad map'); } }], 1))
+      .rejects.toMatchObject({ code: ErrorCode.PROCESSING_FAILED, details: { step: 'step 1' } });
+  });
+
+  it('runs parallel branches and merges their outputs', async () => {
+    await startAgent();
+
+    const outputs = await runPipeline(agent, [
+      { parallel: { doubled: [{ tool: 'double' }], bumped: [{ tool: 'increment' }, { tool: 'double' }] } },
+    ], 3);
+    const merged = await runPipeline(agent, [
+      {
+        parallel: { a: [{ tool: 'double' }], b: [{ tool: 'increment' }] },
+        merge: (branches) => (branches['a'] as number) + (branches['b'] as number),
+      },
+    ], 3);
+
+    expect(outputs).toEqual({ doubled: 6, bumped: 8 });
+    expect(merged).toBe(10);
+  });
+
+  it('runs steps for each item in order', async () => {
+    await startAgent();
+
+    const result = await runPipeline(agent, [
+      { each: [{ tool: 'double' }, { tool: 'increment' }], concurrency: 2 },
+    ], [1, 2, 3]);
+    const fromItems = await runPipeline(agent, [
+      { each: [{ tool: 'double' }], items: (value) => (value as { list: number[] }).list },
+    ], { list: [4] });
+
+    expect(result).toEqual([3, 5, 7]);
+    expect(fromItems).toEqual([8]);
+    await expect(runPipeline(agent, [{ each: [{ tool: 'double' }] }], 1))
+      .rejects.toMatchObject({ code: ErrorCode.VALIDATION_FAILED });
+  });
+
+  it('cancels sibling branches when one fails', async () => {
+    await startAgent();
+
+    await expect(runPipeline(agent, [
+      { parallel: { slow: [{ tool: 'wait' }], broken: [{ tool: 'fail' }] } },
+    ], 1, { requestId: 'pipeline-1' })).rejects.toMatchObject({ details: { step: 'step 1/broken/fail' } });
+
+    expect(agent.cancelled).toEqual(['pipeline-1']);
+  });
+
+  it('stops when its signal aborts', async () => {
+    await startAgent();
+    const controller = new AbortController();
+
+    const running = runPipeline(agent, [{ tool: 'wait' }, { tool: 'double' }], 1, { signal: controller.signal });
+    await new Promise((resolve) => setTimeout(resolve, 10));
+    controller.abort();
+
+    await expect(running).rejects.toMatchObject({ code: ErrorCode.CANCELLED });
+  });
+});
+
+describe('createPipeline', () => {
+  it('rejects pipelines without steps', async () => {
+    await startAgent();
+
+    expect(() => createPipeline(agent, { name: 'empty', description: 'Empty', inputSchema: z.number(), steps: [] }))
+      .toThrow(expect.objectContaining({ code: ErrorCode.INVALID_CONFIG }));
+  });
+
+  it('runs as a tool, reporting progress after each step', async () => {
+    await startAgent();
+    const updates: ProgressUpdate[] = [];
+
+    const response = await agent.executeTool('double-then-increment', 4, undefined, {
+      onProgress: (update) => updates.push(update),
+    });
+
+    expect(response).toMatchObject({ success: true, results: 9 });
+    expect(updates).toEqual([
+      { progress: 1, total: 2, message: 'double' },
+      { progress: 2, total: 2, message: 'increment' },
+    ]);
+  });
+});
@@ -0,0 +1,338 @@
+import type { ZodType } from 'zod';
+import type {
+  ToolDefinition,
+  ExecuteToolOptions,
+  ProcessResponse,
+  ProgressUpdate,
+} from '../types/index.js';
+import { SubAgentError, ErrorCode } from './errors.js';
+import { validateSchema } from './validation.js';
+import { linkSignal, abortReason } from './policy.js';
+import { mapConcurrent } from './scheduler.js';
+import { createToolHandler, type CreateToolOptions } from '../mcp/tools.js';
+
+/**
+ * Runs the tools of a pipeline, e.g. a BaseSubAgent
+ */
+export interface ToolExecutor {
+  executeTool(
+    toolName: string,
+    input: unknown,
+    requestId?: string,
+    options?: ExecuteToolOptions
+  ): Promise<ProcessResponse>;
+}
+
+/**
+ * What the mapping functions of a pipeline can see
+ */
+export interface PipelineState {
+  /**
+   * Input of the pipeline
+   */
+  input: unknown;
+  /**
+   * Outputs of the steps run so far, by step name; tool steps are also
+   * listed under their tool's name
+   */
+  outputs: Record<string, unknown>;
+}
+
+interface StepBase {
+  /**
+   * Name used in errors and `state.outputs`
+   */
+  name?: string;
+  /**
+   * Checked against the step's output before it is passed on; the parsed
+   * value is passed on
+   */
+  schema?: ZodType<unknown>;
+}
+
+/**
+ * Call a tool with the previous step's output
+ */
+export interface ToolStep extends StepBase {
+  tool: string;
+  /**
+   * Build the tool input from the previous step's output (default: that
+   * output as is)
+   */
+  input?: (value: unknown, state: PipelineState) => unknown | Promise<unknown>;
+}
+
+/**
+ * Transform the previous step's output
+ */
+export interface MapStep extends StepBase {
+  map: (value: unknown, state: PipelineState) => unknown | Promise<unknown>;
+}
+
+/**
+ * Run branches on the same value at the same time and merge their outputs
+ */
+export interface ParallelStep extends StepBase {
+  parallel: Record<string, PipelineStep[]>;
+  /**
+   * Combine the outputs of the branches (default: the outputs by branch)
+   */
+  merge?: (outputs: Record<string, unknown>, state: PipelineState) => unknown | Promise<unknown>;
+}
+
+/**
+ * Run steps for each item of a list, collecting their outputs in order
+ */
+export interface EachStep extends StepBase {
+  each: PipelineStep[];
+  /**
+   * Get the items from the previous step's output (default: that output,
+   * which must be an array)
+   */
+  items?: (value: unknown, state: PipelineState) => unknown[] | Promise<unknown[]>;
+  /**
+   * Items processed at a time (default: 1)
+   */
+  concurrency?: number;
+}
+
+export type PipelineStep = ToolStep | MapStep | ParallelStep | EachStep;
+
+/**
+ * Options for running a pipeline
+ */
+export interface PipelineRunOptions extends Pick<ExecuteToolOptions, 'signal' | 'principal' | 'traceparent'> {
+  /**
+   * Request id of the tool calls, e.g. that of the call running the pipeline
+   * (default: a new one per call)
+   */
+  requestId?: string;
+  /**
+   * Receives an update after each top-level step
+   */
+  onProgress?: (update: ProgressUpdate) => void;
+}
+
+/**
+ * Options for creating a pipeline tool
+ */
+export interface CreatePipelineOptions<TInput, TOutput>
+  extends Omit<CreateToolOptions<TInput, TOutput>, 'handler' | 'aggregate'> {
+  steps: PipelineStep[];
+}
+
+/**
+ * Run steps one after the other, each taking the previous step's output
+ *
+ * A failing tool call, invalid step output or thrown mapping function
+ * stops the pipeline with a SubAgentError whose details name the step.
+ * Failing branches of a parallel or each step cancel their siblings.
+ */
+export async function runPipeline(
+  executor: ToolExecutor,
+  steps: PipelineStep[],
+  input: unknown,
+  options: PipelineRunOptions = {}
+): Promise<unknown> {
+  const state: PipelineState = { input, outputs: {} };
+  const controller = new AbortController();
+  const unlink = options.signal ? linkSignal(options.signal, controller) : () => {};
+  try {
+    return await runSteps(
+      executor, steps, input, state, { ...options, signal: controller.signal }, '', true
+    );
+  } finally {
+    unlink();
+  }
+}
+
+/**
+ * Create a tool that runs a pipeline
+ *
+ * The tool's calls run on behalf of the pipeline's caller and are
+ * cancelled with it. Progress is reported after each step. The pipeline is
+ * not retried as a whole by default; its tools retry under their own
+ * policies.
+ */
+export function createPipeline<TInput, TOutput>(
+  executor: ToolExecutor,
+  options: CreatePipelineOptions<TInput, TOutput>
+): ToolDefinition {
+  if (options.steps.length === 0) {
+    throw new SubAgentError(
+      `Pipeline '${options.name}' has no steps`,
+      ErrorCode.INVALID_CONFIG,
+      { pipeline: options.name }
+    );
+  }
+
+  return createToolHandler<TInput, TOutput>({
+    ...options,
+    policy: { retryAttempts: 0, ...options.policy },
+    handler: async (input, context) => runPipeline(executor, options.steps, input, {
+      requestId: context.requestId,
+      signal: context.signal,
+      principal: context.principal,
+      onProgress: ({ progress, total, message }) => context.reportProgress(progress, total, message),
+    }) as Promise<TOutput>,
+  });
+}
+
+async function runSteps(
+  executor: ToolExecutor,
+  steps: PipelineStep[],
+  value: unknown,
+  state: PipelineState,
+  options: PipelineRunOptions & { signal: AbortSignal },
+  path: string,
+  topLevel = false
+): Promise<unknown> {
+  let current = value;
+  for (const [index, step] of steps.entries()) {
+    if (options.signal.aborted) {
+      throw abortReason(options.signal, 'pipeline');
+    }
+
+    const label = `${path}${stepName(step, index)}`;
+    let output = await runStep(executor, step, current, state, options, label);
+
+    if (step.schema) {
+      const result = validateSchema(step.schema, output);
+      if (!result.success) {
+        throw new SubAgentError(
+          `Pipeline step '${label}' produced invalid output: ${result.errors.join(', ')}`,
+          ErrorCode.VALIDATION_FAILED,
+          { step: label, errors: result.errors }
+        );
+      }
+      output = result.data;
+    }
+
+    if ('tool' in step) {
+      state.outputs[step.tool] = output;
+    }
+    if (step.name) {
+      state.outputs[step.name] = output;
+    }
+    if (topLevel) {
+      options.onProgress?.({ progress: index + 1, total: steps.length, message: label });
+    }
+    current = output;
+  }
+  return current;
+}
+
+async function runStep(
+  executor: ToolExecutor,
+  step: PipelineStep,
+  value: unknown,
+  state: PipelineState,
+  options: PipelineRunOptions & { signal: AbortSignal },
+  label: string
+): Promise<unknown> {
+  if ('tool' in step) {
+    const input = step.input ? await guard(label, () => step.input!(value, state)) : value;
+    const response = await executor.executeTool(step.tool, input, options.requestId, {
+      signal: options.signal,
+      principal: options.principal,
+      traceparent: options.traceparent,
+    });
+    if (!response.success) {
+      throw stepError(label, step.tool, response);
+    }
+    return response.results;
+  }
+
+  if ('map' in step) {
+    return guard(label, () => step.map(value, state));
+  }
+
+  if ('parallel' in step) {
+    const branches = Object.entries(step.parallel);
+    const outputs = await fanOut(branches, branches.length, options, (branch, signal) => runSteps(
+      executor, branch[1], value, forkState(state), { ...options, signal }, `${label}/${branch[0]}/`
+    ));
+    const merged = Object.fromEntries(branches.map(([name], index) => [name, outputs[index]]));
+    return step.merge ? guard(label, () => step.merge!(merged, state)) : merged;
+  }
+
+  const items = step.items ? await guard(label, () => step.items!(value, state)) : value;
+  if (!Array.isArray(items)) {
+    throw new SubAgentError(
+      `Pipeline step '${label}' needs an array of items`,
+      ErrorCode.VALIDATION_FAILED,
+      { step: label }
+    );
+  }
+  return fanOut(items, step.concurrency ?? 1, options, (item, signal, index) => runSteps(
+    executor, step.each, item, forkState(state), { ...options, signal }, `${label}[${index}]/`
+  ));
+}
+
+/**
+ * Run branches with bounded parallelism, cancelling the rest when one fails
+ */
+async function fanOut<T>(
+  items: readonly T[],
+  concurrency: number,
+  options: { signal: AbortSignal },
+  fn: (item: T, signal: AbortSignal, index: number) => Promise<unknown>
+): Promise<unknown[]> {
+  const controller = new AbortController();
+  const unlink = linkSignal(options.signal, controller);
+  try {
+    return await mapConcurrent(items, concurrency, async (item, index) => {
+      try {
+        return await fn(item, controller.signal, index);
+      } catch (error) {
+        controller.abort(error);
+        throw error;
+      }
+    });
+  } finally {
+    unlink();
+  }
+}
+
+function stepName(step: PipelineStep, index: number): string {
+  if (step.name) {
+    return step.name;
+  }
+  return 'tool' in step ? step.tool : `step ${index + 1}`;
+}
+
+function forkState(state: PipelineState): PipelineState {
+  return { input: state.input, outputs: { ...state.outputs } };
+}
+
+async function guard<T>(label: string, fn: () => T | Promise<T>): Promise<T> {
+  try {
+    return await fn();
+  } catch (error) {
+    if (error instanceof SubAgentError) {
+      throw error;
+    }
+    throw new SubAgentError(
+      `Pipeline step '${label}' failed: ${error instanceof Error ? error.message : String(error)}`,
+      ErrorCode.PROCESSING_FAILED,
+      { step: label }
+    );
+  }
+}
+
+function stepError(label: string, tool: string, response: ProcessResponse): SubAgentError {
+  const metadata: Record<string, unknown> = response.metadata ?? {};
+  const details = metadata['details'];
+  return new SubAgentError(
+    `Pipeline step '${label}' failed: ${response.error ?? 'unknown error'}`,
+    Object.values(ErrorCode).includes(metadata['code'] as ErrorCode)
+      ? metadata['code'] as ErrorCode
+      : ErrorCode.PROCESSING_FAILED,
+    {
+      ...(typeof details === 'object' && details !== null ? details : {}),
+      step: label,
+      tool,
+    },
+    metadata['retryable'] === true
+  );
+}
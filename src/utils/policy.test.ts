@@ -0,0 +1,164 @@
+import { describe, it, expect, vi } from 'vitest';
+import {
+  executeWithPolicy,
+  withTimeout,
+  computeRetryDelay,
+  resolvePolicy,
+  linkSignal,
+  DEFAULT_EXECUTION_POLICY,
+} from './policy.js';
+import { SubAgentError, ErrorCode, cancelledError, rateLimitedError } from './errors.js';
+import type { ExecutionPolicy } from '../types/index.js';
+
+const policy: ExecutionPolicy = {
+  ...DEFAULT_EXECUTION_POLICY,
+  timeout: 50,
+  retryAttempts: 2,
+  retryDelay: 1,
+  jitter: 0,
+};
+
+const retryable = () => new SubAgentError('busy', ErrorCode.RESOURCE_EXHAUSTED, undefined, true);
+
+describe('resolvePolicy', () => {
+  it('takes timeout and retries from the config and applies overrides', () => {
+    const resolved = resolvePolicy(
+      { timeout: 100, retryAttempts: 1 } as Parameters<typeof resolvePolicy>[0],
+      { retryDelay: 5 }
+    );
+    expect(resolved).toMatchObject({ timeout: 100, retryAttempts: 1, retryDelay: 5, backoffMultiplier: 2 });
+  });
+});
+
+describe('computeRetryDelay', () => {
+  it('backs off exponentially up to the maximum', () => {
+    const backoff = { ...policy, retryDelay: 100, maxRetryDelay: 300 };
+    expect([1, 2, 3].map((retry) => computeRetryDelay(backoff, retry))).toEqual([100, 200, 300]);
+  });
+
+  it('keeps jittered delays within range', () => {
+    const jittered = { ...policy, retryDelay: 100, jitter: 0.5 };
+    for (let i = 0; i < 20; i++) {
+      const delay = computeRetryDelay(jittered, 1);
+      expect(delay).toBeGreaterThanOrEqual(50);
+      expect(delay).toBeLessThanOrEqual(100);
+    }
+  });
+});
+
+describe('withTimeout', () => {
+  it('rejects with a TIMEOUT error and aborts the signal', async () => {
+    let signal: AbortSignal | undefined;
+    const error = await withTimeout('op', 10, (s) => {
+      signal = s;
+      return new Promise(() => {});
+    }).catch((e: unknown) => e);
+
+    expect(error).toBeInstanceOf(SubAgentError);
+    expect((error as SubAgentError).code).toBe(ErrorCode.TIMEOUT);
+    expect(signal?.aborted).toBe(true);
+  });
+
+  it('rejects right away when the parent signal aborts', async () => {
+    const parent = new AbortController();
+    const pending = withTimeout('op', 1000, () => new Promise(() => {}), parent.signal);
+    parent.abort(cancelledError('op', 'stop'));
+
+    await expect(pending).rejects.toMatchObject({ code: ErrorCode.CANCELLED });
+  });
+
+  it('disables the deadline for a timeout of zero', async () => {
+    await expect(withTimeout('op', 0, async () => 'done')).resolves.toBe('done');
+  });
+});
+
+describe('executeWithPolicy', () => {
+  it('retries retryable errors and reports the attempts', async () => {
+    const onRetry = vi.fn();
+    const fn = vi.fn(async (attempt: number) => {
+      if (attempt < 3) {
+        throw retryable();
+      }
+      return 'ok';
+    });
+
+    const outcome = await executeWithPolicy('op', policy, fn, { onRetry });
+
+    expect(outcome).toEqual({ success: true, value: 'ok', attempts: 3 });
+    expect(onRetry).toHaveBeenCalledTimes(2);
+    expect(onRetry.mock.calls[0]![0]).toMatchObject({ operation: 'op', attempt: 1 });
+  });
+
+  it('does not retry non-retryable errors', async () => {
+    const fn = vi.fn(async () => {
+      throw new Error('boom');
+    });
+
+    const outcome = await executeWithPolicy('op', policy, fn);
+
+    expect(outcome.success).toBe(false);
+    expect(outcome.attempts).toBe(1);
+    expect(fn).toHaveBeenCalledTimes(1);
+  });
+
+  it('gives up after the last attempt', async () => {
+    const outcome = await executeWithPolicy('op', policy, async () => {
+      throw retryable();
+    });
+
+    expect(outcome).toMatchObject({ success: false, attempts: 3 });
+  });
+
+  it('retries timed-out attempts', async () => {
+    const outcome = await executeWithPolicy('op', { ...policy, timeout: 10, retryAttempts: 1 }, () => new Promise(() => {}));
+
+    expect(outcome).toMatchObject({ success: false, attempts: 2 });
+    expect((outcome as { error: SubAgentError }).error.code).toBe(ErrorCode.TIMEOUT);
+  });
+
+  it('lets shouldRetry veto a retry', async () => {
+    const outcome = await executeWithPolicy('op', policy, async () => {
+      throw retryable();
+    }, { shouldRetry: () => false });
+
+    expect(outcome.attempts).toBe(1);
+  });
+
+  it('waits at least retryAfterMs before retrying', async () => {
+    const onRetry = vi.fn();
+    let calls = 0;
+    await executeWithPolicy('op', policy, async () => {
+      if (calls++ === 0) {
+        throw rateLimitedError(20);
+      }
+      return 'ok';
+    }, { onRetry });
+
+    expect(onRetry.mock.calls[0]![0].delayMs).toBe(20);
+  });
+
+  it('stops retrying once cancelled', async () => {
+    const controller = new AbortController();
+    const outcome = await executeWithPolicy('op', { ...policy, retryDelay: 1000 }, async () => {
+      throw retryable();
+    }, { signal: controller.signal, onRetry: () => controller.abort() });
+
+    expect(outcome.success).toBe(false);
+    expect((outcome as { error: SubAgentError }).error.code).toBe(ErrorCode.CANCELLED);
+  });
+});
+
+describe('linkSignal', () => {
+  it('forwards the abort reason until unlinked', () => {
+    const source = new AbortController();
+    const target = new AbortController();
+    const unlink = linkSignal(source.signal, target);
+    source.abort('why');
+    expect(target.signal.reason).toBe('why');
+
+    const other = new AbortController();
+    linkSignal(new AbortController().signal, other)();
+    unlink();
+    expect(other.signal.aborted).toBe(false);
+  });
+});
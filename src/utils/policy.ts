@@ -0,0 +1,209 @@
+import type { ExecutionPolicy, SubAgentConfig } from '../types/index.js';
+import { SubAgentError, cancelledError, timeoutError, getRetryAfter } from './errors.js';
+
+/**
+ * Default execution policy
+ *
+ * Timeout and retry values mirror the SubAgentConfigSchema defaults.
+ */
+export const DEFAULT_EXECUTION_POLICY: ExecutionPolicy = {
+  timeout: 30000,
+  retryAttempts: 3,
+  retryDelay: 1000,
+  backoffMultiplier: 2,
+  maxRetryDelay: 30000,
+  jitter: 0.2,
+};
+
+/**
+ * Outcome of running an operation under an execution policy
+ */
+export type PolicyOutcome<T> =
+  | { success: true; value: T; attempts: number }
+  | { success: false; error: unknown; attempts: number };
+
+/**
+ * Information passed to retry listeners
+ */
+export interface RetryInfo {
+  operation: string;
+  attempt: number;
+  delayMs: number;
+  error: unknown;
+}
+
+/**
+ * Options for running an operation under a policy
+ */
+export interface PolicyOptions {
+  /**
+   * Aborts the current attempt and any pending retries
+   */
+  signal?: AbortSignal;
+  onRetry?: (info: RetryInfo) => void;
+  /**
+   * Further condition for retrying a retryable error, e.g. false once
+   * output has been streamed to the caller
+   */
+  shouldRetry?: (error: unknown) => boolean;
+}
+
+/**
+ * Resolve the effective policy from agent configuration and an optional override
+ */
+export function resolvePolicy(
+  config: SubAgentConfig,
+  override: Partial<ExecutionPolicy> = {}
+): ExecutionPolicy {
+  return {
+    ...DEFAULT_EXECUTION_POLICY,
+    timeout: config.timeout ?? DEFAULT_EXECUTION_POLICY.timeout,
+    retryAttempts: config.retryAttempts ?? DEFAULT_EXECUTION_POLICY.retryAttempts,
+    retryDelay: config.retryDelay ?? DEFAULT_EXECUTION_POLICY.retryDelay,
+    ...override,
+  };
+}
+
+/**
+ * Check whether an error should trigger a retry
+ */
+export function isRetryable(error: unknown): boolean {
+  return error instanceof SubAgentError && error.retryable;
+}
+
+/**
+ * Compute the backoff delay before the given retry (1-based)
+ */
+export function computeRetryDelay(policy: ExecutionPolicy, retry: number): number {
+  const base = Math.min(
+    policy.retryDelay * Math.pow(policy.backoffMultiplier, retry - 1),
+    policy.maxRetryDelay
+  );
+  const jitter = Math.min(Math.max(policy.jitter, 0), 1);
+  return Math.round(base * (1 - jitter + Math.random() * jitter));
+}
+
+/**
+ * Run an async function with a deadline
+ *
+ * The function receives a signal that is aborted when the deadline passes
+ * or the parent signal aborts; the returned promise rejects with the abort
+ * reason right away rather than waiting for the function to notice. A
+ * timeout of zero or less disables the deadline.
+ */
+export async function withTimeout<T>(
+  operation: string,
+  timeoutMs: number,
+  fn: (signal: AbortSignal) => Promise<T>,
+  parentSignal?: AbortSignal
+): Promise<T> {
+  if (parentSignal?.aborted) {
+    throw abortReason(parentSignal, operation);
+  }
+
+  const controller = new AbortController();
+  const onParentAbort = () => controller.abort(abortReason(parentSignal!, operation));
+  parentSignal?.addEventListener('abort', onParentAbort, { once: true });
+
+  let timer: NodeJS.Timeout | undefined;
+  if (Number.isFinite(timeoutMs) && timeoutMs > 0) {
+    timer = setTimeout(() => controller.abort(timeoutError(operation, timeoutMs)), timeoutMs);
+  }
+
+  const aborted = new Promise<never>((_, reject) => {
+    controller.signal.addEventListener('abort', () => reject(controller.signal.reason), { once: true });
+  });
+
+  try {
+    return await Promise.race([fn(controller.signal), aborted]);
+  } finally {
+    clearTimeout(timer);
+    parentSignal?.removeEventListener('abort', onParentAbort);
+  }
+}
+
+/**
+ * Run an async function under an execution policy
+ *
+ * Each attempt gets its own deadline. Failed attempts are retried with
+ * exponential backoff and jitter, but only when the error is a retryable
+ * SubAgentError and the operation has not been cancelled. A `retryAfterMs`
+ * in the error details, as set on rate limit errors, is the minimum delay.
+ */
+export async function executeWithPolicy<T>(
+  operation: string,
+  policy: ExecutionPolicy,
+  fn: (attempt: number, signal: AbortSignal) => Promise<T>,
+  options: PolicyOptions = {}
+): Promise<PolicyOutcome<T>> {
+  const { signal, onRetry, shouldRetry } = options;
+  const maxAttempts = Math.max(0, policy.retryAttempts) + 1;
+  let attempt = 0;
+
+  for (;;) {
+    attempt++;
+    try {
+      const value = await withTimeout(
+        operation,
+        policy.timeout,
+        (attemptSignal) => fn(attempt, attemptSignal),
+        signal
+      );
+      return { success: true, value, attempts: attempt };
+    } catch (error) {
+      if (attempt >= maxAttempts || !isRetryable(error) || shouldRetry?.(error) === false || signal?.aborted) {
+        return { success: false, error, attempts: attempt };
+      }
+
+      const delayMs = Math.max(computeRetryDelay(policy, attempt), getRetryAfter(error) ?? 0);
+      onRetry?.({ operation, attempt, delayMs, error });
+      try {
+        await sleep(delayMs, operation, signal);
+      } catch (sleepError) {
+        return { success: false, error: sleepError, attempts: attempt };
+      }
+    }
+  }
+}
+
+/**
+ * Abort a controller when a source signal aborts
+ *
+ * Returns a function that removes the link.
+ */
+export function linkSignal(source: AbortSignal, controller: AbortController): () => void {
+  if (source.aborted) {
+    controller.abort(source.reason);
+    return () => {};
+  }
+  const onAbort = () => controller.abort(source.reason);
+  source.addEventListener('abort', onAbort, { once: true });
+  return () => source.removeEventListener('abort', onAbort);
+}
+
+/**
+ * Get the error to report for an aborted signal
+ */
+export function abortReason(signal: AbortSignal, operation: string): unknown {
+  return signal.reason instanceof SubAgentError
+    ? signal.reason
+    : cancelledError(operation);
+}
+
+function sleep(ms: number, operation: string, signal?: AbortSignal): Promise<void> {
+  return new Promise((resolve, reject) => {
+    if (signal?.aborted) {
+      reject(abortReason(signal, operation));
+      return;
+    }
+    const onAbort = () => {
+      clearTimeout(timer);
+      reject(abortReason(signal!, operation));
+    };
+    const timer = setTimeout(() => {
+      signal?.removeEventListener('abort', onAbort);
+      resolve();
+    }, ms);
+    signal?.addEventListener('abort', onAbort, { once: true });
+  });
+}
@@ -0,0 +1,99 @@
+import { describe, it, expect, afterEach } from 'vitest';
+import { RateLimiter, checkRateLimit, checkRateLimits } from './rateLimit.js';
+import { ErrorCode, getRetryAfter } from './errors.js';
+import { installFakeClock, type FakeClock } from '../testing/clock.js';
+
+let clock: FakeClock | undefined;
+
+afterEach(() => {
+  clock?.uninstall();
+  clock = undefined;
+});
+
+describe('RateLimiter', () => {
+  it('allows a burst, then refills at the rate', async () => {
+    clock = installFakeClock(0);
+    const limiter = new RateLimiter();
+    const limit = { rate: 2, burst: 3 };
+
+    expect([1, 2, 3].map(() => limiter.take('key', limit))).toEqual([0, 0, 0]);
+    expect(limiter.take('key', limit)).toBe(500);
+
+    await clock.tick(500);
+    expect(limiter.take('key', limit)).toBe(0);
+    expect(limiter.take('key', limit)).toBe(500);
+  });
+
+  it('peeks without taking a token', () => {
+    const limiter = new RateLimiter();
+    const limit = { rate: 1, interval: 60_000 };
+
+    expect(limiter.wait('key', limit)).toBe(0);
+    expect(limiter.wait('key', limit)).toBe(0);
+    expect(limiter.take('key', limit)).toBe(0);
+    expect(limiter.wait('key', limit)).toBeGreaterThan(0);
+  });
+
+  it('drops the least recently used buckets', () => {
+    const limiter = new RateLimiter({ maxBuckets: 2 });
+    const limit = { rate: 1, interval: 60_000 };
+
+    limiter.take('a', limit);
+    limiter.take('b', limit);
+    limiter.take('a', limit);
+    limiter.take('c', limit);
+
+    expect(limiter.size).toBe(2);
+    expect(limiter.take('a', limit)).toBeGreaterThan(0);
+    expect(limiter.take('b', limit)).toBe(0);
+  });
+});
+
+describe('checkRateLimit', () => {
+  const limit = { rate: 1, interval: 60_000 };
+
+  it('keys buckets by caller by default', () => {
+    const limiter = new RateLimiter();
+
+    expect(checkRateLimit(limiter, 'agent', limit, 'search', 'alice')).toBeUndefined();
+    expect(checkRateLimit(limiter, 'agent', limit, 'index', 'bob')).toBeUndefined();
+
+    const limited = checkRateLimit(limiter, 'agent', limit, 'index', 'alice');
+    expect(limited?.code).toBe(ErrorCode.RATE_LIMITED);
+    expect(limited?.retryable).toBe(true);
+    expect(limited?.details).toMatchObject({ tool: 'index', caller: 'alice', scope: 'agent' });
+    expect(getRetryAfter(limited)).toBeGreaterThan(0);
+  });
+
+  it('keys buckets by tool or by caller and tool', () => {
+    const limiter = new RateLimiter();
+    const byTool = { ...limit, by: 'tool' as const };
+    const byBoth = { ...limit, by: 'caller-tool' as const };
+
+    expect(checkRateLimit(limiter, 'agent', byTool, 'search', 'alice')).toBeUndefined();
+    expect(checkRateLimit(limiter, 'agent', byTool, 'search', 'bob')).toBeDefined();
+    expect(checkRateLimit(limiter, 'agent', byBoth, 'search', 'alice')).toBeUndefined();
+    expect(checkRateLimit(limiter, 'agent', byBoth, 'index', 'alice')).toBeUndefined();
+    expect(checkRateLimit(limiter, 'agent', byBoth, 'search', 'alice')).toBeDefined();
+  });
+});
+
+describe('checkRateLimits', () => {
+  it('takes no token when any bucket is empty', () => {
+    const limiter = new RateLimiter();
+    const tool = { scope: 'tool:search', limit: { rate: 5, interval: 60_000 } };
+    const agent = { scope: 'agent', limit: { rate: 1, interval: 60_000 } };
+
+    expect(checkRateLimits(limiter, [tool, agent], 'search', 'alice')).toBeUndefined();
+    for (let call = 0; call < 3; call++) {
+      expect(checkRateLimits(limiter, [tool, agent], 'search', 'alice')?.details)
+        .toMatchObject({ scope: 'agent' });
+    }
+
+    // Only the first call counted against the tool's limit
+    for (let call = 0; call < 4; call++) {
+      expect(checkRateLimits(limiter, [tool], 'search', 'alice')).toBeUndefined();
+    }
+    expect(checkRateLimits(limiter, [tool], 'search', 'alice')).toBeDefined();
+  });
+});
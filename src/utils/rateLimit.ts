@@ -0,0 +1,135 @@
+import type { RateLimit } from '../types/index.js';
+import { rateLimitedError, type SubAgentError } from './errors.js';
+
+/**
+ * Caller identity used when a call has neither a principal nor a caller id
+ */
+export const ANONYMOUS_CALLER = 'anonymous';
+
+interface Bucket {
+  tokens: number;
+  updatedAt: number;
+}
+
+/**
+ * Token-bucket rate limiter
+ *
+ * Buckets start full and refill continuously at the limit's rate, so the
+ * limit can change between calls (e.g. on a config reload) without
+ * resetting them. The least recently used buckets are dropped beyond
+ * `maxBuckets`.
+ */
+export class RateLimiter {
+  private buckets = new Map<string, Bucket>();
+  private maxBuckets: number;
+
+  constructor(options: { maxBuckets?: number } = {}) {
+    this.maxBuckets = options.maxBuckets ?? 10000;
+  }
+
+  get size(): number {
+    return this.buckets.size;
+  }
+
+  /**
+   * Take a token from a bucket
+   *
+   * Returns 0 when the call may proceed, or else the milliseconds until a
+   * token is available.
+   */
+  take(key: string, limit: RateLimit): number {
+    const wait = this.wait(key, limit);
+    if (wait === 0) {
+      this.buckets.get(key)!.tokens -= 1;
+    }
+    return wait;
+  }
+
+  /**
+   * Get the milliseconds until a bucket has a token, without taking it
+   */
+  wait(key: string, limit: RateLimit): number {
+    const now = Date.now();
+    const interval = limit.interval ?? 1000;
+    const capacity = limit.burst ?? limit.rate;
+
+    const bucket = this.buckets.get(key) ?? { tokens: capacity, updatedAt: now };
+    bucket.tokens = Math.min(
+      capacity,
+      bucket.tokens + (Math.max(0, now - bucket.updatedAt) * limit.rate) / interval
+    );
+    bucket.updatedAt = now;
+
+    // Move to the most recently used position
+    this.buckets.delete(key);
+    this.buckets.set(key, bucket);
+    while (this.buckets.size > this.maxBuckets) {
+      this.buckets.delete(this.buckets.keys().next().value as string);
+    }
+
+    if (bucket.tokens >= 1) {
+      return 0;
+    }
+    return Math.ceil(((1 - bucket.tokens) * interval) / limit.rate);
+  }
+
+  /**
+   * Forget all buckets
+   */
+  reset(): void {
+    this.buckets.clear();
+  }
+}
+
+/**
+ * Limit and the namespace of its buckets, e.g. 'agent' or 'tool:<name>'
+ */
+export interface ScopedRateLimit {
+  scope: string;
+  limit: RateLimit;
+}
+
+/**
+ * Take a token for a tool call, returning a RATE_LIMITED error when the
+ * bucket is empty
+ *
+ * @param scope - Namespace of the limit's buckets, e.g. 'agent' or 'tool:<name>'
+ */
+export function checkRateLimit(
+  limiter: RateLimiter,
+  scope: string,
+  limit: RateLimit,
+  tool: string,
+  caller: string
+): SubAgentError | undefined {
+  return checkRateLimits(limiter, [{ scope, limit }], tool, caller);
+}
+
+/**
+ * Take a token from the bucket of each limit for a tool call, or from none
+ * of them when one is empty
+ *
+ * Returns a RATE_LIMITED error for the first empty bucket, so a call
+ * rejected by one limit does not count against the others.
+ */
+export function checkRateLimits(
+  limiter: RateLimiter,
+  limits: ScopedRateLimit[],
+  tool: string,
+  caller: string
+): SubAgentError | undefined {
+  const buckets = limits.map(({ scope, limit }) => {
+    const by = limit.by ?? 'caller';
+    const key = by === 'caller' ? caller : by === 'tool' ? tool : `${caller}\u0000${tool}`;
+    return { scope, limit, key: `${scope}\u0000${by}\u0000${key}` };
+  });
+
+  for (const { scope, limit, key } of buckets) {
+    const retryAfterMs = limiter.wait(key, limit);
+    if (retryAfterMs > 0) {
+      return rateLimitedError(retryAfterMs, { tool, caller, scope });
+    }
+  }
+  buckets.forEach(({ limit, key }) => limiter.take(key, limit));
+  return undefined;
+}
@@ -0,0 +1,158 @@
+import { describe, it, expect } from 'vitest';
+import { ConcurrencyScheduler, mapConcurrent, type SchedulerOptions } from './scheduler.js';
+import { ErrorCode } from './errors.js';
+
+function scheduler(options: Partial<SchedulerOptions> = {}): ConcurrencyScheduler {
+  return new ConcurrencyScheduler({ maxConcurrent: 1, maxQueueSize: 10, queueTimeout: 1000, ...options });
+}
+
+describe('ConcurrencyScheduler', () => {
+  it('runs calls under the limit right away', async () => {
+    const s = scheduler({ maxConcurrent: 2 });
+    await s.acquire();
+    await s.acquire();
+
+    expect(s.getStats()).toMatchObject({ active: 2, queued: 0, saturated: true });
+  });
+
+  it('queues calls over the limit in FIFO order', async () => {
+    const s = scheduler();
+    const release = await s.acquire();
+    const order: number[] = [];
+    const first = s.acquire().then((r) => { order.push(1); return r; });
+    const second = s.acquire().then((r) => { order.push(2); return r; });
+    expect(s.getStats().queued).toBe(2);
+
+    release();
+    (await first)();
+    (await second)();
+
+    expect(order).toEqual([1, 2]);
+    expect(s.getStats()).toMatchObject({ active: 0, queued: 0 });
+  });
+
+  it('ignores repeated releases', async () => {
+    const s = scheduler({ maxConcurrent: 2 });
+    const release = await s.acquire();
+    await s.acquire();
+    release();
+    release();
+
+    expect(s.getStats().active).toBe(1);
+  });
+
+  it('rejects calls when the queue is full', async () => {
+    const s = scheduler({ maxQueueSize: 1 });
+    await s.acquire();
+    void s.acquire();
+
+    await expect(s.acquire()).rejects.toMatchObject({ code: ErrorCode.RESOURCE_EXHAUSTED, retryable: true });
+    expect(s.getStats().rejected).toBe(1);
+  });
+
+  it('rejects calls that wait longer than the queue timeout', async () => {
+    const s = scheduler({ queueTimeout: 10 });
+    await s.acquire();
+
+    await expect(s.acquire()).rejects.toMatchObject({ code: ErrorCode.TIMEOUT });
+    expect(s.getStats()).toMatchObject({ queued: 0, rejected: 1 });
+  });
+
+  it('removes aborted calls from the queue', async () => {
+    const s = scheduler();
+    await s.acquire();
+    const controller = new AbortController();
+    const waiting = s.acquire(undefined, { signal: controller.signal });
+    controller.abort();
+
+    await expect(waiting).rejects.toMatchObject({ code: ErrorCode.CANCELLED });
+    expect(s.getStats().queued).toBe(0);
+  });
+
+  it('caps calls per key', async () => {
+    const s = scheduler({ maxConcurrent: 5 });
+    s.setLimit('tool', 1);
+    const release = await s.acquire('tool');
+    let started = false;
+    const waiting = s.acquire('tool').then((r) => { started = true; return r; });
+    await s.acquire('other');
+
+    expect(started).toBe(false);
+    expect(s.getStats().tools['tool']).toEqual({ active: 1, queued: 1, limit: 1 });
+
+    release();
+    await waiting;
+    expect(started).toBe(true);
+  });
+
+  it('lets later calls pass a call blocked by its key limit', async () => {
+    const s = scheduler({ maxConcurrent: 5 });
+    s.setLimit('tool', 1);
+    await s.acquire('tool');
+    void s.acquire('tool');
+
+    await expect(s.acquire('other')).resolves.toBeTypeOf('function');
+  });
+
+  it('does not count non-global calls against the global limit', async () => {
+    const s = scheduler();
+    await s.acquire();
+
+    await expect(s.acquire('tool', { global: false })).resolves.toBeTypeOf('function');
+    expect(s.getStats().active).toBe(1);
+  });
+
+  it('starts queued calls when a limit is raised', async () => {
+    const s = scheduler({ maxConcurrent: 5 });
+    s.setLimit('tool', 1);
+    await s.acquire('tool');
+    const waiting = s.acquire('tool');
+    s.setLimit('tool', undefined);
+
+    await expect(waiting).resolves.toBeTypeOf('function');
+  });
+});
+
+describe('mapConcurrent', () => {
+  it('keeps results in item order', async () => {
+    const results = await mapConcurrent([30, 10, 20], 3, async (ms, index) => {
+      await new Promise((resolve) => setTimeout(resolve, ms));
+      return index;
+    });
+
+    expect(results).toEqual([0, 1, 2]);
+  });
+
+  it('runs at most limit items at a time', async () => {
+    let running = 0;
+    let peak = 0;
+
+    await mapConcurrent(Array.from({ length: 6 }, (_, index) => index), 2, async () => {
+      peak = Math.max(peak, ++running);
+      await new Promise((resolve) => setTimeout(resolve, 5));
+      running--;
+    });
+
+    expect(peak).toBe(2);
+  });
+
+  it('runs one at a time for limits below one and handles no items', async () => {
+    const order: number[] = [];
+
+    await mapConcurrent([1, 2], 0, async (item) => {
+      order.push(item);
+    });
+
+    expect(order).toEqual([1, 2]);
+    expect(await mapConcurrent([], 4, async () => 1)).toEqual([]);
+  });
+
+  it('rejects with the first failure', async () => {
+    await expect(mapConcurrent([1, 2, 3], 2, async (item) => {
+      if (item === 2) {
+        throw new Error('item 2 failed');
+      }
+      return item;
+    })).rejects.toThrow('item 2 failed');
+  });
+});
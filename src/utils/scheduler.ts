@@ -0,0 +1,243 @@
+import type { LoadStatus } from '../types/index.js';
+import { SubAgentError, ErrorCode, timeoutError } from './errors.js';
+import { abortReason } from './policy.js';
+
+/**
+ * Options for the concurrency scheduler
+ */
+export interface SchedulerOptions {
+  maxConcurrent: number;
+  maxQueueSize: number;
+  queueTimeout: number;
+}
+
+/**
+ * Options for acquiring a slot
+ */
+export interface AcquireOptions {
+  /**
+   * Whether the call counts against the global limit (default: true)
+   */
+  global?: boolean;
+
+  /**
+   * Removes the call from the queue when aborted
+   */
+  signal?: AbortSignal;
+}
+
+/**
+ * Releases a previously acquired slot
+ */
+export type Release = () => void;
+
+interface QueueEntry {
+  key?: string;
+  global: boolean;
+  enqueuedAt: number;
+  resolve: (release: Release) => void;
+  reject: (error: unknown) => void;
+  timer?: NodeJS.Timeout;
+  cleanup?: () => void;
+}
+
+const WAIT_SAMPLE_SIZE = 100;
+
+/**
+ * Concurrency scheduler
+ *
+ * Caps in-flight work globally and per key (usually a tool name). Calls
+ * over the limit wait in a bounded FIFO queue; calls are rejected when the
+ * queue is full or when they wait longer than the queue timeout.
+ */
+export class ConcurrencyScheduler {
+  private options: SchedulerOptions;
+  private active = 0;
+  private activeByKey = new Map<string, number>();
+  private limits = new Map<string, number>();
+  private queue: QueueEntry[] = [];
+  private waits: number[] = [];
+  private rejected = 0;
+
+  constructor(options: SchedulerOptions) {
+    this.options = options;
+  }
+
+  /**
+   * Set the concurrency limit for a key
+   */
+  setLimit(key: string, limit: number | undefined): void {
+    if (limit === undefined) {
+      this.limits.delete(key);
+    } else {
+      this.limits.set(key, limit);
+    }
+    this.drain();
+  }
+
+  /**
+   * Acquire a slot, waiting in the queue if necessary
+   */
+  acquire(key?: string, options: AcquireOptions = {}): Promise<Release> {
+    const entry: Omit<QueueEntry, 'resolve' | 'reject'> = {
+      key,
+      global: options.global ?? true,
+      enqueuedAt: Date.now(),
+    };
+    const { signal } = options;
+
+    if (signal?.aborted) {
+      return Promise.reject(abortReason(signal, `queue:${key ?? 'global'}`));
+    }
+
+    if (this.canRun(entry)) {
+      return Promise.resolve(this.start(entry));
+    }
+
+    if (this.queue.length >= this.options.maxQueueSize) {
+      this.rejected++;
+      return Promise.reject(new SubAgentError(
+        `Queue is full (${this.options.maxQueueSize} pending calls)`,
+        ErrorCode.RESOURCE_EXHAUSTED,
+        { key, queued: this.queue.length, active: this.active },
+        true
+      ));
+    }
+
+    return new Promise<Release>((resolve, reject) => {
+      const queued: QueueEntry = { ...entry, resolve, reject };
+      const remove = (error: unknown) => {
+        this.queue = this.queue.filter((e) => e !== queued);
+        queued.cleanup?.();
+        reject(error);
+      };
+
+      if (this.options.queueTimeout > 0) {
+        queued.timer = setTimeout(() => {
+          this.rejected++;
+          remove(timeoutError(`queue:${key ?? 'global'}`, this.options.queueTimeout));
+        }, this.options.queueTimeout);
+      }
+
+      if (signal) {
+        const onAbort = () => remove(abortReason(signal, `queue:${key ?? 'global'}`));
+        signal.addEventListener('abort', onAbort, { once: true });
+        queued.cleanup = () => {
+          clearTimeout(queued.timer);
+          signal.removeEventListener('abort', onAbort);
+        };
+      } else {
+        queued.cleanup = () => clearTimeout(queued.timer);
+      }
+
+      this.queue.push(queued);
+    });
+  }
+
+  /**
+   * Get current load statistics
+   */
+  getStats(): LoadStatus {
+    const tools: LoadStatus['tools'] = {};
+    for (const [key, active] of this.activeByKey) {
+      tools[key] = { active, queued: 0, limit: this.limits.get(key) };
+    }
+    for (const entry of this.queue) {
+      if (entry.key === undefined) continue;
+      tools[entry.key] ??= { active: 0, queued: 0, limit: this.limits.get(entry.key) };
+      tools[entry.key]!.queued++;
+    }
+
+    const totalWait = this.waits.reduce((sum, wait) => sum + wait, 0);
+
+    return {
+      active: this.active,
+      queued: this.queue.length,
+      maxConcurrent: this.options.maxConcurrent,
+      maxQueueSize: this.options.maxQueueSize,
+      rejected: this.rejected,
+      averageWaitMs: this.waits.length > 0 ? Math.round(totalWait / this.waits.length) : 0,
+      maxWaitMs: this.waits.length > 0 ? Math.max(...this.waits) : 0,
+      saturated: this.active >= this.options.maxConcurrent,
+      tools,
+    };
+  }
+
+  private canRun(entry: Pick<QueueEntry, 'key' | 'global'>): boolean {
+    if (entry.global && this.active >= this.options.maxConcurrent) {
+      return false;
+    }
+    if (entry.key === undefined) {
+      return true;
+    }
+    const limit = this.limits.get(entry.key);
+    return limit === undefined || (this.activeByKey.get(entry.key) ?? 0) < limit;
+  }
+
+  private start(entry: Omit<QueueEntry, 'resolve' | 'reject'>): Release {
+    const { key, global } = entry;
+
+    this.recordWait(Date.now() - entry.enqueuedAt);
+    if (global) this.active++;
+    if (key !== undefined) this.activeByKey.set(key, (this.activeByKey.get(key) ?? 0) + 1);
+
+    let released = false;
+    return () => {
+      if (released) return;
+      released = true;
+
+      if (global) this.active--;
+      if (key !== undefined) {
+        const remaining = (this.activeByKey.get(key) ?? 1) - 1;
+        if (remaining > 0) {
+          this.activeByKey.set(key, remaining);
+        } else {
+          this.activeByKey.delete(key);
+        }
+      }
+      this.drain();
+    };
+  }
+
+  private drain(): void {
+    for (let i = 0; i < this.queue.length;) {
+      const entry = this.queue[i]!;
+      if (!this.canRun(entry)) {
+        i++;
+        continue;
+      }
+      this.queue.splice(i, 1);
+      entry.cleanup?.();
+      entry.resolve(this.start(entry));
+    }
+  }
+
+  private recordWait(waitMs: number): void {
+    this.waits.push(waitMs);
+    if (this.waits.length > WAIT_SAMPLE_SIZE) {
+      this.waits.shift();
+    }
+  }
+}
+
+/**
+ * Map items through an async function, running at most `limit` at a time
+ *
+ * Results are in the order of the items.
+ */
+export async function mapConcurrent<T, R>(
+  items: readonly T[],
+  limit: number,
+  fn: (item: T, index: number) => Promise<R>
+): Promise<R[]> {
+  const results = new Array<R>(items.length);
+  let next = 0;
+  const worker = async () => {
+    while (next < items.length) {
+      const index = next++;
+      results[index] = await fn(items[index]!, index);
+    }
+  };
+  await Promise.all(Array.from({ length: Math.min(Math.max(1, limit), items.length) }, worker));
+  return results;
+}
@@ -0,0 +1,161 @@
+import { describe, it, expect } from 'vitest';
+import type { ProcessResponse } from '../types/index.js';
+import { ErrorCode } from './errors.js';
+import { aggregateChunks, collectStream, isAsyncIterable, ToolStream } from './stream.js';
+
+async function* chunks<T>(...values: T[]): AsyncGenerator<T> {
+  for (const value of values) {
+    yield value;
+  }
+}
+
+const tick = () => new Promise((resolve) => setTimeout(resolve, 10));
+
+describe('isAsyncIterable', () => {
+  it('detects async iterables only', () => {
+    expect(isAsyncIterable(chunks())).toBe(true);
+    expect(isAsyncIterable([1, 2])).toBe(false);
+    expect(isAsyncIterable(Promise.resolve())).toBe(false);
+    expect(isAsyncIterable(null)).toBe(false);
+  });
+});
+
+describe('aggregateChunks', () => {
+  it('joins strings and collects anything else', () => {
+    expect(aggregateChunks(['a', 'b'])).toBe('ab');
+    expect(aggregateChunks(['a', 1])).toEqual(['a', 1]);
+    expect(aggregateChunks([])).toBe('');
+  });
+});
+
+describe('collectStream', () => {
+  it('emits each chunk and aggregates them', async () => {
+    const emitted: unknown[] = [];
+    const signal = new AbortController().signal;
+
+    const result = await collectStream(chunks(1, 2, 3), {
+      signal,
+      emit: async (chunk) => {
+        emitted.push(chunk);
+      },
+    }, (values) => (values as number[]).reduce((sum, value) => sum + value, 0));
+
+    expect(emitted).toEqual([1, 2, 3]);
+    expect(result).toBe(6);
+  });
+
+  it('closes the producer when aborted', async () => {
+    const controller = new AbortController();
+    let closed = false;
+    async function* endless() {
+      try {
+        for (;;) {
+          yield 'chunk';
+          await tick();
+        }
+      } finally {
+        closed = true;
+      }
+    }
+
+    const collecting = collectStream(endless(), { signal: controller.signal, emit: async () => {} });
+    await tick();
+    controller.abort();
+
+    await expect(collecting).rejects.toMatchObject({ code: ErrorCode.CANCELLED });
+    await tick();
+    expect(closed).toBe(true);
+  });
+
+  it('does not wait for a stuck producer when aborted', async () => {
+    const controller = new AbortController();
+    const stuck: AsyncIterable<unknown> = {
+      [Symbol.asyncIterator]: () => ({ next: () => new Promise(() => {}) }),
+    };
+
+    const collecting = collectStream(stuck, { signal: controller.signal, emit: async () => {} });
+    controller.abort();
+
+    await expect(collecting).rejects.toMatchObject({ code: ErrorCode.CANCELLED });
+  });
+});
+
+describe('ToolStream', () => {
+  function response(results: unknown): ProcessResponse {
+    return { success: true, results };
+  }
+
+  it('yields pushed chunks, then resolves the result', async () => {
+    const stream = new ToolStream(async ({ push }) => {
+      await push('a');
+      await push('b');
+      return response('ab');
+    });
+
+    const received: unknown[] = [];
+    for await (const chunk of stream) {
+      received.push(chunk);
+    }
+
+    expect(received).toEqual(['a', 'b']);
+    expect(await stream.result).toEqual(response('ab'));
+  });
+
+  it('holds up the producer at the high water mark', async () => {
+    let pushed = 0;
+    const stream = new ToolStream(async ({ push }) => {
+      for (let index = 0; index < 5; index++) {
+        await push(index);
+        pushed++;
+      }
+      return response(null);
+    }, { highWaterMark: 2 });
+
+    await tick();
+    expect(pushed).toBe(1);
+
+    const received: unknown[] = [];
+    for await (const chunk of stream) {
+      received.push(chunk);
+    }
+    expect(received).toEqual([0, 1, 2, 3, 4]);
+    expect(pushed).toBe(5);
+  });
+
+  it('cancels the call when the consumer stops early', async () => {
+    let signal: AbortSignal | undefined;
+    const stream = new ToolStream(async (run) => {
+      signal = run.signal;
+      for (let index = 0; !run.signal.aborted; index++) {
+        await run.push(index);
+      }
+      return response(null);
+    });
+
+    for await (const chunk of stream) {
+      if (chunk === 2) {
+        break;
+      }
+    }
+    await stream.result;
+
+    expect(signal?.aborted).toBe(true);
+    expect(signal?.reason).toMatchObject({ code: ErrorCode.CANCELLED });
+  });
+
+  it('cancels the call through the given signal', async () => {
+    const controller = new AbortController();
+    const stream = new ToolStream(({ signal }) => new Promise((resolve) => {
+      signal.addEventListener('abort', () => resolve(response('cancelled')), { once: true });
+    }), { signal: controller.signal });
+
+    controller.abort();
+
+    expect(await stream.result).toEqual(response('cancelled'));
+    const received: unknown[] = [];
+    for await (const chunk of stream) {
+      received.push(chunk);
+    }
+    expect(received).toEqual([]);
+  });
+});
@@ -0,0 +1,186 @@
+import type { ProcessResponse, ToolContext } from '../types/index.js';
+import { cancelledError } from './errors.js';
+import { abortReason, linkSignal } from './policy.js';
+
+/**
+ * Check whether a handler returned streamed output
+ */
+export function isAsyncIterable(value: unknown): value is AsyncIterable<unknown> {
+  return typeof value === 'object'
+    && value !== null
+    && typeof (value as AsyncIterable<unknown>)[Symbol.asyncIterator] === 'function';
+}
+
+/**
+ * Default aggregate of streamed chunks: strings are concatenated, anything
+ * else is returned as an array
+ */
+export function aggregateChunks(chunks: unknown[]): unknown {
+  return chunks.every((chunk) => typeof chunk === 'string')
+    ? chunks.join('')
+    : chunks;
+}
+
+/**
+ * Consume streamed handler output and aggregate it into the final result
+ *
+ * Each chunk is passed to `context.emit` before the next one is pulled, so
+ * a slow consumer holds up the producer. When `context.signal` aborts, the
+ * iterator is closed, letting a generator run its `finally` blocks, and the
+ * abort reason is thrown.
+ */
+export async function collectStream(
+  stream: AsyncIterable<unknown>,
+  context: Pick<ToolContext, 'signal' | 'emit'>,
+  aggregate: (chunks: unknown[]) => unknown = aggregateChunks
+): Promise<unknown> {
+  const { signal } = context;
+  const iterator = stream[Symbol.asyncIterator]();
+  const chunks: unknown[] = [];
+
+  let onAbort: (() => void) | undefined;
+  const aborted = new Promise<never>((_, reject) => {
+    onAbort = () => reject(abortReason(signal, 'stream'));
+    if (signal.aborted) {
+      onAbort();
+    } else {
+      signal.addEventListener('abort', onAbort, { once: true });
+    }
+  });
+  aborted.catch(() => {});
+
+  try {
+    for (;;) {
+      const next = await Promise.race([iterator.next(), aborted]);
+      if (next.done) {
+        break;
+      }
+      chunks.push(next.value);
+      await Promise.race([context.emit(next.value), aborted]);
+    }
+  } catch (error) {
+    // Don't wait for a producer that is stuck
+    Promise.resolve(iterator.return?.()).catch(() => {});
+    throw error;
+  } finally {
+    signal.removeEventListener('abort', onAbort!);
+  }
+  return aggregate(chunks);
+}
+
+/**
+ * Options for consuming a tool's output as a stream
+ */
+export interface ToolStreamOptions {
+  /**
+   * Cancels the call when aborted
+   */
+  signal?: AbortSignal;
+  /**
+   * Unread chunks at which the tool is held up (default: 16)
+   */
+  highWaterMark?: number;
+}
+
+/**
+ * Streamed output of an in-process tool call
+ *
+ * Iterate it for the chunks as they are produced, then await `result` for
+ * the final response. It can be iterated once; leaving the loop early
+ * cancels the call. The tool waits while `highWaterMark` chunks are unread,
+ * so a stream that is not iterated holds it up once that many are
+ * buffered.
+ */
+export class ToolStream implements AsyncIterable<unknown> {
+  /**
+   * Final response, with the aggregated output as its results
+   */
+  readonly result: Promise<ProcessResponse>;
+
+  private buffer: unknown[] = [];
+  private ended = false;
+  private highWaterMark: number;
+  private controller = new AbortController();
+  private wakeConsumer?: () => void;
+  private waitingProducers: Array<() => void> = [];
+
+  /**
+   * @param run - Starts the call, aborting it on `signal` and delivering
+   *   chunks through `push`
+   */
+  constructor(
+    run: (stream: { signal: AbortSignal; push: (chunk: unknown) => Promise<void> }) => Promise<ProcessResponse>,
+    options: ToolStreamOptions = {}
+  ) {
+    this.highWaterMark = Math.max(1, options.highWaterMark ?? 16);
+    const unlink = options.signal ? linkSignal(options.signal, this.controller) : () => {};
+    this.result = run({ signal: this.controller.signal, push: (chunk) => this.push(chunk) })
+      .finally(() => {
+        unlink();
+        this.end();
+      });
+  }
+
+  /**
+   * Cancel the call
+   */
+  cancel(reason?: string): void {
+    if (!this.controller.signal.aborted) {
+      this.controller.abort(cancelledError('stream', reason));
+    }
+    this.end();
+  }
+
+  async *[Symbol.asyncIterator](): AsyncIterator<unknown> {
+    try {
+      for (;;) {
+        if (this.buffer.length > 0) {
+          const chunk = this.buffer.shift();
+          this.releaseProducers();
+          yield chunk;
+        } else if (this.ended) {
+          return;
+        } else {
+          await new Promise<void>((resolve) => {
+            this.wakeConsumer = resolve;
+          });
+        }
+      }
+    } finally {
+      if (!this.ended) {
+        this.cancel('stream closed by consumer');
+      }
+    }
+  }
+
+  private push(chunk: unknown): Promise<void> {
+    if (this.ended) {
+      return Promise.resolve();
+    }
+    this.buffer.push(chunk);
+    this.wake();
+    return this.buffer.length < this.highWaterMark
+      ? Promise.resolve()
+      : new Promise((resolve) => this.waitingProducers.push(resolve));
+  }
+
+  private end(): void {
+    this.ended = true;
+    this.releaseProducers(true);
+    this.wake();
+  }
+
+  private wake(): void {
+    const wake = this.wakeConsumer;
+    this.wakeConsumer = undefined;
+    wake?.();
+  }
+
+  private releaseProducers(all = false): void {
+    if (all || this.buffer.length < this.highWaterMark) {
+      const waiting = this.waitingProducers;
+      this.waitingProducers = [];
+      waiting.forEach((resolve) => resolve());
+    }
+  }
+}
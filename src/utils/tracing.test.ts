@@ -0,0 +1,142 @@
+import { describe, it, expect } from 'vitest';
+import {
+  parseTraceparent,
+  formatTraceparent,
+  getActiveSpan,
+  Tracer,
+  InMemorySpanExporter,
+} from './tracing.js';
+import { SubAgentError, ErrorCode } from './errors.js';
+
+const TRACE_ID = '4bf92f3577b34da6a3ce929d0e0e4736';
+const SPAN_ID = '00f067aa0ba902b7';
+
+function createTracer() {
+  const exporter = new InMemorySpanExporter();
+  return { tracer: new Tracer({ serviceName: 'test', exporters: [exporter] }), exporter };
+}
+
+describe('parseTraceparent', () => {
+  it('parses valid headers', () => {
+    expect(parseTraceparent(`00-${TRACE_ID}-${SPAN_ID}-01`)).toEqual({
+      traceId: TRACE_ID,
+      spanId: SPAN_ID,
+      sampled: true,
+    });
+    expect(parseTraceparent(` 00-${TRACE_ID.toUpperCase()}-${SPAN_ID}-00 `)).toEqual({
+      traceId: TRACE_ID,
+      spanId: SPAN_ID,
+      sampled: false,
+    });
+  });
+
+  it('reads the sampled bit from the flags', () => {
+    expect(parseTraceparent(`00-${TRACE_ID}-${SPAN_ID}-03`)?.sampled).toBe(true);
+    expect(parseTraceparent(`00-${TRACE_ID}-${SPAN_ID}-02`)?.sampled).toBe(false);
+  });
+
+  it.each([
+    ['version ff', `ff-${TRACE_ID}-${SPAN_ID}-01`],
+    ['an all-zero trace id', `00-${'0'.repeat(32)}-${SPAN_ID}-01`],
+    ['an all-zero span id', `00-${TRACE_ID}-${'0'.repeat(16)}-01`],
+    ['a short trace id', `00-${TRACE_ID.slice(1)}-${SPAN_ID}-01`],
+    ['non-hex characters', `00-${TRACE_ID}-${SPAN_ID.replace('0', 'g')}-01`],
+    ['missing flags', `00-${TRACE_ID}-${SPAN_ID}`],
+    ['an empty string', ''],
+    ['a non-string', 42],
+  ])('rejects %s', (_, header) => {
+    expect(parseTraceparent(header)).toBeUndefined();
+  });
+
+  it('round-trips through formatTraceparent', () => {
+    const header = `00-${TRACE_ID}-${SPAN_ID}-01`;
+
+    expect(formatTraceparent(parseTraceparent(header)!)).toBe(header);
+    expect(formatTraceparent({ traceId: TRACE_ID, spanId: SPAN_ID, sampled: false })).toBe(
+      `00-${TRACE_ID}-${SPAN_ID}-00`
+    );
+  });
+});
+
+describe('Tracer', () => {
+  it('continues the trace of a traceparent header', () => {
+    const { tracer } = createTracer();
+
+    const span = tracer.startSpan('call', { parent: `00-${TRACE_ID}-${SPAN_ID}-01` });
+
+    expect(span.context.traceId).toBe(TRACE_ID);
+    expect(span.parentSpanId).toBe(SPAN_ID);
+    expect(span.context.spanId).not.toBe(SPAN_ID);
+  });
+
+  it('starts a new trace for an invalid traceparent header', () => {
+    const { tracer } = createTracer();
+
+    const span = tracer.startSpan('call', { parent: `ff-${TRACE_ID}-${SPAN_ID}-01` });
+
+    expect(span.context.traceId).not.toBe(TRACE_ID);
+    expect(span.parentSpanId).toBeUndefined();
+  });
+
+  it('nests spans started within an active span', async () => {
+    const { tracer, exporter } = createTracer();
+
+    await tracer.trace('outer', {}, async (outer) => {
+      expect(getActiveSpan()).toBe(outer);
+      await tracer.trace('inner', {}, async (inner) => {
+        expect(getActiveSpan()).toBe(inner);
+        tracer.startSpan('leaf').end();
+      });
+      expect(getActiveSpan()).toBe(outer);
+    });
+    expect(getActiveSpan()).toBeUndefined();
+
+    const [leaf, inner, outer] = exporter.getSpans();
+    expect([leaf!.name, inner!.name, outer!.name]).toEqual(['leaf', 'inner', 'outer']);
+    expect(outer!.parentSpanId).toBeUndefined();
+    expect(inner!.parentSpanId).toBe(outer!.spanId);
+    expect(leaf!.parentSpanId).toBe(inner!.spanId);
+    expect(new Set([leaf!.traceId, inner!.traceId, outer!.traceId]).size).toBe(1);
+  });
+
+  it('records thrown errors on the span', async () => {
+    const { tracer, exporter } = createTracer();
+
+    await expect(tracer.trace('fails', {}, async () => {
+      throw new SubAgentError('boom', ErrorCode.PROCESSING_FAILED);
+    })).rejects.toThrow('boom');
+
+    expect(exporter.getSpans()).toMatchObject([{
+      name: 'fails',
+      status: 'error',
+      statusMessage: 'boom',
+      attributes: { 'error.code': ErrorCode.PROCESSING_FAILED },
+    }]);
+  });
+
+  it('exports spans once and only when sampled', () => {
+    const { tracer, exporter } = createTracer();
+
+    const span = tracer.startSpan('sampled');
+    span.end();
+    span.end();
+    tracer.startSpan('unsampled', { parent: `00-${TRACE_ID}-${SPAN_ID}-00` }).end();
+
+    expect(exporter.getSpans().map((data) => data.name)).toEqual(['sampled']);
+  });
+
+  it('ignores failing exporters', () => {
+    const exporter = new InMemorySpanExporter();
+    const tracer = new Tracer({
+      exporters: [
+        { export: () => { throw new Error('sync failure'); } },
+        { export: () => Promise.reject(new Error('async failure')) },
+        exporter,
+      ],
+    });
+
+    tracer.startSpan('call').end();
+
+    expect(exporter.getSpans()).toHaveLength(1);
+  });
+});
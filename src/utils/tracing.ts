@@ -0,0 +1,324 @@
+import { AsyncLocalStorage } from 'node:async_hooks';
+import { randomBytes } from 'node:crypto';
+import { appendFile } from 'node:fs/promises';
+import { formatError } from './errors.js';
+
+/**
+ * Identity of a span, as carried by a W3C traceparent header
+ */
+export interface SpanContext {
+  traceId: string;
+  spanId: string;
+  sampled: boolean;
+}
+
+/**
+ * Attribute values recorded on spans
+ */
+export type SpanAttributes = Record<string, string | number | boolean>;
+
+/**
+ * Finished span, as handed to exporters
+ */
+export interface SpanData {
+  traceId: string;
+  spanId: string;
+  parentSpanId?: string;
+  name: string;
+  serviceName: string;
+  startTime: string;
+  endTime: string;
+  durationMs: number;
+  status: 'ok' | 'error';
+  statusMessage?: string;
+  attributes: SpanAttributes;
+}
+
+/**
+ * Receives finished spans
+ */
+export interface SpanExporter {
+  export(spans: SpanData[]): void | Promise<void>;
+  shutdown?(): Promise<void>;
+}
+
+/**
+ * Options for starting a span
+ */
+export interface StartSpanOptions {
+  /**
+   * Parent span or traceparent header (default: the active span)
+   */
+  parent?: Span | SpanContext | string;
+  attributes?: SpanAttributes;
+}
+
+/**
+ * Options for a tracer
+ */
+export interface TracerOptions {
+  serviceName?: string;
+  exporters?: SpanExporter[];
+}
+
+const TRACEPARENT = /^([0-9a-f]{2})-([0-9a-f]{32})-([0-9a-f]{16})-([0-9a-f]{2})$/;
+const INVALID_TRACE_ID = '0'.repeat(32);
+const INVALID_SPAN_ID = '0'.repeat(16);
+
+const activeSpan = new AsyncLocalStorage<Span>();
+
+/**
+ * Parse a W3C traceparent header
+ *
+ * Returns undefined for malformed or invalid headers.
+ */
+export function parseTraceparent(header: unknown): SpanContext | undefined {
+  if (typeof header !== 'string') {
+    return undefined;
+  }
+  const match = TRACEPARENT.exec(header.trim().toLowerCase());
+  if (!match || match[1] === 'ff' || match[2] === INVALID_TRACE_ID || match[3] === INVALID_SPAN_ID) {
+    return undefined;
+  }
+  return {
+    traceId: match[2],
+    spanId: match[3],
+    sampled: (parseInt(match[4], 16) & 1) === 1,
+  };
+}
+
+/**
+ * Format a span context as a W3C traceparent header
+ */
+export function formatTraceparent(context: SpanContext): string {
+  return `00-${context.traceId}-${context.spanId}-${context.sampled ? '01' : '00'}`;
+}
+
+/**
+ * Get the span active in the current async context
+ */
+export function getActiveSpan(): Span | undefined {
+  return activeSpan.getStore();
+}
+
+/**
+ * Run a function with a span active, then end the span
+ *
+ * Errors thrown by the function are recorded on the span and rethrown.
+ */
+export async function runInSpan<T>(span: Span, fn: (span: Span) => Promise<T>): Promise<T> {
+  try {
+    return await activeSpan.run(span, () => fn(span));
+  } catch (error) {
+    span.recordError(error);
+    throw error;
+  } finally {
+    span.end();
+  }
+}
+
+/**
+ * Unit of traced work
+ */
+export class Span {
+  readonly name: string;
+  readonly context: SpanContext;
+  readonly parentSpanId?: string;
+  private tracer: Tracer;
+  private attributes: SpanAttributes;
+  private startedAt = Date.now();
+  private status: 'ok' | 'error' = 'ok';
+  private statusMessage?: string;
+  private ended = false;
+
+  constructor(
+    tracer: Tracer,
+    name: string,
+    context: SpanContext,
+    parentSpanId?: string,
+    attributes: SpanAttributes = {}
+  ) {
+    this.tracer = tracer;
+    this.name = name;
+    this.context = context;
+    this.parentSpanId = parentSpanId;
+    this.attributes = { ...attributes };
+  }
+
+  /**
+   * traceparent header for propagating this span to another agent
+   */
+  get traceparent(): string {
+    return formatTraceparent(this.context);
+  }
+
+  setAttribute(key: string, value: string | number | boolean): this {
+    this.attributes[key] = value;
+    return this;
+  }
+
+  /**
+   * Mark the span as failed
+   */
+  setError(message?: string): this {
+    this.status = 'error';
+    this.statusMessage = message;
+    return this;
+  }
+
+  /**
+   * Mark the span as failed with the message and code of an error
+   */
+  recordError(error: unknown): this {
+    const formattedError = formatError(error);
+    this.setAttribute('error.code', formattedError.code);
+    return this.setError(formattedError.message);
+  }
+
+  /**
+   * Start a child span
+   */
+  startChild(name: string, attributes?: SpanAttributes): Span {
+    return this.tracer.startSpan(name, { parent: this, attributes });
+  }
+
+  /**
+   * Finish the span and hand it to the exporters; later calls are ignored
+   */
+  end(): void {
+    if (this.ended) {
+      return;
+    }
+    this.ended = true;
+
+    const endedAt = Date.now();
+    this.tracer.export(this, {
+      traceId: this.context.traceId,
+      spanId: this.context.spanId,
+      parentSpanId: this.parentSpanId,
+      name: this.name,
+      serviceName: this.tracer.serviceName,
+      startTime: new Date(this.startedAt).toISOString(),
+      endTime: new Date(endedAt).toISOString(),
+      durationMs: endedAt - this.startedAt,
+      status: this.status,
+      statusMessage: this.statusMessage,
+      attributes: { ...this.attributes },
+    });
+  }
+}
+
+/**
+ * Creates spans and hands finished, sampled spans to exporters
+ *
+ * Exporter failures are swallowed so tracing never breaks a call.
+ */
+export class Tracer {
+  readonly serviceName: string;
+  private exporters: SpanExporter[];
+
+  constructor(options: TracerOptions = {}) {
+    this.serviceName = options.serviceName ?? 'xorng-subagent';
+    this.exporters = [...(options.exporters ?? [])];
+  }
+
+  addExporter(exporter: SpanExporter): void {
+    this.exporters.push(exporter);
+  }
+
+  /**
+   * Start a span, continuing the parent's trace when there is one
+   */
+  startSpan(name: string, options: StartSpanOptions = {}): Span {
+    const parent = options.parent instanceof Span
+      ? options.parent.context
+      : typeof options.parent === 'string'
+        ? parseTraceparent(options.parent) ?? getActiveSpan()?.context
+        : options.parent ?? getActiveSpan()?.context;
+
+    return new Span(
+      this,
+      name,
+      {
+        traceId: parent?.traceId ?? randomBytes(16).toString('hex'),
+        spanId: randomBytes(8).toString('hex'),
+        sampled: parent?.sampled ?? true,
+      },
+      parent?.spanId,
+      options.attributes
+    );
+  }
+
+  /**
+   * Run a function in a new active span
+   */
+  trace<T>(name: string, options: StartSpanOptions, fn: (span: Span) => Promise<T>): Promise<T> {
+    return runInSpan(this.startSpan(name, options), fn);
+  }
+
+  /**
+   * Hand a finished span to the exporters; called by Span.end()
+   */
+  export(span: Span, data: SpanData): void {
+    if (!span.context.sampled) {
+      return;
+    }
+    for (const exporter of this.exporters) {
+      try {
+        Promise.resolve(exporter.export([data])).catch(() => {});
+      } catch {
+        // Ignore exporter failures
+      }
+    }
+  }
+
+  /**
+   * Flush and shut down all exporters
+   */
+  async shutdown(): Promise<void> {
+    await Promise.allSettled(this.exporters.map((exporter) => exporter.shutdown?.()));
+  }
+}
+
+/**
+ * Exporter that keeps finished spans in memory
+ */
+export class InMemorySpanExporter implements SpanExporter {
+  private spans: SpanData[] = [];
+
+  export(spans: SpanData[]): void {
+    this.spans.push(...spans);
+  }
+
+  getSpans(): SpanData[] {
+    return [...this.spans];
+  }
+
+  reset(): void {
+    this.spans = [];
+  }
+}
+
+/**
+ * Exporter that appends finished spans to a file, one JSON object per line
+ */
+export class JsonLinesSpanExporter implements SpanExporter {
+  private path: string;
+  private pending: Promise<void> = Promise.resolve();
+
+  constructor(path: string) {
+    this.path = path;
+  }
+
+  export(spans: SpanData[]): Promise<void> {
+    const lines = spans.map((span) => `${JSON.stringify(span)}\n`).join('');
+    this.pending = this.pending
+      .catch(() => {})
+      .then(() => appendFile(this.path, lines, 'utf8'));
+    return this.pending;
+  }
+
+  async shutdown(): Promise<void> {
+    await this.pending.catch(() => {});
+  }
+}
@@ -1,10 +1,64 @@
-import { z, ZodError, ZodType } from 'zod';
+import { z, ZodError, ZodType, type ZodTypeDef } from 'zod';
+import type { InputLimits } from '../types/index.js';
+import { SubAgentError, validationError } from './errors.js';
+import { resolveWithinRoot } from './workspace.js';
+
+/**
+ * Limits applied when an agent's config and tools set none
+ */
+export const DEFAULT_INPUT_LIMITS: InputLimits = {
+  maxBytes: 1024 * 1024,
+  maxDepth: 32,
+};
+
+/**
+ * Input limit that a payload exceeded
+ */
+export interface InputLimitViolation {
+  limit: keyof InputLimits;
+  max: number;
+  actual: number;
+  /**
+   * Dotted path of the offending value; empty for the payload itself
+   */
+  path: string;
+}
+
+/**
+ * Prompt-injection markers detected by findInjectionMarkers()
+ */
+export const INJECTION_MARKERS: ReadonlyArray<{ name: string; pattern: RegExp }> = [
+  {
+    name: 'ignore-instructions',
+    pattern: /\b(ignore|disregard|forget|override)\s+(all\s+|any\s+)?(the\s+|your\s+)?(previous|prior|above|earlier|system)\s+(instructions|prompts?|rules|context)\b/i,
+  },
+  {
+    name: 'role-override',
+    pattern: /\b(you\s+are\s+now|from\s+now\s+on\s+you\s+are|new\s+instructions\s*:)/i,
+  },
+  {
+    name: 'role-header',
+    pattern: /^\s*(system|assistant|developer)\s*:/im,
+  },
+  {
+    name: 'chat-template-token',
+    pattern: /<\|(im_start|im_end|system|user|assistant|endoftext)\|>|\[\/?INST\]|<<\/?SYS>>/i,
+  },
+  {
+    name: 'prompt-exfiltration',
+    pattern: /\b(reveal|print|repeat|show)\s+(me\s+)?(your|the)\s+(system\s+prompt|hidden\s+instructions|initial\s+instructions)\b/i,
+  },
+  {
+    name: 'invisible-characters',
+    pattern: /[\u200B-\u200F\u202A-\u202E\u2060-\u2064\uFEFF]/,
+  },
+];
 
 /**
  * Validate data against a Zod schema
  */
 export function validateSchema<T>(
-  schema: ZodType<T>,
+  schema: ZodType<T, ZodTypeDef, unknown>,
   data: unknown
 ): { success: true; data: T } | { success: false; errors: string[] } {
   try {
@@ -23,6 +77,90 @@ export function validateSchema<T>(
   }
 }
 
+/**
+ * Check a payload against size and shape limits
+ *
+ * Sizes are measured as the payload's approximate JSON encoding. Returns
+ * the first violation found, or undefined when the payload is within the
+ * limits.
+ */
+export function checkInputLimits(
+  value: unknown,
+  limits: InputLimits = DEFAULT_INPUT_LIMITS
+): InputLimitViolation | undefined {
+  let violation: InputLimitViolation | undefined;
+
+  const measure = (current: unknown, path: string[], depth: number): number => {
+    if (violation) {
+      return 0;
+    }
+    const at = path.join('.');
+
+    if (typeof current === 'string') {
+      if (limits.maxStringLength !== undefined && current.length > limits.maxStringLength) {
+        violation = { limit: 'maxStringLength', max: limits.maxStringLength, actual: current.length, path: at };
+      }
+      return Buffer.byteLength(current) + 2;
+    }
+    if (current === null || typeof current !== 'object') {
+      return current === undefined || typeof current === 'function' ? 0 : String(current).length;
+    }
+    if (current instanceof Date) {
+      return 26;
+    }
+
+    if (limits.maxDepth !== undefined && depth >= limits.maxDepth) {
+      violation = { limit: 'maxDepth', max: limits.maxDepth, actual: depth + 1, path: at };
+      return 0;
+    }
+    const entries = Array.isArray(current)
+      ? current.map((item, index) => [String(index), item] as const)
+      : Object.entries(current);
+    if (limits.maxItems !== undefined && entries.length > limits.maxItems) {
+      violation = { limit: 'maxItems', max: limits.maxItems, actual: entries.length, path: at };
+      return 0;
+    }
+
+    let bytes = 2 + Math.max(0, entries.length - 1);
+    for (const [key, item] of entries) {
+      bytes += (Array.isArray(current) ? 0 : Buffer.byteLength(key) + 3) + measure(item, [...path, key], depth + 1);
+    }
+    return bytes;
+  };
+
+  const bytes = measure(value, [], 0);
+  if (!violation && limits.maxBytes !== undefined && bytes > limits.maxBytes) {
+    violation = { limit: 'maxBytes', max: limits.maxBytes, actual: bytes, path: '' };
+  }
+  return violation;
+}
+
+/**
+ * Throw an INVALID_INPUT error when a payload exceeds its limits
+ */
+export function assertInputLimits(value: unknown, limits: InputLimits = DEFAULT_INPUT_LIMITS): void {
+  const violation = checkInputLimits(value, limits);
+  if (violation) {
+    const where = violation.path ? ` at '${violation.path}'` : '';
+    throw validationError(
+      `Input exceeds ${violation.limit}${where}: ${violation.actual} > ${violation.max}`,
+      { ...violation }
+    );
+  }
+}
+
+/**
+ * Find the prompt-injection markers in untrusted text
+ *
+ * Returns the names of the matching INJECTION_MARKERS. A match is a signal,
+ * not proof: treat the text as data and never as instructions.
+ */
+export function findInjectionMarkers(text: string): string[] {
+  return INJECTION_MARKERS
+    .filter((marker) => marker.pattern.test(text))
+    .map((marker) => marker.name);
+}
+
 /**
  * Create a schema with common fields
  */
@@ -32,6 +170,16 @@ export function createSchema<T extends z.ZodRawShape>(
   return z.object(shape);
 }
 
+/**
+ * Control characters other than tab, newline and carriage return
+ */
+const CONTROL_CHARACTERS = /[\u0000-\u0008\u000B\u000C\u000E-\u001F\u007F]/;
+
+/**
+ * Keys that could pollute object prototypes
+ */
+const UNSAFE_KEYS = new Set(['__proto__', 'constructor', 'prototype']);
+
 /**
  * Common schema helpers
  */
@@ -62,11 +210,15 @@ export const schemas = {
   isoDate: z.string().datetime(),
 
   /**
-   * File path
+   * File path without `..` segments; use workspacePath() to confine paths
+   * to a directory
    */
   filePath: z.string().regex(
     /^[a-zA-Z0-9_\-./\\]+$/,
     'Invalid file path characters'
+  ).refine(
+    (path) => !path.split(/[/\\]/).includes('..'),
+    'File path must not contain .. segments'
   ),
 
   /**
@@ -82,4 +234,71 @@ export const schemas = {
    * Severity level
    */
   severity: z.enum(['error', 'warning', 'info', 'hint']),
+
+  /**
+   * String of bounded length without control characters other than tab,
+   * newline and carriage return
+   */
+  boundedString: (maxLength: number, minLength: number = 0) => z.string()
+    .min(minLength)
+    .max(maxLength)
+    .refine((value) => !CONTROL_CHARACTERS.test(value), 'String contains control characters'),
+
+  /**
+   * Array of at most `maxItems` items
+   */
+  boundedArray: <T extends ZodType>(item: T, maxItems: number) => z.array(item).max(maxItems),
+
+  /**
+   * Record of at most `maxKeys` entries, rejecting keys that could pollute
+   * object prototypes
+   */
+  safeRecord: <T extends ZodType>(value: T, maxKeys: number) => z.unknown().superRefine((record, ctx) => {
+    // Checked before parsing, which would drop a __proto__ key
+    if (typeof record !== 'object' || record === null) {
+      return;
+    }
+    const keys = Object.keys(record);
+    if (keys.length > maxKeys) {
+      ctx.addIssue({ code: z.ZodIssueCode.custom, message: `Expected at most ${maxKeys} keys` });
+    }
+    for (const key of keys.filter((key) => UNSAFE_KEYS.has(key))) {
+      ctx.addIssue({ code: z.ZodIssueCode.custom, path: [key], message: `Key '${key}' is not allowed` });
+    }
+  }).pipe(z.record(value)),
+
+  /**
+   * Untrusted text of bounded length, rejected when it contains
+   * prompt-injection markers (unless `allowInjectionMarkers` is set)
+   */
+  untrustedText: (maxLength: number, options: { allowInjectionMarkers?: boolean } = {}) => z.string()
+    .max(maxLength)
+    .superRefine((text, ctx) => {
+      const markers = options.allowInjectionMarkers ? [] : findInjectionMarkers(text);
+      if (markers.length > 0) {
+        ctx.addIssue({
+          code: z.ZodIssueCode.custom,
+          message: `Text contains prompt-injection markers: ${markers.join(', ')}`,
+          params: { markers },
+        });
+      }
+    }),
+
+  /**
+   * Path confined to a workspace root, resolved to its real absolute path
+   *
+   * Rejects paths that escape the root, also through symbolic links.
+   */
+  workspacePath: (root: string) => z.string().min(1).transform((path, ctx) => {
+    try {
+      return resolveWithinRoot(root, path);
+    } catch (error) {
+      ctx.addIssue({
+        code: z.ZodIssueCode.custom,
+        message: error instanceof Error ? error.message : String(error),
+        params: error instanceof SubAgentError ? error.details : undefined,
+      });
+      return z.NEVER;
+    }
+  }),
 };
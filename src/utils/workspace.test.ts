@@ -0,0 +1,98 @@
+import { describe, it, expect, beforeAll, afterAll } from 'vitest';
+import { mkdirSync, mkdtempSync, realpathSync, rmSync, symlinkSync, writeFileSync } from 'node:fs';
+import { tmpdir } from 'node:os';
+import { join } from 'node:path';
+import { resolveWithinRoot, isWithin } from './workspace.js';
+import { ErrorCode } from './errors.js';
+
+let base: string;
+let root: string;
+let outside: string;
+
+beforeAll(() => {
+  base = realpathSync(mkdtempSync(join(tmpdir(), 'workspace-test-')));
+  root = join(base, 'root');
+  outside = join(base, 'outside');
+  mkdirSync(join(root, 'src'), { recursive: true });
+  mkdirSync(outside);
+  writeFileSync(join(root, 'src', 'index.ts'), '');
+  writeFileSync(join(outside, 'secret.txt'), '');
+  symlinkSync(join(root, 'src'), join(root, 'src-link'));
+  symlinkSync(outside, join(root, 'escape'));
+  symlinkSync(join(outside, 'secret.txt'), join(root, 'secret-link'));
+  symlinkSync(join(base, 'missing'), join(root, 'dangling'));
+});
+
+afterAll(() => {
+  rmSync(base, { recursive: true, force: true });
+});
+
+function rejection(path: string): unknown {
+  try {
+    resolveWithinRoot(root, path);
+  } catch (error) {
+    return error;
+  }
+  throw new Error(`Expected '${path}' to be rejected`);
+}
+
+describe('resolveWithinRoot', () => {
+  it('resolves relative and absolute paths inside the root', () => {
+    expect(resolveWithinRoot(root, 'src/index.ts')).toBe(join(root, 'src', 'index.ts'));
+    expect(resolveWithinRoot(root, join(root, 'src'))).toBe(join(root, 'src'));
+    expect(resolveWithinRoot(root, '.')).toBe(root);
+    expect(resolveWithinRoot(root, 'src/../src/index.ts')).toBe(join(root, 'src', 'index.ts'));
+  });
+
+  it('accepts paths that do not exist yet', () => {
+    expect(resolveWithinRoot(root, 'src/new/file.ts')).toBe(join(root, 'src', 'new', 'file.ts'));
+  });
+
+  it('follows symbolic links that stay inside the root', () => {
+    expect(resolveWithinRoot(root, 'src-link/index.ts')).toBe(join(root, 'src', 'index.ts'));
+    expect(resolveWithinRoot(root, 'src-link/new.ts')).toBe(join(root, 'src', 'new.ts'));
+  });
+
+  it('rejects .. and absolute paths outside the root', () => {
+    expect(rejection('../outside/secret.txt')).toMatchObject({
+      code: ErrorCode.INVALID_INPUT,
+      details: { reason: 'outside-root', path: '../outside/secret.txt', root },
+    });
+    expect(rejection('src/../../outside')).toMatchObject({ details: { reason: 'outside-root' } });
+    expect(rejection(join(outside, 'secret.txt'))).toMatchObject({ details: { reason: 'outside-root' } });
+  });
+
+  it('rejects escapes through symbolic links', () => {
+    expect(rejection('secret-link')).toMatchObject({ details: { reason: 'symlink-escape' } });
+    expect(rejection('escape/secret.txt')).toMatchObject({ details: { reason: 'symlink-escape' } });
+  });
+
+  it('rejects new paths under a symlinked parent that resolves outside the root', () => {
+    expect(rejection('escape/new/file.txt')).toMatchObject({ details: { reason: 'symlink-escape' } });
+  });
+
+  it('rejects paths through dangling symbolic links', () => {
+    expect(rejection('dangling')).toMatchObject({ details: { reason: 'dangling-symlink' } });
+    expect(rejection('dangling/file.txt')).toMatchObject({ details: { reason: 'dangling-symlink' } });
+  });
+
+  it('rejects empty paths and NUL bytes', () => {
+    expect(rejection('')).toMatchObject({ details: { reason: 'invalid' } });
+    expect(rejection('src/index.ts\0.png')).toMatchObject({ details: { reason: 'invalid' } });
+  });
+
+  it('rejects a root that does not exist as a configuration error', () => {
+    expect(() => resolveWithinRoot(join(base, 'missing'), 'file.txt'))
+      .toThrow(expect.objectContaining({ code: ErrorCode.INVALID_CONFIG }));
+  });
+});
+
+describe('isWithin', () => {
+  it('compares paths lexically', () => {
+    expect(isWithin('/work', '/work')).toBe(true);
+    expect(isWithin('/work', '/work/a/b')).toBe(true);
+    expect(isWithin('/work', '/work-other')).toBe(false);
+    expect(isWithin('/work', '/')).toBe(false);
+    expect(isWithin('/work', '/work/..file')).toBe(true);
+  });
+});
@@ -0,0 +1,83 @@
+import { lstatSync, realpathSync } from 'node:fs';
+import { basename, dirname, isAbsolute, join, relative, resolve, sep } from 'node:path';
+import { SubAgentError, ErrorCode, validationError } from './errors.js';
+
+/**
+ * Why a path was rejected by resolveWithinRoot()
+ */
+export type PathViolation = 'invalid' | 'outside-root' | 'symlink-escape' | 'dangling-symlink';
+
+/**
+ * Resolve a path against a workspace root, rejecting paths that escape it
+ *
+ * Relative paths are resolved against the root. Symbolic links are
+ * followed, so a link inside the root pointing outside of it is rejected.
+ * The path itself need not exist, e.g. for a file about to be created.
+ * Returns the real absolute path; throws an INVALID_INPUT error with the
+ * `path`, `root` and `reason` in its details otherwise.
+ */
+export function resolveWithinRoot(root: string, path: string): string {
+  const reject = (reason: PathViolation, message: string) =>
+    validationError(message, { path, root, reason });
+
+  if (path.length === 0 || path.includes('\0')) {
+    throw reject('invalid', 'Invalid path');
+  }
+
+  let realRoot: string;
+  try {
+    realRoot = realpathSync.native(resolve(root));
+  } catch (error) {
+    throw new SubAgentError(
+      `Workspace root '${root}' is not accessible`,
+      ErrorCode.INVALID_CONFIG,
+      { root, cause: (error as NodeJS.ErrnoException).code }
+    );
+  }
+
+  const target = resolve(realRoot, path);
+  if (!isWithin(realRoot, target)) {
+    throw reject('outside-root', `Path '${path}' is outside the workspace root`);
+  }
+
+  // Resolve the longest existing prefix; the rest does not exist yet
+  let existing = target;
+  const missing: string[] = [];
+  let realTarget: string | undefined;
+  while (realTarget === undefined) {
+    try {
+      realTarget = join(realpathSync.native(existing), ...missing);
+    } catch (error) {
+      const code = (error as NodeJS.ErrnoException).code;
+      if (code !== 'ENOENT' && code !== 'ENOTDIR') {
+        throw reject('invalid', `Path '${path}' cannot be resolved: ${code}`);
+      }
+      if (isSymlink(existing)) {
+        throw reject('dangling-symlink', `Path '${path}' goes through a dangling symbolic link`);
+      }
+      missing.unshift(basename(existing));
+      existing = dirname(existing);
+    }
+  }
+
+  if (!isWithin(realRoot, realTarget)) {
+    throw reject('symlink-escape', `Path '${path}' leaves the workspace root through a symbolic link`);
+  }
+  return realTarget;
+}
+
+/**
+ * Check whether a path is a root or inside it, without touching the file system
+ */
+export function isWithin(root: string, path: string): boolean {
+  const rel = relative(root, path);
+  return rel === '' || (!isAbsolute(rel) && rel !== '..' && !rel.startsWith(`..${sep}`));
+}
+
+function isSymlink(path: string): boolean {
+  try {
+    return lstatSync(path).isSymbolicLink();
+  } catch {
+    return false;
+  }
+}